@@ -1,12 +1,53 @@
-import React, { useState, useEffect } from 'react';
-import { AppState } from './types.ts';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppState, ExamProfileId, CefrLevel, ModuleKey, RawScore } from './types.ts';
 import ReadingModule from './components/modules/ReadingModule.tsx';
 import ListeningModule from './components/modules/ListeningModule.tsx';
 import WritingModule from './components/modules/WritingModule.tsx';
 import SpeakingModule from './components/modules/SpeakingModule.tsx';
-import { submitTestResults } from './services/submissionService.ts';
-import { generateReadingTest, preloadListeningTest, generateWritingTask, generateSpeakingTask } from './services/geminiService.ts';
-import { BookOpen, Headphones, PenTool, Mic, Award, RotateCcw, ArrowRight, Sparkles, User, Phone, Globe, Lightbulb, Loader2, AlertCircle } from 'lucide-react';
+import { enqueueSubmission, retrySubmission, startOutbox, subscribeOutbox, loadOutbox, submissionStatus, OutboxEntry } from './services/submissionOutbox.ts';
+import { generateReadingTest, preloadListeningTest, generateWritingTask, generateSpeakingTask } from './services/contentProvider.ts';
+import { examProfiles, getExamProfile, DEFAULT_EXAM_PROFILE } from './services/examProfiles.ts';
+import { CEFR_LEVELS, DEFAULT_LEVEL, applyLevel } from './services/cefrLevels.ts';
+import { timeLimitSeconds, formatTime } from './services/examTimer.ts';
+import { scoreExam, modulePoints, modulePassPercent, isUnscored, ExamResult } from './services/examScoring.ts';
+import { loadHistory, saveAttempt, clearHistory, previousMockAttempt, historySkillStats, AttemptRecord, REPORT_ATTEMPTS } from './services/attemptHistory.ts';
+import { mergeSkillStats, rankWeaknesses, SkillStats, Weakness } from './services/skillTags.ts';
+import HistoryScreen from './components/history/HistoryScreen.tsx';
+import WeaknessReport from './components/history/WeaknessReport.tsx';
+import { loadDeck, dueCards } from './services/reviewDeck.ts';
+import ReviewSession from './components/review/ReviewSession.tsx';
+import { explanationLanguageFor } from './services/answerExplanations.ts';
+import { t, examText, dateLocale, getUiLanguage, setUiLanguage, UI_LANGUAGES, UiLanguage } from './services/i18n.ts';
+import { loadSession, saveSnapshot, saveContent, saveProgress, clearSession, StoredSession, ModuleContent, ModuleProgress, SESSION_TTL_HOURS } from './services/sessionStore.ts';
+import { BookOpen, Headphones, PenTool, Mic, Award, Clock, History, Trash2, TrendingUp, Layers, RotateCcw, ArrowRight, Sparkles, User, Phone, Globe, Lightbulb, AlertCircle, CheckCircle, CloudUpload, CloudOff } from 'lucide-react';
+
+// Percentage-point change of a module against the previous mock test
+const ScoreDelta = ({ delta }: { delta: number }) => (
+  <span className={`text-xs font-semibold ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-500' : 'text-gray-400'}`}>
+    {delta > 0 ? `▲ +${delta}` : delta < 0 ? `▼ ${delta}` : '±0'} %
+  </span>
+);
+
+// Where an unfinished test stopped, shown in the resume offer
+const sessionStageLabel = (stage: AppState): string => {
+  switch (stage) {
+    case AppState.TEST_READING: return t('module.reading');
+    case AppState.TEST_LISTENING: return t('module.listening');
+    case AppState.TEST_WRITING: return t('module.writing');
+    case AppState.TEST_SPEAKING: return t('module.speaking');
+    case AppState.USER_DETAILS_FORM: return t('home.allModulesFinished');
+    default: return t('home.inProgress');
+  }
+};
+
+const PREFERRED_LANGUAGES = ['English', 'Malayalam', 'Tamil', 'Other'] as const;
+
+const MODULE_STATES: Record<ModuleKey, AppState> = {
+  reading: AppState.TEST_READING,
+  listening: AppState.TEST_LISTENING,
+  writing: AppState.TEST_WRITING,
+  speaking: AppState.TEST_SPEAKING
+};
 
 const App = () => {
   const [state, setState] = useState<AppState>(AppState.HOME);
@@ -16,13 +57,45 @@ const App = () => {
     writing: 0,
     speaking: 0
   });
+  const [timeSpent, setTimeSpent] = useState<Record<ModuleKey, number>>({
+    reading: 0,
+    listening: 0,
+    writing: 0,
+    speaking: 0
+  });
+  // Raw results behind the scores, converted to exam points on the results screen
+  const [rawScores, setRawScores] = useState<Partial<Record<ModuleKey, RawScore>>>({});
+  // Per-skill mistakes of each module taken, for the weakness report
+  const [skillStats, setSkillStats] = useState<Partial<Record<ModuleKey, SkillStats>>>({});
+  // Display language; every t() call reads it, so changing it re-renders the app in the new language
+  const [uiLanguage, setUiLanguageState] = useState<UiLanguage>(getUiLanguage);
   const [userDetails, setUserDetails] = useState({
     name: '',
     phone: '',
-    language: 'Malayalam'
+    language: UI_LANGUAGES.find(l => l.id === getUiLanguage())!.preferredLanguage
   });
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [examProfileId, setExamProfileId] = useState<ExamProfileId>(DEFAULT_EXAM_PROFILE);
+  const [level, setLevel] = useState<CefrLevel>(DEFAULT_LEVEL);
+  const [strictMode, setStrictMode] = useState(false);
+  const [timed, setTimed] = useState(true);
+  // An unfinished test found on start-up, offered on HOME until resumed or discarded
+  const [resumable, setResumable] = useState<StoredSession | null>(null);
+  const [savedProgress, setSavedProgress] = useState<Partial<ModuleProgress>>({});
+  // Practice mode: one module on its own, no details form and no submission
+  const [practiceModule, setPracticeModule] = useState<ModuleKey | null>(null);
+  const [history, setHistory] = useState<AttemptRecord[]>(loadHistory);
+  const [currentAttempt, setCurrentAttempt] = useState<AttemptRecord | null>(null);
+  const [historyReturnState, setHistoryReturnState] = useState<AppState>(AppState.HOME);
+  // Size of the mistake deck and how many cards are due today, refreshed whenever HOME is shown
+  const [reviewStatus, setReviewStatus] = useState({ cards: 0, due: 0 });
+  // Delivery of the details form: the outbox entry of the last submission, and the outbox itself
+  const [submissionId, setSubmissionId] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(loadOutbox);
+  const profile = useMemo(() => applyLevel(getExamProfile(examProfileId), level), [examProfileId, level]);
+  // Background loads started for a previous profile or level must not land in the current one
+  const setupKey = `${examProfileId}/${level}`;
+  const setupRef = useRef(setupKey);
 
   // --- PRELOADING STATE ---
   const [preloadedReading, setPreloadedReading] = useState<any>(null);
@@ -30,71 +103,226 @@ const App = () => {
   const [preloadedWriting, setPreloadedWriting] = useState<any>(null);
   const [preloadedSpeaking, setPreloadedSpeaking] = useState<any>(null);
 
+  useEffect(() => {
+    document.documentElement.lang = uiLanguage;
+  }, [uiLanguage]);
+
+  // The display language also pre-fills "Preferred Language" in the details form
+  const changeUiLanguage = (language: UiLanguage) => {
+    setUiLanguage(language);
+    setUiLanguageState(language);
+    setUserDetails(prev => ({ ...prev, language: UI_LANGUAGES.find(l => l.id === language)!.preferredLanguage }));
+  };
+
+  // Submissions left over from an earlier visit are resent in the background
+  useEffect(() => {
+    startOutbox();
+    return subscribeOutbox(setOutbox);
+  }, []);
+
+  // --- SESSION PERSISTENCE ---
+  // Checked whenever HOME is shown, so leaving a test through the header also offers to resume it
+  useEffect(() => {
+    if (state !== AppState.HOME) return;
+    const deck = loadDeck();
+    setReviewStatus({ cards: deck.length, due: dueCards(deck).length });
+    loadSession().then(session => {
+      if (session && session.snapshot.state !== AppState.HOME) setResumable(session);
+    });
+  }, [state]);
+
+  // Only a running test is saved; on HOME an older session may still be waiting to be resumed
+  const inTest = ![AppState.HOME, AppState.RESULTS, AppState.PRACTICE_RESULT, AppState.HISTORY, AppState.REVIEW].includes(state);
+  useEffect(() => {
+    if (!inTest) return;
+    saveSnapshot({ state, examProfileId, level, strictMode, timed, practiceModule, scores, rawScores, timeSpent, skillStats });
+  }, [inTest, state, examProfileId, level, strictMode, timed, practiceModule, scores, rawScores, timeSpent, skillStats]);
+
+  useEffect(() => {
+    if (!inTest) return;
+    if (preloadedReading) saveContent('reading', preloadedReading);
+    if (preloadedListening) saveContent('listening', preloadedListening);
+    if (preloadedWriting) saveContent('writing', preloadedWriting);
+    if (preloadedSpeaking) saveContent('speaking', preloadedSpeaking);
+  }, [inTest, preloadedReading, preloadedListening, preloadedWriting, preloadedSpeaking]);
+
+  const persistProgress = <K extends ModuleKey,>(module: K) => (content: ModuleContent[K], progress: ModuleProgress[K]) => {
+    saveContent(module, content);
+    saveProgress(module, progress);
+  };
+
+  const resetAttempt = () => {
+    clearSession();
+    setResumable(null);
+    setSavedProgress({});
+    setScores({ reading: 0, listening: 0, writing: 0, speaking: 0 });
+    setRawScores({});
+    setSkillStats({});
+    setTimeSpent({ reading: 0, listening: 0, writing: 0, speaking: 0 });
+  };
+
+  const startTest = () => {
+    resetAttempt();
+    setPracticeModule(null);
+    setState(AppState.TEST_READING);
+  };
+
+  const startPractice = (module: ModuleKey) => {
+    resetAttempt();
+    setPracticeModule(module);
+    setState(MODULE_STATES[module]);
+  };
+
+  // Practising the same module again needs new content, not the one just used
+  const practiceAgain = () => {
+    if (!practiceModule) return;
+    if (practiceModule === 'reading') setPreloadedReading(null);
+    if (practiceModule === 'listening') setPreloadedListening(null);
+    if (practiceModule === 'writing') setPreloadedWriting(null);
+    if (practiceModule === 'speaking') setPreloadedSpeaking(null);
+    startPractice(practiceModule);
+  };
+
+  const resumeSession = () => {
+    if (!resumable) return;
+    const { snapshot, content, progress } = resumable;
+    setupRef.current = `${snapshot.examProfileId}/${snapshot.level}`;
+    setExamProfileId(snapshot.examProfileId);
+    setLevel(snapshot.level);
+    setStrictMode(snapshot.strictMode);
+    setTimed(snapshot.timed);
+    setPracticeModule(snapshot.practiceModule || null);
+    setScores(snapshot.scores);
+    setRawScores(snapshot.rawScores || {});
+    setSkillStats(snapshot.skillStats || {});
+    setTimeSpent(snapshot.timeSpent);
+    setPreloadedReading(content.reading || null); setPreloadedListening(content.listening || null); setPreloadedWriting(content.writing || null); setPreloadedSpeaking(content.speaking || null);
+    setSavedProgress(progress);
+    setResumable(null);
+    setState(snapshot.state);
+  };
+
+  const recordAttempt = (attempt: Omit<AttemptRecord, 'id' | 'completedAt'>) => {
+    const updated = saveAttempt(attempt);
+    setHistory(updated);
+    setCurrentAttempt(updated[updated.length - 1]);
+  };
+
+  const showHistory = () => {
+    setHistoryReturnState(state);
+    setState(AppState.HISTORY);
+  };
+
+  const discardSession = () => {
+    clearSession();
+    setResumable(null);
+  };
+
   // --- PRELOADING LOGIC ---
   useEffect(() => {
+    const forProfile = <T,>(setter: (value: T) => void) => (value: T) => {
+      if (setupRef.current === setupKey) setter(value);
+    };
     if (state === AppState.HOME && !preloadedReading) {
-      generateReadingTest().then(setPreloadedReading).catch(e => console.error("BG Load Reading Failed", e));
+      generateReadingTest(profile, level).then(forProfile(setPreloadedReading)).catch(e => console.error("BG Load Reading Failed", e));
     }
+    // A practice run only needs its own module, which loads itself if HOME hasn't preloaded it
+    if (practiceModule) return;
     if (state === AppState.TEST_READING && !preloadedListening) {
-      preloadListeningTest().then(setPreloadedListening).catch(e => console.error("BG Load Listening Failed", e));
+      preloadListeningTest(profile, level).then(forProfile(setPreloadedListening)).catch(e => console.error("BG Load Listening Failed", e));
     }
     if (state === AppState.TEST_LISTENING && !preloadedWriting) {
-      generateWritingTask().then(setPreloadedWriting).catch(e => console.error("BG Load Writing Failed", e));
+      generateWritingTask(profile, level).then(forProfile(setPreloadedWriting)).catch(e => console.error("BG Load Writing Failed", e));
     }
     if (state === AppState.TEST_WRITING && !preloadedSpeaking) {
-      generateSpeakingTask().then(setPreloadedSpeaking).catch(e => console.error("BG Load Speaking Failed", e));
+      generateSpeakingTask(profile, level).then(forProfile(setPreloadedSpeaking)).catch(e => console.error("BG Load Speaking Failed", e));
     }
-  }, [state, preloadedReading, preloadedListening, preloadedWriting, preloadedSpeaking]);
+  }, [state, profile, level, setupKey, practiceModule, preloadedReading, preloadedListening, preloadedWriting, preloadedSpeaking]);
+
+  const selectSetup = (id: ExamProfileId, nextLevel: CefrLevel) => {
+    if (id === examProfileId && nextLevel === level) return;
+    setupRef.current = `${id}/${nextLevel}`;
+    setExamProfileId(id);
+    setLevel(nextLevel);
+    setPreloadedReading(null); setPreloadedListening(null); setPreloadedWriting(null); setPreloadedSpeaking(null);
+  };
 
-  const updateScore = (module: keyof typeof scores, score: number) => {
+  const timeLimit = (module: ModuleKey) => (timed ? timeLimitSeconds(profile, module) : 0);
+
+  const updateScore = (module: ModuleKey, score: number, seconds: number, raw: RawScore, skills: SkillStats) => {
     setScores(prev => ({ ...prev, [module]: score }));
+    setRawScores(prev => ({ ...prev, [module]: raw }));
+    setSkillStats(prev => ({ ...prev, [module]: skills }));
+    setTimeSpent(prev => ({ ...prev, [module]: seconds }));
+    if (practiceModule) {
+      recordAttempt({ examProfileId, level, practiceModule, scores: isUnscored(raw) ? {} : { [module]: score }, timeSpent: { [module]: seconds }, skills });
+      clearSession();
+      setState(AppState.PRACTICE_RESULT);
+      return;
+    }
     if (module === 'reading') setState(AppState.TEST_LISTENING);
     if (module === 'listening') setState(AppState.TEST_WRITING);
     if (module === 'writing') setState(AppState.TEST_SPEAKING);
     if (module === 'speaking') setState(AppState.USER_DETAILS_FORM);
   };
 
+  // Modules left unscored (every answer key disputed) count neither in the average nor in the history
+  const scoredModules = () => (Object.keys(scores) as ModuleKey[]).filter(m => !isUnscored(rawScores[m]));
+
   const getAverageScore = () => {
-    return Math.round((scores.reading + scores.listening + scores.writing + scores.speaking) / 4);
+    const scored = scoredModules();
+    return scored.length ? Math.round(scored.reduce((sum, m) => sum + scores[m], 0) / scored.length) : 0;
   };
 
-  const getExamTips = (score: number) => {
-    if (score >= 90) {
+  const getExamResult = () => scoreExam(profile.scoring, rawScores);
+
+  // Tips follow the exam's own verdict: a failed section comes first, otherwise the Prädikat.
+  // The advice itself comes from the weakest skill of this attempt.
+  const getExamTips = (result: ExamResult, weaknesses: Weakness[]) => {
+    const focus = weaknesses.length
+      ? t('tips.focus', { skill: weaknesses[0].label, advice: weaknesses[0].recommendation })
+      : '';
+    if (!result.passed) {
+      const missing = result.sections
+        .filter(s => !s.passed)
+        .map(s => t('tips.missingPoints', { section: s.label, missing: s.passPoints - s.points, points: s.points, max: s.maxPoints, pass: s.passPoints }))
+        .join('. ');
+      return {
+        title: t('tips.failed.title'),
+        content: t('tips.failed.content', { missing, focus: focus || t('tips.failed.default') }),
+        color: "text-red-800",
+        bg: "bg-red-50",
+        border: "border-red-200",
+        iconColor: "text-red-600"
+      };
+    }
+    if (result.grade === 'veryGood') {
       return {
-        title: "Ready for the Exam! (Sehr Gut)",
-        content: "Your performance is outstanding! You are well-prepared for the real A1 exam. Double-check article genders (der/die/das) for a perfect score. Viel Glück!",
+        title: t('tips.excellent.title'),
+        content: t('tips.excellent.content', { level, focus: focus ? t('tips.excellent.focus', { focus }) : t('tips.excellent.default') }),
         color: "text-green-800",
         bg: "bg-green-50",
         border: "border-green-200",
         iconColor: "text-green-600"
       };
-    } else if (score >= 80) {
+    } else if (result.grade === 'good') {
       return {
-        title: "Very Good Performance (Gut)",
-        content: "You have a solid grasp. To push for 100%, review plural forms and irregular verb conjugations. Practice speaking aloud to improve confidence. Gut gemacht!",
+        title: t('tips.good.title'),
+        content: t('tips.good.content', { focus: focus || t('tips.good.default') }),
         color: "text-blue-800",
         bg: "bg-blue-50",
         border: "border-blue-200",
         iconColor: "text-blue-600"
       };
-    } else if (score >= 60) {
+    } else {
       return {
-        title: "Good Start - Keep Practicing (Befriedigend)",
-        content: "Passing score! Focus on the 'Akkusativ' case and modal verbs. Try listening to German podcasts to get used to native speed. Weiter so!",
+        title: t('tips.pass.title', { grade: t(`results.grade.${result.grade}`) }),
+        content: t('tips.pass.content', { focus: focus || t('tips.pass.default') }),
         color: "text-yellow-800",
         bg: "bg-yellow-50",
         border: "border-yellow-200",
         iconColor: "text-yellow-600"
       };
-    } else {
-      return {
-        title: "Needs More Preparation (Ausreichend)",
-        content: "Don't be discouraged! Focus on building daily vocabulary (numbers, family) and basic sentence structure. Regular practice is key. Du schaffst das!",
-        color: "text-red-800",
-        bg: "bg-red-50",
-        border: "border-red-200",
-        iconColor: "text-red-600"
-      };
     }
   };
 
@@ -125,16 +353,16 @@ const App = () => {
 
   const validatePhone = (phone: string) => {
     const cleanPhone = phone.replace(/\D/g, '');
-    if (cleanPhone.length !== 10) return "Phone number must be exactly 10 digits.";
-    if (cleanPhone.startsWith('0')) return "Phone number cannot start with 0.";
+    if (cleanPhone.length !== 10) return t('details.error.phoneLength');
+    if (cleanPhone.startsWith('0')) return t('details.error.phoneZero');
     return null;
   };
 
-  const handleFormSubmit = async (e: React.FormEvent) => {
+  const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setFormError(null);
     if (!userDetails.name.trim()) {
-      setFormError("Please enter your full name.");
+      setFormError(t('details.error.name'));
       return;
     }
     const phoneError = validatePhone(userDetails.phone);
@@ -142,24 +370,45 @@ const App = () => {
       setFormError(phoneError);
       return;
     }
-    setIsSubmitting(true);
     const average = getAverageScore();
     const submissionData = {
       name: userDetails.name,
       phone: userDetails.phone,
       language: userDetails.language,
+      level,
       readingScore: Math.round(scores.reading),
       listeningScore: Math.round(scores.listening),
       writingScore: Math.round(scores.writing),
       speakingScore: Math.round(scores.speaking),
       averageScore: average,
+      readingSeconds: timeSpent.reading,
+      listeningSeconds: timeSpent.listening,
+      writingSeconds: timeSpent.writing,
+      speakingSeconds: timeSpent.speaking,
       timestamp: new Date().toLocaleString()
     };
-    await submitTestResults(submissionData);
-    setIsSubmitting(false);
+    // Saved locally first and sent in the background, so the results never wait on the network
+    setSubmissionId(enqueueSubmission(submissionData)?.id ?? null);
+    const result = getExamResult();
+    recordAttempt({ examProfileId, level, scores: Object.fromEntries(scoredModules().map(m => [m, scores[m]])), timeSpent, points: result.points, maxPoints: result.maxPoints, passed: result.passed, skills: mergeSkillStats(...Object.values(skillStats)) });
+    clearSession();
     setState(AppState.RESULTS);
   };
 
+  const moduleCards: { key: ModuleKey, icon: typeof BookOpen, label: string, desc: string, detail: string, color: string, bg: string }[] = (
+    [
+      { key: 'reading', icon: BookOpen, color: 'text-blue-500', bg: 'bg-blue-50' },
+      { key: 'listening', icon: Headphones, color: 'text-purple-500', bg: 'bg-purple-50' },
+      { key: 'writing', icon: PenTool, color: 'text-pink-500', bg: 'bg-pink-50' },
+      { key: 'speaking', icon: Mic, color: 'text-orange-500', bg: 'bg-orange-50' }
+    ] as const
+  ).map(card => ({
+    ...card,
+    label: t(`module.${card.key}`),
+    desc: t(`module.${card.key}.desc`),
+    detail: t('common.partsAndMinutes', { parts: profile[card.key].parts.length, minutes: profile[card.key].minutes })
+  }));
+
   const renderContent = () => {
     switch (state) {
       case AppState.HOME:
@@ -174,7 +423,7 @@ const App = () => {
               <div className="space-y-8 animate-fade-in-up z-10 text-center lg:text-left">
                 <div className="flex flex-col items-center lg:items-start gap-4">
                   <div className="flex flex-col items-center lg:items-start space-y-1">
-                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">Powered by</span>
+                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">{t('home.poweredBy')}</span>
                       <div className="flex items-center gap-2 bg-white/60 backdrop-blur-sm p-2 pr-4 rounded-xl border border-white/50 shadow-sm transition-transform hover:scale-105">
                           <div className="w-8 h-8 bg-[#2563eb] rounded-md flex items-center justify-center shadow-sm relative overflow-hidden">
                               <div className="absolute inset-0 bg-gradient-to-br from-blue-500 to-blue-700"></div>
@@ -188,34 +437,116 @@ const App = () => {
                   </div>
                 </div>
                 <h1 className="text-5xl lg:text-7xl font-extrabold text-gray-900 leading-tight tracking-tight">
-                  Test Your <br />
+                  {t('home.titleLead')} <br />
                   <span className="text-transparent bg-clip-text bg-gradient-to-r from-brand-600 to-purple-600">
-                    German A1 Proficiency
+                    {t('home.titleLevel', { level })}
                   </span>
                   <div className="mt-6 flex flex-row items-center justify-center lg:justify-start gap-3">
                      <div className="bg-white p-2 rounded-xl shadow-md animate-bounce">
                          <Sparkles className="w-6 h-6 text-brand-500" />
                      </div>
                      <span className="text-2xl lg:text-3xl font-bold bg-gradient-to-r from-brand-600 via-purple-500 to-brand-600 bg-[length:200%_auto] bg-clip-text text-transparent animate-shimmer">
-                       Quick AI Assessment
+                       {t('home.quickAssessment')}
                      </span>
                   </div>
                 </h1>
                 <p className="text-xl text-gray-600 max-w-xl mx-auto lg:mx-0 leading-relaxed">
-                  Prepare with confidence using our comprehensive mock test. 
-                  Simulate the real exam structure for Reading, Listening, Writing, and Speaking using advanced AI to grade you instantly.
+                  {t('home.intro')}
                 </p>
+                <div className="space-y-2 max-w-xl mx-auto lg:mx-0">
+                  <span className="block text-sm font-semibold text-gray-500 uppercase tracking-wide">{t('home.examFormat')}</span>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {examProfiles.map(p => (
+                      <button
+                        key={p.id}
+                        onClick={() => selectSetup(p.id, level)}
+                        className={`text-left p-3 rounded-xl border transition-all ${p.id === examProfileId ? 'bg-brand-50 border-brand-500 ring-2 ring-brand-200' : 'bg-white/80 border-gray-200 hover:border-brand-300'}`}
+                      >
+                        <span className="block font-bold text-gray-900 text-sm">{p.name}</span>
+                        <span className="block text-xs text-gray-500 mt-1">{t('common.minutes', { minutes: p.reading.minutes + p.listening.minutes + p.writing.minutes + p.speaking.minutes })}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500">{examText(`${profile.id}.description`, profile.description)}</p>
+                  <span className="block text-sm font-semibold text-gray-500 uppercase tracking-wide pt-2">{t('home.level')}</span>
+                  <div className="flex gap-3">
+                    {CEFR_LEVELS.map(l => (
+                      <button
+                        key={l}
+                        onClick={() => selectSetup(examProfileId, l)}
+                        className={`flex-1 p-3 rounded-xl border text-sm font-bold transition-all ${l === level ? 'bg-brand-50 border-brand-500 ring-2 ring-brand-200 text-brand-800' : 'bg-white/80 border-gray-200 text-gray-700 hover:border-brand-300'}`}
+                      >
+                        {t(`level.${l}`)}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-3 pt-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={strictMode}
+                      onChange={(e) => setStrictMode(e.target.checked)}
+                      className="w-4 h-4 accent-brand-600"
+                    />
+                    <span><span className="font-semibold text-gray-800">{t('home.strictTitle')}</span> · {t('home.strictHint')}</span>
+                  </label>
+                  <label className="flex items-center gap-3 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={timed}
+                      onChange={(e) => setTimed(e.target.checked)}
+                      className="w-4 h-4 accent-brand-600"
+                    />
+                    <span><span className="font-semibold text-gray-800">{t('home.timerTitle')}</span> · {t('home.timerHint')}</span>
+                  </label>
+                </div>
+                {resumable && (
+                  <div className="max-w-xl mx-auto lg:mx-0 p-4 rounded-xl border border-brand-200 bg-white/90 shadow-sm text-left space-y-3">
+                    <div className="flex items-start gap-3">
+                      <History className="w-5 h-5 text-brand-600 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <p className="font-bold text-gray-900">{t('home.unfinished')}</p>
+                        <p className="text-sm text-gray-600">
+                          {getExamProfile(resumable.snapshot.examProfileId).name} · {resumable.snapshot.level} · {sessionStageLabel(resumable.snapshot.state)} · {t('home.savedAt', { date: new Date(resumable.snapshot.savedAt).toLocaleString(dateLocale()) })}
+                        </p>
+                        <p className="text-xs text-gray-400 mt-1">{t('home.unfinishedKept', { hours: SESSION_TTL_HOURS })}</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-3">
+                      <button onClick={resumeSession} className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg font-semibold hover:bg-brand-700 transition-colors">
+                        <ArrowRight className="w-4 h-4" />
+                        <span>{t('home.resume')}</span>
+                      </button>
+                      <button onClick={discardSession} className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-600 rounded-lg font-semibold hover:bg-gray-50 transition-colors">
+                        <Trash2 className="w-4 h-4" />
+                        <span>{t('home.discard')}</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
                 <div className="flex flex-col sm:flex-row items-center space-y-4 sm:space-y-0 sm:space-x-4 justify-center lg:justify-start">
                   <button
-                    onClick={() => setState(AppState.TEST_READING)}
+                    onClick={startTest}
                     className="group relative px-8 py-4 bg-brand-600 text-white text-lg font-bold rounded-full shadow-xl hover:bg-brand-700 transition-all hover:scale-105 hover:shadow-2xl overflow-hidden w-full sm:w-auto"
                   >
                     <span className="relative z-10 flex items-center justify-center space-x-2">
-                      <span>Start Mock Test</span>
+                      <span>{t('home.start')}</span>
                       <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
                     </span>
                     <div className="absolute inset-0 bg-gradient-to-r from-brand-500 to-purple-600 opacity-0 group-hover:opacity-100 transition-opacity"></div>
                   </button>
+                  {history.length > 0 && (
+                    <button onClick={showHistory} className="flex items-center justify-center gap-2 px-6 py-4 text-brand-700 font-bold rounded-full border border-brand-200 bg-white/80 hover:bg-white transition-all w-full sm:w-auto">
+                      <TrendingUp className="w-5 h-5" />
+                      <span>{t('common.myProgress')}</span>
+                    </button>
+                  )}
+                  {reviewStatus.cards > 0 && (
+                    <button onClick={() => setState(AppState.REVIEW)} className="flex items-center justify-center gap-2 px-6 py-4 text-brand-700 font-bold rounded-full border border-brand-200 bg-white/80 hover:bg-white transition-all w-full sm:w-auto">
+                      <Layers className="w-5 h-5" />
+                      <span>{t('home.dailyReview')}</span>
+                      {reviewStatus.due > 0 && <span className="px-2 py-0.5 rounded-full bg-brand-600 text-white text-xs">{reviewStatus.due}</span>}
+                    </button>
+                  )}
                 </div>
               </div>
               <div className="relative animate-fade-in-up delay-200 hidden lg:block h-[500px]">
@@ -233,32 +564,35 @@ const App = () => {
             </div>
             <div className="max-w-7xl mx-auto px-4 lg:px-8 pb-12 w-full mt-10">
                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                {[
-                  { icon: BookOpen, label: 'Lesen (Reading)', desc: 'Comprehension of texts & emails', color: 'text-blue-500', bg: 'bg-blue-50' },
-                  { icon: Headphones, label: 'Hören (Listening)', desc: 'Understanding dialogues', color: 'text-purple-500', bg: 'bg-purple-50' },
-                  { icon: PenTool, label: 'Schreiben (Writing)', desc: 'Short messages & tasks', color: 'text-pink-500', bg: 'bg-pink-50' },
-                  { icon: Mic, label: 'Sprechen (Speaking)', desc: 'AI-guided speaking assessment', color: 'text-orange-500', bg: 'bg-orange-50' }
-                ].map((item, i) => (
-                  <div key={i} className="group bg-white/80 backdrop-blur-sm p-6 rounded-2xl border border-gray-100 shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all duration-300 cursor-default">
+                {moduleCards.map((item) => (
+                  <button
+                    key={item.key}
+                    onClick={() => startPractice(item.key)}
+                    className="group text-left bg-white/80 backdrop-blur-sm p-6 rounded-2xl border border-gray-100 shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all duration-300"
+                  >
                     <div className={`w-12 h-12 ${item.bg} rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform`}>
                       <item.icon className={`w-6 h-6 ${item.color}`} />
                     </div>
                     <h3 className="font-bold text-gray-900 text-lg mb-1">{item.label}</h3>
                     <p className="text-gray-500 text-sm">{item.desc}</p>
-                  </div>
+                    <p className="text-gray-400 text-xs mt-2 font-semibold">{item.detail}</p>
+                    <span className="flex items-center gap-1 text-sm font-semibold text-brand-600 mt-4">
+                      {t('home.practiseModule')} <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                    </span>
+                  </button>
                 ))}
               </div>
             </div>
           </div>
         );
       case AppState.TEST_READING:
-        return <ReadingModule preloadedData={preloadedReading} onComplete={(s) => updateScore('reading', s)} />;
+        return <ReadingModule profile={profile} level={level} timeLimit={timeLimit('reading')} completeLabel={practiceModule ? t('common.seeResult') : undefined} saved={savedProgress.reading} onProgress={persistProgress('reading')} language={explanationLanguageFor(userDetails.language)} preloadedData={preloadedReading} onComplete={(score, seconds, raw, skills) => updateScore('reading', score, seconds, raw, skills)} />;
       case AppState.TEST_LISTENING:
-        return <ListeningModule preloadedData={preloadedListening} onComplete={(s) => updateScore('listening', s)} />;
+        return <ListeningModule profile={profile} level={level} strict={strictMode} timeLimit={timeLimit('listening')} completeLabel={practiceModule ? t('common.seeResult') : undefined} saved={savedProgress.listening} onProgress={persistProgress('listening')} language={explanationLanguageFor(userDetails.language)} preloadedData={preloadedListening} onComplete={(score, seconds, raw, skills) => updateScore('listening', score, seconds, raw, skills)} />;
       case AppState.TEST_WRITING:
-        return <WritingModule preloadedTask={preloadedWriting} onComplete={(s) => updateScore('writing', s)} />;
+        return <WritingModule profile={profile} level={level} timeLimit={timeLimit('writing')} completeLabel={practiceModule ? t('common.seeResult') : undefined} saved={savedProgress.writing} onProgress={persistProgress('writing')} preloadedTask={preloadedWriting} onComplete={(score, seconds, raw, skills) => updateScore('writing', score, seconds, raw, skills)} />;
       case AppState.TEST_SPEAKING:
-        return <SpeakingModule preloadedTask={preloadedSpeaking} onComplete={(s) => updateScore('speaking', s)} />;
+        return <SpeakingModule profile={profile} level={level} timeLimit={timeLimit('speaking')} completeLabel={practiceModule ? t('common.seeResult') : undefined} saved={savedProgress.speaking} onProgress={persistProgress('speaking')} preloadedTask={preloadedSpeaking} onComplete={(score, seconds, raw, skills) => updateScore('speaking', score, seconds, raw, skills)} />;
       case AppState.USER_DETAILS_FORM:
         return (
           <div className="min-h-[600px] flex items-center justify-center p-4">
@@ -267,12 +601,12 @@ const App = () => {
                 <div className="w-16 h-16 bg-brand-100 rounded-full flex items-center justify-center mx-auto mb-4 text-brand-600">
                   <User className="w-8 h-8" />
                 </div>
-                <h2 className="text-2xl font-bold text-gray-900">Final Step</h2>
-                <p className="text-gray-600 mt-2">Enter details to generate your score report.</p>
+                <h2 className="text-2xl font-bold text-gray-900">{t('details.title')}</h2>
+                <p className="text-gray-600 mt-2">{t('details.subtitle')}</p>
               </div>
               <form onSubmit={handleFormSubmit} className="space-y-6">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Full Name</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('details.name')}</label>
                   <input
                     type="text"
                     required
@@ -282,12 +616,11 @@ const App = () => {
                        setFormError(null);
                     }}
                     className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none transition-all"
-                    placeholder="Enter your full name"
-                    disabled={isSubmitting}
+                    placeholder={t('details.namePlaceholder')}
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Phone Number</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('details.phone')}</label>
                   <input
                     type="tel"
                     required
@@ -298,21 +631,19 @@ const App = () => {
                       setFormError(null);
                     }}
                     className={`w-full px-4 py-3 rounded-xl border focus:ring-2 focus:ring-brand-500 outline-none transition-all ${formError ? 'border-red-500' : 'border-gray-300'}`}
-                    placeholder="10-digit phone number"
-                    disabled={isSubmitting}
+                    placeholder={t('details.phonePlaceholder')}
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Preferred Language</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('details.language')}</label>
                   <select
                     value={userDetails.language}
                     onChange={(e) => setUserDetails({ ...userDetails, language: e.target.value })}
                     className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none transition-all bg-white"
-                    disabled={isSubmitting}
                   >
-                    <option value="Malayalam">Malayalam</option>
-                    <option value="Tamil">Tamil</option>
-                    <option value="Other">Other</option>
+                    {PREFERRED_LANGUAGES.map(l => (
+                      <option key={l} value={l}>{t(`details.language.${l}`)}</option>
+                    ))}
                   </select>
                 </div>
                 {formError && (
@@ -323,52 +654,131 @@ const App = () => {
                 )}
                 <button
                   type="submit"
-                  disabled={isSubmitting}
-                  className="w-full py-4 bg-brand-600 hover:bg-brand-700 disabled:bg-brand-400 text-white font-bold rounded-xl shadow-lg hover:shadow-xl transition-all transform hover:-translate-y-0.5 mt-4 flex items-center justify-center space-x-2"
+                  className="w-full py-4 bg-brand-600 hover:bg-brand-700 text-white font-bold rounded-xl shadow-lg hover:shadow-xl transition-all transform hover:-translate-y-0.5 mt-4 flex items-center justify-center space-x-2"
                 >
-                  {isSubmitting ? <Loader2 className="animate-spin w-5 h-5" /> : <span>View Results</span>}
+                  <span>{t('details.viewResults')}</span>
                 </button>
               </form>
             </div>
           </div>
         );
+      case AppState.PRACTICE_RESULT: {
+        const card = moduleCards.find(c => c.key === practiceModule);
+        if (!card) return null;
+        const score = Math.round(scores[card.key]);
+        const unscored = isUnscored(rawScores[card.key]);
+        const passed = score >= modulePassPercent(profile.scoring, card.key);
+        return (
+          <div className="flex flex-col items-center max-w-lg mx-auto space-y-8 animate-fade-in py-10 px-4">
+            <div className="w-full bg-white p-8 rounded-2xl shadow-xl border border-gray-100 text-center space-y-6">
+              <div className={`w-16 h-16 ${card.bg} rounded-2xl flex items-center justify-center mx-auto`}>
+                <card.icon className={`w-8 h-8 ${card.color}`} />
+              </div>
+              <div>
+                <span className="block text-gray-500 text-sm font-semibold uppercase">{t('practice.header', { profile: profile.name, level })}</span>
+                <h2 className="text-2xl font-bold text-gray-900 mt-1">{card.label}</h2>
+              </div>
+              <div className={`flex items-center justify-center w-28 h-28 mx-auto rounded-full border-8 ${unscored ? 'border-gray-300 text-gray-400' : passed ? 'border-green-500 text-green-600' : 'border-red-500 text-red-600'}`}>
+                <span className="text-3xl font-black">{unscored ? '–' : `${score}%`}</span>
+              </div>
+              {unscored && <p className="text-sm text-gray-500">{t('results.unscoredHint')}</p>}
+              <p className="flex items-center justify-center gap-1 text-sm text-gray-500">
+                <Clock className="w-4 h-4" />{formatTime(timeSpent[card.key])} / {profile[card.key].minutes}:00
+              </p>
+              <p className="text-xs text-gray-400">{t('practice.notSubmitted')}</p>
+            </div>
+            <WeaknessReport title={t('results.nextTitle')} weaknesses={rankWeaknesses(skillStats[card.key] || {})} />
+            <div className="flex flex-col sm:flex-row gap-4">
+              <button onClick={practiceAgain} className="flex items-center justify-center space-x-2 px-8 py-3 bg-brand-600 text-white rounded-full font-bold hover:bg-brand-700 transition-all">
+                <RotateCcw className="w-5 h-5" />
+                <span>{t('practice.again')}</span>
+              </button>
+              <button onClick={showHistory} className="flex items-center justify-center gap-2 px-8 py-3 border border-gray-300 text-gray-700 rounded-full font-bold hover:bg-gray-50 transition-all">
+                <TrendingUp className="w-5 h-5" />
+                <span>{t('common.myProgress')}</span>
+              </button>
+              <button onClick={() => setState(AppState.HOME)} className="px-8 py-3 border border-gray-300 text-gray-700 rounded-full font-bold hover:bg-gray-50 transition-all">
+                {t('common.backHome')}
+              </button>
+            </div>
+          </div>
+        );
+      }
       case AppState.RESULTS:
-        const average = getAverageScore();
-        const tips = getExamTips(average);
+        const examResult = getExamResult();
+        const weaknesses = rankWeaknesses(mergeSkillStats(...Object.values(skillStats)));
+        const tips = getExamTips(examResult, weaknesses);
+        const previous = currentAttempt && previousMockAttempt(history, currentAttempt);
+        const submission = outbox.find(e => e.id === submissionId);
+        const delivery = submission && submissionStatus(submission);
         return (
           <div className="flex flex-col items-center max-w-2xl mx-auto space-y-8 animate-fade-in py-10 px-4">
             <div className="text-center space-y-4">
               <Award className="w-20 h-20 text-yellow-500 mx-auto drop-shadow-lg" />
-              <h2 className="text-4xl font-extrabold text-gray-900">Herzlichen Glückwunsch, <span className="text-brand-600">{userDetails.name}</span>!</h2>
-              <p className="text-lg text-gray-600">You've completed the A1 Mock Test.</p>
+              <h2 className="text-4xl font-extrabold text-gray-900">{t(examResult.passed ? 'results.headline.passed' : 'results.headline.failed')}, <span className="text-brand-600">{userDetails.name}</span>!</h2>
+              <p className="text-lg text-gray-600">{t('results.completed', { profile: profile.name, level })}</p>
             </div>
+            {delivery && (
+              <div className={`flex items-center gap-2 text-sm ${delivery === 'saved' ? 'text-green-700' : delivery === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {delivery === 'saved' ? <CheckCircle className="w-4 h-4" /> : delivery === 'failed' ? <CloudOff className="w-4 h-4" /> : <CloudUpload className="w-4 h-4 animate-pulse" />}
+                <span>{t(`results.submission.${delivery}`)}</span>
+                {delivery === 'failed' && (
+                  <button onClick={() => retrySubmission(submission.id)} className="font-semibold underline hover:text-red-800">{t('common.tryAgain')}</button>
+                )}
+              </div>
+            )}
             <div className="w-full bg-white p-8 rounded-2xl shadow-xl border border-gray-100">
                <div className="flex justify-between items-center mb-8 pb-8 border-b border-gray-100">
                   <div className="text-left">
-                    <span className="block text-gray-500 text-sm font-semibold uppercase">Overall Score</span>
-                    <span className="text-3xl font-bold text-gray-800">Gesamtnote</span>
+                    <span className="block text-gray-500 text-sm font-semibold uppercase">{t('results.overall')}</span>
+                    <span className="text-3xl font-bold text-gray-800">{t(`results.grade.${examResult.grade}`)}</span>
                   </div>
-                  <div className={`flex items-center justify-center w-28 h-28 rounded-full border-8 ${average >= 60 ? 'border-green-500 text-green-600' : 'border-red-500 text-red-600'}`}>
-                    <span className="text-3xl font-black">{average}%</span>
+                  <div className={`flex flex-col items-center justify-center w-28 h-28 rounded-full border-8 ${examResult.passed ? 'border-green-500 text-green-600' : 'border-red-500 text-red-600'}`}>
+                    <span className="text-3xl font-black">{examResult.points}</span>
+                    <span className="text-xs font-bold">/ {examResult.maxPoints}</span>
                   </div>
                </div>
-               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                 {[
-                   { label: 'Reading', score: scores.reading, icon: BookOpen, color: 'text-blue-500' },
-                   { label: 'Listening', score: scores.listening, icon: Headphones, color: 'text-purple-500' },
-                   { label: 'Writing', score: scores.writing, icon: PenTool, color: 'text-pink-500' },
-                   { label: 'Speaking', score: scores.speaking, icon: Mic, color: 'text-orange-500' },
-                 ].map((mod, i) => (
-                   <div key={i} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
-                     <div className="flex items-center space-x-3">
-                       <mod.icon className={`w-5 h-5 ${mod.color}`} />
-                       <span className="font-semibold text-gray-700">{mod.label}</span>
+               <div className="space-y-6">
+                 {examResult.sections.map(section => (
+                   <div key={section.id} className="space-y-3">
+                     <div className="flex items-baseline justify-between">
+                       <h3 className="font-bold text-gray-900">{section.label}</h3>
+                       <span className={`text-sm font-bold ${section.passed ? 'text-green-600' : 'text-red-500'}`}>
+                         {section.points}/{section.maxPoints} · {t(section.passed ? 'results.sectionPassed' : 'results.sectionFailed')} <span className="font-normal text-gray-400">{t('results.passFrom', { points: section.passPoints })}</span>
+                       </span>
+                     </div>
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                       {section.modules.map(({ module }) => {
+                         const card = moduleCards.find(c => c.key === module)!;
+                         const points = modulePoints(examResult, module)!;
+                         return (
+                           <div key={module} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                             <div className="flex items-center space-x-3">
+                               <card.icon className={`w-5 h-5 ${card.color}`} />
+                               <div>
+                                 <span className="block font-semibold text-gray-700">{card.label}</span>
+                                 <span className="flex items-center gap-1 text-xs text-gray-400">
+                                   <Clock className="w-3 h-3" />{formatTime(timeSpent[module])} / {profile[module].minutes}:00 · {points.unscored ? t('results.unscored') : `${Math.round(scores[module])}%`}
+                                 </span>
+                               </div>
+                             </div>
+                             <div className="text-right">
+                               <span className="block font-bold text-gray-800">{points.unscored ? '–' : `${points.points}/${points.maxPoints}`}</span>
+                               {!points.unscored && previous?.scores[module] !== undefined && <ScoreDelta delta={Math.round(scores[module]) - Math.round(previous.scores[module]!)} />}
+                             </div>
+                           </div>
+                         );
+                       })}
                      </div>
-                     <span className={`font-bold ${mod.score >= 60 ? 'text-green-600' : 'text-red-500'}`}>{Math.round(mod.score)}%</span>
                    </div>
                  ))}
                </div>
             </div>
+            {previous && (
+              <p className="w-full text-sm text-gray-500 text-center">
+                {t('results.comparedWith', { date: new Date(previous.completedAt).toLocaleDateString(dateLocale()), profile: getExamProfile(previous.examProfileId).name, level: previous.level })}
+              </p>
+            )}
             <div className={`w-full p-6 rounded-2xl border ${tips.border} ${tips.bg}`}>
               <div className="flex items-start space-x-4">
                 <Lightbulb className={`w-6 h-6 mt-1 ${tips.iconColor}`} />
@@ -378,19 +788,49 @@ const App = () => {
                 </div>
               </div>
             </div>
+            <WeaknessReport title={t('results.nextTitle')} subtitle={t('results.nextSubtitle')} weaknesses={weaknesses} />
+            {history.filter(a => a.skills).length > 1 && (
+              <WeaknessReport
+                title={t('results.acrossTitle')}
+                subtitle={t('results.acrossSubtitle', { count: REPORT_ATTEMPTS })}
+                weaknesses={rankWeaknesses(historySkillStats(history))}
+              />
+            )}
             <button
               onClick={() => {
                 setScores({ reading: 0, listening: 0, writing: 0, speaking: 0 });
+                setRawScores({});
+                setSkillStats({});
+                setTimeSpent({ reading: 0, listening: 0, writing: 0, speaking: 0 });
+                setSavedProgress({});
                 setState(AppState.HOME);
                 setPreloadedReading(null); setPreloadedListening(null); setPreloadedWriting(null); setPreloadedSpeaking(null);
               }}
               className="mt-8 flex items-center space-x-2 px-10 py-4 bg-brand-600 text-white rounded-full font-bold hover:bg-brand-700 transition-all"
             >
               <RotateCcw className="w-5 h-5" />
-              <span>Take Test Again</span>
+              <span>{t('results.again')}</span>
+            </button>
+            <button onClick={showHistory} className="flex items-center gap-2 text-brand-700 font-semibold hover:underline">
+              <TrendingUp className="w-5 h-5" />
+              <span>{t('common.myProgress')}</span>
             </button>
           </div>
         );
+      case AppState.HISTORY:
+        return (
+          <HistoryScreen
+            history={history}
+            onBack={() => setState(historyReturnState)}
+            onClear={() => {
+              clearHistory();
+              setHistory([]);
+              setCurrentAttempt(null);
+            }}
+          />
+        );
+      case AppState.REVIEW:
+        return <ReviewSession onBack={() => setState(AppState.HOME)} />;
       default:
         return null;
     }
@@ -402,8 +842,21 @@ const App = () => {
         <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
           <div className="flex items-center space-x-2 cursor-pointer" onClick={() => setState(AppState.HOME)}>
              <div className="w-8 h-8 bg-brand-600 rounded-lg flex items-center justify-center text-white font-bold">G</div>
-             <span className="font-bold text-xl text-gray-900">German A1 Mock Test</span>
+             <span className="font-bold text-xl text-gray-900">{t('header.title', { level })}</span>
           </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <Globe className="w-4 h-4" />
+            <span className="sr-only">{t('header.language')}</span>
+            <select
+              value={uiLanguage}
+              onChange={(e) => changeUiLanguage(e.target.value as UiLanguage)}
+              className="px-2 py-1 rounded-lg border border-gray-200 bg-white outline-none focus:ring-2 focus:ring-brand-500"
+            >
+              {UI_LANGUAGES.map(l => (
+                <option key={l.id} value={l.id}>{l.label}</option>
+              ))}
+            </select>
+          </label>
         </div>
       </header>
       <main className="w-full">
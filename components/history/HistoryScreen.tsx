@@ -0,0 +1,120 @@
+import React from 'react';
+import { ModuleKey } from '../../types.ts';
+import { AttemptRecord, skillTrends, historySkillStats, REPORT_ATTEMPTS } from '../../services/attemptHistory.ts';
+import { rankWeaknesses } from '../../services/skillTags.ts';
+import { getExamProfile } from '../../services/examProfiles.ts';
+import { t, dateLocale } from '../../services/i18n.ts';
+import TrendChart from './TrendChart.tsx';
+import WeaknessReport from './WeaknessReport.tsx';
+import { BookOpen, Headphones, PenTool, Mic, ArrowLeft, Trash2, TrendingUp } from 'lucide-react';
+
+interface Props {
+  history: AttemptRecord[];
+  onBack: () => void;
+  onClear: () => void;
+}
+
+const SKILLS: Record<ModuleKey, { icon: typeof BookOpen, text: string, stroke: string }> = {
+  reading: { icon: BookOpen, text: 'text-blue-500', stroke: 'stroke-blue-500' },
+  listening: { icon: Headphones, text: 'text-purple-500', stroke: 'stroke-purple-500' },
+  writing: { icon: PenTool, text: 'text-pink-500', stroke: 'stroke-pink-500' },
+  speaking: { icon: Mic, text: 'text-orange-500', stroke: 'stroke-orange-500' }
+};
+
+const scoreCell = (score: number | undefined) =>
+  score === undefined ? <span className="text-gray-300">–</span> : <span className={score >= 60 ? 'text-green-600' : 'text-red-500'}>{Math.round(score)}%</span>;
+
+// Progress across all stored attempts: a trend per skill, the weak spots of recent attempts, then every attempt, newest first.
+const HistoryScreen: React.FC<Props> = ({ history, onBack, onClear }) => (
+  <div className="max-w-4xl mx-auto space-y-8 animate-fade-in py-10 px-4">
+    <div className="flex items-center justify-between">
+      <button onClick={onBack} className="flex items-center gap-2 text-gray-600 hover:text-gray-900 font-semibold">
+        <ArrowLeft className="w-5 h-5" />
+        <span>{t('common.back')}</span>
+      </button>
+      <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+        <TrendingUp className="w-6 h-6 text-brand-600" />
+        <span>{t('history.title')}</span>
+      </h2>
+      <button
+        onClick={() => window.confirm(t('history.confirmClear')) && onClear()}
+        disabled={history.length === 0}
+        className="flex items-center gap-2 text-sm text-gray-500 hover:text-red-600 disabled:opacity-40"
+      >
+        <Trash2 className="w-4 h-4" />
+        <span>{t('history.clear')}</span>
+      </button>
+    </div>
+
+    {history.length === 0 ? (
+      <p className="text-center text-gray-500 py-20">{t('history.empty')}</p>
+    ) : (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {skillTrends(history).map(trend => {
+            const skill = SKILLS[trend.module];
+            return (
+              <div key={trend.module} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2 font-bold text-gray-800">
+                    <skill.icon className={`w-5 h-5 ${skill.text}`} />{t(`module.${trend.module}`)}
+                  </span>
+                  <span className="text-xs text-gray-400">{t('history.attempts', { count: trend.series.length })}</span>
+                </div>
+                {trend.series.length ? (
+                  <>
+                    <TrendChart series={trend.series} strokeClass={skill.stroke} />
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-500">{t('history.latest')} <span className="font-bold text-gray-800">{trend.latest}%</span></span>
+                      <span className="text-gray-500">{t('history.best')} <span className="font-bold text-gray-800">{trend.best}%</span></span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-400 py-6 text-center">{t('history.notTaken')}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <WeaknessReport
+          title={t('history.weakTitle')}
+          subtitle={t('history.weakSubtitle', { count: REPORT_ATTEMPTS })}
+          weaknesses={rankWeaknesses(historySkillStats(history), 5)}
+        />
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="p-3 font-semibold">{t('history.date')}</th>
+                <th className="p-3 font-semibold">{t('history.format')}</th>
+                {(Object.keys(SKILLS) as ModuleKey[]).map(module => <th key={module} className="p-3 font-semibold">{t(`module.${module}`)}</th>)}
+                <th className="p-3 font-semibold">{t('history.points')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...history].reverse().map(attempt => (
+                <tr key={attempt.id} className="border-b border-gray-50 last:border-0">
+                  <td className="p-3 text-gray-600 whitespace-nowrap">{new Date(attempt.completedAt).toLocaleString(dateLocale())}</td>
+                  <td className="p-3 text-gray-800">
+                    {getExamProfile(attempt.examProfileId).name} · {attempt.level}
+                    {attempt.practiceModule && <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 text-xs">{t('common.practice')}</span>}
+                  </td>
+                  {(Object.keys(SKILLS) as ModuleKey[]).map(module => <td key={module} className="p-3 font-semibold">{scoreCell(attempt.scores[module])}</td>)}
+                  <td className="p-3 font-semibold whitespace-nowrap">
+                    {attempt.points === undefined ? <span className="text-gray-300">–</span> : (
+                      <span className={attempt.passed ? 'text-green-600' : 'text-red-500'}>{attempt.points}/{attempt.maxPoints}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </>
+    )}
+  </div>
+);
+
+export default HistoryScreen;
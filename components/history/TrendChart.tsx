@@ -0,0 +1,33 @@
+import React from 'react';
+import { dateLocale } from '../../services/i18n.ts';
+
+interface Props {
+  series: { completedAt: number, score: number }[]; // Oldest first, scores in percent
+  strokeClass: string; // Tailwind stroke colour of the line
+  passMark?: number; // Dashed reference line, in percent
+}
+
+const WIDTH = 240;
+const HEIGHT = 80;
+const PADDING = 6;
+
+// Small line chart of one skill across attempts; a single attempt is drawn as a dot.
+const TrendChart: React.FC<Props> = ({ series, strokeClass, passMark = 60 }) => {
+  const x = (i: number) => (series.length === 1 ? WIDTH / 2 : PADDING + (i / (series.length - 1)) * (WIDTH - 2 * PADDING));
+  const y = (score: number) => HEIGHT - PADDING - (score / 100) * (HEIGHT - 2 * PADDING);
+  const points = series.map((p, i) => `${x(i)},${y(p.score)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20" preserveAspectRatio="none">
+      <line x1={0} x2={WIDTH} y1={y(passMark)} y2={y(passMark)} className="stroke-gray-300" strokeDasharray="4 4" strokeWidth={1} />
+      {series.length > 1 && <polyline points={points} fill="none" className={strokeClass} strokeWidth={2} strokeLinejoin="round" />}
+      {series.map((p, i) => (
+        <circle key={i} cx={x(i)} cy={y(p.score)} r={3} className={`${strokeClass} fill-white`} strokeWidth={2}>
+          <title>{new Date(p.completedAt).toLocaleDateString(dateLocale())}: {p.score}%</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Weakness } from '../../services/skillTags.ts';
+import { t } from '../../services/i18n.ts';
+import { Target, CheckCircle } from 'lucide-react';
+
+interface Props {
+  title: string;
+  subtitle?: string;
+  weaknesses: Weakness[]; // Ranked, weakest first
+}
+
+const describeCounts = (w: Weakness) =>
+  [
+    w.asked > 0 ? t('weakness.missed', { missed: w.missed, asked: w.asked }) : '',
+    w.errors > 0 ? t('weakness.errors', { errors: w.errors }) : ''
+  ].filter(Boolean).join(' · ');
+
+// Ranked weak skills with what to practise for each.
+const WeaknessReport: React.FC<Props> = ({ title, subtitle, weaknesses }) => (
+  <div className="w-full bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+    <div>
+      <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+        <Target className="w-5 h-5 text-brand-600" />
+        <span>{title}</span>
+      </h3>
+      {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+    </div>
+    {weaknesses.length === 0 ? (
+      <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircle className="w-4 h-4" />{t('weakness.none')}</p>
+    ) : (
+      <ol className="space-y-4">
+        {weaknesses.map((w, i) => (
+          <li key={w.skill} className="flex gap-4">
+            <span className="w-7 h-7 rounded-full bg-brand-100 text-brand-700 font-bold text-sm flex items-center justify-center flex-shrink-0">{i + 1}</span>
+            <div className="space-y-1">
+              <p className="font-semibold text-gray-800">
+                {w.label} <span className="font-normal text-xs text-gray-400 ml-1">{describeCounts(w)}</span>
+              </p>
+              <p className="text-sm text-gray-600">{w.recommendation}</p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export default WeaknessReport;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TestPart } from '../../types.ts';
+import { estimateSentenceTimings, sentenceAt } from '../../services/transcriptTiming.ts';
+import { formatTime } from '../../services/examTimer.ts';
+import Transcript from './Transcript.tsx';
+import { t } from '../../services/i18n.ts';
+import { Play, Pause, Lock, SkipForward, Timer } from 'lucide-react';
+
+interface Props {
+  audioContext: AudioContext;
+  buffer: AudioBuffer;
+  part: TestPart;
+  index: number;
+  plays: number; // Plays the exam allows for this part
+  playsUsed: number; // Kept by the module so it is saved with the session
+  onPlay: () => void; // A new play has started (resuming or seeking doesn't count)
+  preReadingSeconds: number; // Countdown before the first play
+  strict: boolean; // Enforce the play limit and the countdown
+  isActive: boolean; // False once another part starts playing; an active player then pauses
+  onStart: () => void;
+  showTranscript: boolean; // After submission: synced transcript below the controls
+}
+
+type PlayerStatus = 'idle' | 'countdown' | 'playing' | 'paused';
+
+// Plays one listening part the way the exam does: a pre-reading countdown, a fixed number of plays,
+// and pause/resume that continues from the same position instead of starting over.
+const PartPlayer: React.FC<Props> = ({ audioContext, buffer, part, index, plays, playsUsed, onPlay, preReadingSeconds, strict, isActive, onStart, showTranscript }) => {
+  const [status, setStatus] = useState<PlayerStatus>('idle');
+  const [countdown, setCountdown] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const startedAtRef = useRef(0); // audioContext time at which position 0 would have played
+  const offsetRef = useRef(0); // Position to resume from while paused
+
+  const playsLeft = Math.max(0, plays - playsUsed);
+  const locked = strict && playsLeft === 0 && status === 'idle';
+
+  const stopSource = () => {
+    const source = sourceRef.current;
+    if (!source) return;
+    sourceRef.current = null;
+    source.onended = null;
+    source.stop();
+  };
+
+  const beginPlayback = async (offset: number, countsAsPlay = offset === 0) => {
+    onStart();
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(audioContext.destination);
+    source.onended = () => {
+      sourceRef.current = null;
+      offsetRef.current = 0;
+      setElapsed(0);
+      setStatus('idle');
+    };
+    sourceRef.current = source;
+    startedAtRef.current = audioContext.currentTime - offset;
+    source.start(0, offset);
+    if (countsAsPlay) onPlay();
+    setStatus('playing');
+  };
+
+  const pause = () => {
+    offsetRef.current = audioContext.currentTime - startedAtRef.current;
+    stopSource();
+    setElapsed(offsetRef.current);
+    setStatus('paused');
+  };
+
+  // Jumping to a sentence in the transcript never counts as a new play
+  const seek = (time: number) => {
+    stopSource();
+    setElapsed(time);
+    beginPlayback(time, false);
+  };
+
+  const start = () => {
+    if (locked) return;
+    if (playsUsed === 0 && preReadingSeconds > 0) {
+      setCountdown(preReadingSeconds);
+      setStatus('countdown');
+      return;
+    }
+    beginPlayback(0);
+  };
+
+  // Pre-reading countdown; playback starts on its own when it reaches zero
+  useEffect(() => {
+    if (status !== 'countdown') return;
+    if (countdown <= 0) {
+      beginPlayback(0);
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(c => c - 1), 1000);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, countdown]);
+
+  useEffect(() => {
+    if (status !== 'playing') return;
+    const timer = setInterval(() => setElapsed(audioContext.currentTime - startedAtRef.current), 200);
+    return () => clearInterval(timer);
+  }, [status, audioContext]);
+
+  // Only one part plays at a time
+  useEffect(() => {
+    if (!isActive && status === 'playing') pause();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive]);
+
+  useEffect(() => stopSource, []);
+
+  const progress = Math.min(100, (elapsed / buffer.duration) * 100);
+  const sentences = useMemo(() => estimateSentenceTimings(part, index, buffer.duration), [part, index, buffer]);
+  const activeSentence = status === 'playing' || status === 'paused' ? sentenceAt(sentences, elapsed) : -1;
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 space-y-3">
+      <div className="flex items-center gap-4">
+        <button
+          onClick={status === 'playing' ? pause : status === 'paused' ? () => beginPlayback(offsetRef.current, false) : start}
+          disabled={locked || status === 'countdown'}
+          className={`flex items-center justify-center w-14 h-14 rounded-full shadow-md transition-all flex-shrink-0 disabled:opacity-50 ${status === 'playing' ? 'bg-white border-4 border-brand-200 text-brand-600' : 'bg-brand-600 text-white'}`}
+        >
+          {locked ? <Lock className="w-6 h-6" /> : status === 'playing' ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6 ml-1" />}
+        </button>
+        <div className="flex-1 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-bold text-gray-800">{t('common.part', { number: index + 1 })}</span>
+            <span className={playsLeft === 0 ? 'text-gray-400' : 'text-gray-500'}>
+              {t('player.plays', { used: playsUsed, plays })}{!strict && playsUsed > plays ? ` ${t('player.extra')}` : ''}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-500 transition-all duration-200" style={{ width: `${progress}%` }}></div>
+          </div>
+          <div className="flex justify-between text-xs text-gray-400 font-mono">
+            <span>{formatTime(elapsed)}</span>
+            <span>{formatTime(buffer.duration)}</span>
+          </div>
+        </div>
+      </div>
+      {status === 'countdown' && (
+        <div className="flex items-center justify-between bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-4 py-2 text-sm">
+          <span className="flex items-center gap-2"><Timer className="w-4 h-4" />{t('player.countdown', { seconds: countdown })}</span>
+          {!strict && (
+            <button onClick={() => setCountdown(0)} className="flex items-center gap-1 font-semibold hover:underline">
+              <SkipForward className="w-4 h-4" />{t('player.skip')}
+            </button>
+          )}
+        </div>
+      )}
+      {locked && <p className="text-xs text-gray-400">{plays === 1 ? t('player.playedOnce') : t('player.playedTimes', { plays })}</p>}
+      {showTranscript && <Transcript sentences={sentences} activeIndex={activeSentence} onSeek={seek} />}
+    </div>
+  );
+};
+
+export default PartPlayer;
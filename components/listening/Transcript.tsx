@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { TimedSentence } from '../../services/transcriptTiming.ts';
+import { t } from '../../services/i18n.ts';
+import { FileText } from 'lucide-react';
+
+interface Props {
+  sentences: TimedSentence[];
+  activeIndex: number; // Sentence being played, -1 for none
+  onSeek: (time: number) => void;
+}
+
+// Same order as the voices, so a colour stays with one speaker within a part
+const SPEAKER_COLORS = ['text-brand-700', 'text-amber-700', 'text-emerald-700', 'text-purple-700'];
+
+// Groups sentences back into speaker turns, keeping each sentence's index for highlighting.
+const toTurns = (sentences: TimedSentence[]) =>
+  sentences.reduce<{ speaker?: string, items: { sentence: TimedSentence, index: number }[] }[]>((turns, sentence, index) => {
+    if (sentence.startsLine || turns.length === 0) turns.push({ speaker: sentence.speaker, items: [] });
+    turns[turns.length - 1].items.push({ sentence, index });
+    return turns;
+  }, []);
+
+const Transcript: React.FC<Props> = ({ sentences, activeIndex, onSeek }) => {
+  const activeRef = useRef<HTMLSpanElement | null>(null);
+  const speakers = [...new Set(sentences.map(s => s.speaker).filter(Boolean))];
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  return (
+    <div className="border-t border-gray-100 pt-4 space-y-2">
+      <p className="text-xs font-bold uppercase text-gray-500 flex items-center gap-2">
+        <FileText className="w-4 h-4 text-brand-600" />
+        <span>{t('transcript.title')}</span>
+      </p>
+      <div className="max-h-64 overflow-y-auto space-y-1 pr-2">
+        {toTurns(sentences).map((turn, turnIndex) => (
+          <p key={turnIndex} className="text-gray-700 leading-relaxed">
+            {turn.speaker && (
+              <span className={`font-semibold mr-2 ${SPEAKER_COLORS[speakers.indexOf(turn.speaker) % SPEAKER_COLORS.length]}`}>{turn.speaker}:</span>
+            )}
+            {turn.items.map(({ sentence, index }) => (
+              <span
+                key={index}
+                ref={index === activeIndex ? activeRef : undefined}
+                onClick={() => onSeek(sentence.start)}
+                className={`cursor-pointer rounded px-0.5 transition-colors ${index === activeIndex ? 'bg-brand-100 text-brand-900' : 'hover:bg-gray-100'}`}
+              >
+                {sentence.text}{' '}
+              </span>
+            ))}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Transcript;
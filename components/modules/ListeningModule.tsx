@@ -1,58 +1,76 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateListeningTestScript, generateAudioFromScript } from '../../services/geminiService.ts';
-import { decode, decodeAudioData, concatenateRawAudio } from '../../services/audioUtils.ts';
-import { ListeningTestContent, TestPart } from '../../types.ts';
-import { Play, CheckCircle, XCircle, Pause, Loader2, AlertCircle, RotateCcw } from 'lucide-react';
+import { preloadListeningTest, explainAnswer, PreloadedListening } from '../../services/contentProvider.ts';
+import { decode, decodeAudioData } from '../../services/audioUtils.ts';
+import { ListeningTestContent, TestPart, Question, ExamProfile, CefrLevel, Answer, RawScore, ExplanationLanguage } from '../../types.ts';
+import { scoreParts, countQuestions, countAnswered } from '../../services/questionScoring.ts';
+import { questionSkillStats, SkillStats } from '../../services/skillTags.ts';
+import { collectMissedQuestions } from '../../services/reviewDeck.ts';
+import { withExplanation } from '../../services/answerExplanations.ts';
+import QuestionCard from '../questions/QuestionCard.tsx';
+import ExplainAnswer from '../questions/ExplainAnswer.tsx';
+import PartPlayer from '../listening/PartPlayer.tsx';
+import ModuleTimer from '../timer/ModuleTimer.tsx';
+import { useModuleTimer } from '../timer/useModuleTimer.ts';
+import { ListeningProgress, PROGRESS_SAVE_SECONDS } from '../../services/sessionStore.ts';
+import { t, examText } from '../../services/i18n.ts';
+import { AlertCircle, RotateCcw, Lock } from 'lucide-react';
 
 interface Props {
-  onComplete: (score: number) => void;
-  preloadedData?: { content: ListeningTestContent, audioParts: string[] } | null;
+  onComplete: (score: number, secondsSpent: number, raw: RawScore, skills: SkillStats) => void;
+  preloadedData?: PreloadedListening | null;
+  profile: ExamProfile;
+  level: CefrLevel;
+  strict: boolean; // Enforce the exam's play limits and pre-reading time
+  timeLimit: number; // Seconds; 0 for untimed practice
+  completeLabel?: string; // Text of the final button; practice mode goes straight to the result
+  saved?: ListeningProgress; // Progress restored from an interrupted session
+  onProgress: (content: PreloadedListening, progress: ListeningProgress) => void;
+  language: ExplanationLanguage; // For answer explanations after submission
 }
 
-const ListeningModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
+const DEFAULT_PLAYS = 2;
+
+const ListeningModule: React.FC<Props> = ({ onComplete, preloadedData, profile, level, strict, timeLimit, saved, onProgress, language, completeLabel = t('common.nextModule') }) => {
   const [content, setContent] = useState<ListeningTestContent | null>(null);
-  const [answers, setAnswers] = useState<Record<string, number>>({});
-  const [submitted, setSubmitted] = useState(false);
+  const [loaded, setLoaded] = useState<PreloadedListening | null>(null);
+  const [answers, setAnswers] = useState<Record<string, Answer>>(saved?.answers || {});
+  const [submitted, setSubmitted] = useState(saved?.submitted || false);
+  const [playsUsed, setPlaysUsed] = useState<number[]>(saved?.playsUsed || []);
   const [loadingStep, setLoadingStep] = useState<string>('initializing'); 
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [activePart, setActivePart] = useState<number | null>(null);
+  const [secondsSpent, setSecondsSpent] = useState(saved?.secondsSpent || 0);
   
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
-  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const audioBuffersRef = useRef<AudioBuffer[]>([]);
 
   const initTest = async () => {
     try {
       setErrorMsg(null);
-      let testContent: ListeningTestContent;
-      let audioBase64Results: string[] = [];
+      let loaded: PreloadedListening;
 
       if (preloadedData) {
-         setLoadingStep('processing');
-         testContent = preloadedData.content;
-         audioBase64Results = preloadedData.audioParts;
+         loaded = preloadedData;
       } else {
-         setLoadingStep('scripting');
-         testContent = await generateListeningTestScript();
-         setLoadingStep('synthesizing');
-         audioBase64Results = await Promise.all(testContent.parts.map((part, index) => generateAudioFromScript(`Teil ${index + 1}. ${part.type}. ${part.content}`)));
+         setLoadingStep('generating');
+         loaded = await preloadListeningTest(profile, level);
       }
+      const testContent = loaded.content;
       
       setLoadingStep('processing');
-      const audioSegments = audioBase64Results.map(base64 => decode(base64));
-      const combinedRawBytes = concatenateRawAudio(audioSegments, 2);
-      setContent(testContent);
-      
       if (!audioContextRef.current) {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       }
       
-      const buffer = await decodeAudioData(combinedRawBytes, audioContextRef.current);
-      audioBufferRef.current = buffer;
+      // One buffer per part so each part keeps its own play count and position
+      const ctx = audioContextRef.current;
+      audioBuffersRef.current = await Promise.all(loaded.audioParts.map(base64 => decodeAudioData(decode(base64), ctx)));
+      setLoaded(loaded);
+      setContent(testContent);
       setLoadingStep('ready');
     } catch (e: any) {
       console.error(e);
-      setErrorMsg(e.message || "Failed to load listening test.");
+      setErrorMsg(t('listening.loadFailed'));
       setLoadingStep('error');
     }
   };
@@ -60,48 +78,63 @@ const ListeningModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
   useEffect(() => {
     initTest();
     return () => {
-      sourceRef.current?.stop();
       audioContextRef.current?.close();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const toggleAudio = async () => {
-    if (!audioContextRef.current || !audioBufferRef.current) return;
-    if (isPlaying) {
-      sourceRef.current?.stop();
-      setIsPlaying(false);
-      return;
-    }
-    if (audioContextRef.current.state === 'suspended') await audioContextRef.current.resume();
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBufferRef.current;
-    source.connect(audioContextRef.current.destination);
-    source.onended = () => setIsPlaying(false);
-    sourceRef.current = source;
-    setIsPlaying(true);
-    source.start();
+  // Submitting also pauses whichever recording is playing
+  const handleSubmit = () => {
+    setSecondsSpent(timer.stop());
+    setActivePart(null);
+    setSubmitted(true);
   };
 
-  const handleSelect = (questionId: string, optionIndex: number) => {
+  const timer = useModuleTimer(timeLimit, loadingStep === 'ready' && !submitted, handleSubmit, saved?.elapsed);
+
+  useEffect(() => {
+    if (loaded) onProgress(loaded, { answers, submitted, secondsSpent, elapsed: Math.round(timer.elapsed), playsUsed });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded, answers, submitted, secondsSpent, playsUsed, Math.floor(timer.elapsed / PROGRESS_SAVE_SECONDS)]);
+
+  const countPlay = (partIndex: number) => setPlaysUsed(prev => {
+    const next = [...prev];
+    next[partIndex] = (next[partIndex] || 0) + 1;
+    return next;
+  });
+
+  const handleAnswer = (questionId: string, answer: Answer) => {
     if (submitted) return;
-    setAnswers(prev => ({ ...prev, [questionId]: optionIndex }));
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
   };
 
-  const getTotalQuestions = () => {
-    if (!content) return 0;
-    return content.parts.reduce((acc, part) => acc + part.questions.length, 0);
+  // Explanations are stored on the content (and the saved copy), so they are never fetched twice
+  const explain = async (part: TestPart, question: Question, target: ExplanationLanguage) => {
+    const explanation = await explainAnswer(part, question, target);
+    const update = (c: ListeningTestContent): ListeningTestContent => ({ ...c, parts: withExplanation(c.parts, question.id, target, explanation) });
+    setContent(prev => prev && update(prev));
+    setLoaded(prev => prev && { ...prev, content: update(prev.content) });
+  };
+
+  const getTotalQuestions = () => (content ? countQuestions(content.parts) : 0);
+  const getAnsweredCount = () => (content ? countAnswered(content.parts, answers) : 0);
+
+  const complete = () => {
+    if (!content) return;
+    const { percent, earned, possible } = scoreParts(content.parts, answers);
+    collectMissedQuestions('listening', content.parts, answers);
+    onComplete(percent, secondsSpent, { earned, possible }, questionSkillStats(content.parts, answers));
   };
 
   if (loadingStep === 'error') {
       return (
         <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6 p-8 text-center max-w-lg mx-auto">
             <AlertCircle className="w-16 h-16 text-red-500" />
-            <h3 className="text-2xl font-bold text-gray-800">Error Loading Test</h3>
+            <h3 className="text-2xl font-bold text-gray-800">{t('listening.errorTitle')}</h3>
             <p className="text-gray-600 mb-6">{errorMsg}</p>
             <button onClick={initTest} className="px-8 py-3 bg-brand-600 text-white rounded-full font-bold transition-all flex items-center space-x-2">
                 <RotateCcw className="w-5 h-5" />
-                <span>Try Again</span>
+                <span>{t('common.tryAgain')}</span>
             </button>
         </div>
       );
@@ -115,8 +148,8 @@ const ListeningModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
               <lottie-player src="https://lottie.host/56722238-d636-4d22-9200-a885d590453e/Z7b84236e2.json" background="transparent" speed="1" loop autoplay></lottie-player>
           </div>
           <div className="text-center space-y-2">
-              <h3 className="text-xl font-bold text-gray-800">Preparing Listening Tracks...</h3>
-              <p className="text-gray-500">Generating audio content for the test.</p>
+              <h3 className="text-xl font-bold text-gray-800">{t('listening.loading')}</h3>
+              <p className="text-gray-500">{t('listening.loadingHint')}</p>
           </div>
         </div>
     );
@@ -126,51 +159,61 @@ const ListeningModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
 
   return (
     <div className="max-w-3xl mx-auto space-y-8 animate-fade-in pb-10">
+      <ModuleTimer timer={timer} />
       <div className="bg-white p-8 rounded-xl shadow-md border border-gray-100 flex flex-col items-center text-center">
-        <h2 className="text-xl font-bold mb-4 text-brand-900">Hören (Listening)</h2>
-        <button
-          onClick={toggleAudio}
-          className={`flex items-center justify-center w-24 h-24 rounded-full shadow-xl transition-all duration-300 ${isPlaying ? 'bg-white border-4 border-brand-200 text-brand-600' : 'bg-brand-600 text-white'}`}
-        >
-          {isPlaying ? <Pause className="w-10 h-10" /> : <Play className="w-10 h-10 ml-1" />}
-        </button>
-        <p className="mt-4 text-sm text-gray-500">{isPlaying ? "Playing..." : "Click Play to Start"}</p>
+        <h2 className="text-xl font-bold text-brand-900">{t('module.listening')}</h2>
+        <p className="text-sm text-gray-400 mt-1">{profile.name} · {level} · {t('common.partsAndMinutes', { parts: profile.listening.parts.length, minutes: profile.listening.minutes })}</p>
+        <p className="mt-4 text-sm text-gray-500">
+          {t('listening.intro', {
+            plays: profile.listening.parts
+              .map((spec, i) => ((spec.plays ?? DEFAULT_PLAYS) === 1 ? t('listening.playedOnce', { part: i + 1 }) : t('listening.playedTimes', { part: i + 1, plays: spec.plays ?? DEFAULT_PLAYS })))
+              .join(', ')
+          })}
+        </p>
+        {strict && (
+          <p className="mt-2 text-xs font-semibold text-amber-700 flex items-center gap-1">
+            <Lock className="w-3 h-3" />{t('listening.strict')}
+          </p>
+        )}
       </div>
 
       {content.parts.map((part: TestPart, partIndex) => (
          <div key={partIndex} className="space-y-4">
              <div className="flex items-center space-x-2 my-6">
                 <div className="h-px bg-gray-200 flex-1"></div>
-                <span className="bg-gray-100 text-gray-600 px-3 py-1 rounded-full text-xs font-bold uppercase">Part {partIndex + 1}</span>
+                <span className="bg-gray-100 text-gray-600 px-3 py-1 rounded-full text-xs font-bold uppercase">{t('common.part', { number: partIndex + 1 })}</span>
                 <div className="h-px bg-gray-200 flex-1"></div>
              </div>
+             {profile.listening.parts[partIndex] && (
+               <p className="text-sm text-gray-500 text-center">{examText(`${profile.id}.listening.${partIndex}`, profile.listening.parts[partIndex].description)}</p>
+             )}
+             {audioContextRef.current && audioBuffersRef.current[partIndex] && (
+               <PartPlayer
+                 audioContext={audioContextRef.current}
+                 buffer={audioBuffersRef.current[partIndex]}
+                 part={part}
+                 index={partIndex}
+                 plays={profile.listening.parts[partIndex]?.plays ?? DEFAULT_PLAYS}
+                 playsUsed={playsUsed[partIndex] || 0}
+                 onPlay={() => countPlay(partIndex)}
+                 preReadingSeconds={submitted ? 0 : profile.listening.parts[partIndex]?.preReadingSeconds ?? 0}
+                 strict={strict && !submitted}
+                 isActive={activePart === partIndex}
+                 onStart={() => setActivePart(partIndex)}
+                 showTranscript={submitted}
+               />
+             )}
              {part.questions.map((q, idx) => (
-                <div key={q.id} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-                    <p className="font-semibold text-gray-800 mb-4">{idx + 1}. {q.text}</p>
-                    <div className="space-y-2">
-                    {q.options.map((opt, i) => {
-                        const isSelected = answers[q.id] === i;
-                        const isCorrect = q.correctAnswerIndex === i;
-                        let className = "w-full text-left p-3 rounded-lg border transition-all ";
-                        if (submitted) {
-                          if (isCorrect) className += "bg-green-50 border-green-500 text-green-700";
-                          else if (isSelected) className += "bg-red-50 border-red-500 text-red-700";
-                          else className += "bg-gray-50 text-gray-400";
-                        } else if (isSelected) className += "bg-brand-100 border-brand-500 text-brand-800";
-                        else className += "hover:bg-gray-50";
-
-                        return (
-                          <button key={i} onClick={() => handleSelect(q.id, i)} className={className} disabled={submitted}>
-                              <div className="flex items-center justify-between">
-                                <span>{opt}</span>
-                                {submitted && isCorrect && <CheckCircle className="w-5 h-5 text-green-600" />}
-                                {submitted && isSelected && !isCorrect && <XCircle className="w-5 h-5 text-red-600" />}
-                              </div>
-                          </button>
-                        );
-                    })}
-                    </div>
-                </div>
+                <QuestionCard
+                  key={q.id}
+                  question={q}
+                  number={idx + 1}
+                  answer={answers[q.id]}
+                  onAnswer={(answer) => handleAnswer(q.id, answer)}
+                  submitted={submitted}
+                >
+                  <ExplainAnswer question={q} language={language} onExplain={(target) => explain(part, q, target)} />
+                </QuestionCard>
             ))}
          </div>
       ))}
@@ -178,16 +221,12 @@ const ListeningModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
       <div className="sticky bottom-6 flex justify-center pt-4">
         <div className="bg-white/90 backdrop-blur px-6 py-4 rounded-2xl shadow-2xl border border-gray-200">
             {!submitted ? (
-              <button onClick={() => setSubmitted(true)} disabled={Object.keys(answers).length !== getTotalQuestions()} className="px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 disabled:opacity-50">
-                  Submit Answers ({Object.keys(answers).length}/{getTotalQuestions()})
+              <button onClick={handleSubmit} disabled={getAnsweredCount() !== getTotalQuestions()} className="px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 disabled:opacity-50">
+                  {t('common.submitAnswers', { answered: getAnsweredCount(), total: getTotalQuestions() })}
               </button>
             ) : (
-              <button onClick={() => {
-                  let correct = 0;
-                  content.parts.forEach(part => part.questions.forEach(q => { if (answers[q.id] === q.correctAnswerIndex) correct++; }));
-                  onComplete((correct / getTotalQuestions()) * 100);
-              }} className="px-8 py-3 bg-gray-900 text-white rounded-lg font-semibold shadow-lg">
-                  Next Module
+              <button onClick={complete} className="px-8 py-3 bg-gray-900 text-white rounded-lg font-semibold shadow-lg">
+                  {completeLabel}
               </button>
             )}
         </div>
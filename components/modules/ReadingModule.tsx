@@ -1,30 +1,55 @@
 import React, { useState, useEffect } from 'react';
-import { generateReadingTest } from '../../services/geminiService.ts';
-import { ReadingTestContent, TestPart } from '../../types.ts';
-import { CheckCircle, XCircle, AlertCircle, RotateCcw } from 'lucide-react';
+import { generateReadingTest, explainAnswer } from '../../services/contentProvider.ts';
+import { ReadingTestContent, TestPart, Question, ExamProfile, CefrLevel, Answer, RawScore, ExplanationLanguage } from '../../types.ts';
+import { scoreParts, countQuestions, countAnswered } from '../../services/questionScoring.ts';
+import { questionSkillStats, SkillStats } from '../../services/skillTags.ts';
+import { collectMissedQuestions } from '../../services/reviewDeck.ts';
+import { withExplanation } from '../../services/answerExplanations.ts';
+import QuestionCard from '../questions/QuestionCard.tsx';
+import ExplainAnswer from '../questions/ExplainAnswer.tsx';
+import ModuleTimer from '../timer/ModuleTimer.tsx';
+import { useModuleTimer } from '../timer/useModuleTimer.ts';
+import { QuestionProgress, PROGRESS_SAVE_SECONDS } from '../../services/sessionStore.ts';
+import { t, examText } from '../../services/i18n.ts';
+import { AlertCircle, RotateCcw } from 'lucide-react';
 
 interface Props {
-  onComplete: (score: number) => void;
+  onComplete: (score: number, secondsSpent: number, raw: RawScore, skills: SkillStats) => void;
   preloadedData?: ReadingTestContent | null;
+  profile: ExamProfile;
+  level: CefrLevel;
+  timeLimit: number; // Seconds; 0 for untimed practice
+  completeLabel?: string; // Text of the final button; practice mode goes straight to the result
+  saved?: QuestionProgress; // Progress restored from an interrupted session
+  onProgress: (content: ReadingTestContent, progress: QuestionProgress) => void;
+  language: ExplanationLanguage; // For answer explanations after submission
 }
 
-const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
+const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData, profile, level, timeLimit, saved, onProgress, language, completeLabel = t('common.nextModule') }) => {
   const [content, setContent] = useState<ReadingTestContent | null>(preloadedData || null);
-  const [answers, setAnswers] = useState<Record<string, number>>({});
-  const [submitted, setSubmitted] = useState(false);
+  const [answers, setAnswers] = useState<Record<string, Answer>>(saved?.answers || {});
+  const [submitted, setSubmitted] = useState(saved?.submitted || false);
   const [loading, setLoading] = useState(!preloadedData);
   const [error, setError] = useState<string | null>(null);
+  const [secondsSpent, setSecondsSpent] = useState(saved?.secondsSpent || 0);
+  // When time runs out, unanswered questions are submitted as they are
+  const timer = useModuleTimer(timeLimit, !!content && !loading && !submitted, () => handleSubmit(), saved?.elapsed);
+
+  useEffect(() => {
+    if (content) onProgress(content, { answers, submitted, secondsSpent, elapsed: Math.round(timer.elapsed) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [content, answers, submitted, secondsSpent, Math.floor(timer.elapsed / PROGRESS_SAVE_SECONDS)]);
 
   const fetchTest = async () => {
     if (preloadedData) return;
     setLoading(true);
     setError(null);
     try {
-      const data = await generateReadingTest();
+      const data = await generateReadingTest(profile, level);
       setContent(data);
     } catch (e: any) {
       console.error(e);
-      setError(e.message || "Failed to load reading test.");
+      setError(t('reading.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -39,18 +64,30 @@ const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [preloadedData]);
 
-  const handleSelect = (questionId: string, optionIndex: number) => {
+  const handleAnswer = (questionId: string, answer: Answer) => {
     if (submitted) return;
-    setAnswers(prev => ({ ...prev, [questionId]: optionIndex }));
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
   };
 
   const handleSubmit = () => {
+    setSecondsSpent(timer.stop());
     setSubmitted(true);
   };
 
-  const getTotalQuestions = () => {
-    if (!content) return 0;
-    return content.parts.reduce((acc, part) => acc + part.questions.length, 0);
+  // Explanations are stored on the content, so they are saved with the session and never fetched twice
+  const explain = async (part: TestPart, question: Question, target: ExplanationLanguage) => {
+    const explanation = await explainAnswer(part, question, target);
+    setContent(prev => prev && { ...prev, parts: withExplanation(prev.parts, question.id, target, explanation) });
+  };
+
+  const getTotalQuestions = () => (content ? countQuestions(content.parts) : 0);
+  const getAnsweredCount = () => (content ? countAnswered(content.parts, answers) : 0);
+
+  const complete = () => {
+    if (!content) return;
+    const { percent, earned, possible } = scoreParts(content.parts, answers);
+    collectMissedQuestions('reading', content.parts, answers);
+    onComplete(percent, secondsSpent, { earned, possible }, questionSkillStats(content.parts, answers));
   };
 
   if (loading) return (
@@ -66,8 +103,8 @@ const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
         ></lottie-player>
       </div>
       <div className="text-center space-y-2">
-        <h3 className="text-xl font-bold text-gray-800">Generating Reading Test...</h3>
-        <p className="text-gray-500">Curating questions for you.</p>
+        <h3 className="text-xl font-bold text-gray-800">{t('reading.loading')}</h3>
+        <p className="text-gray-500">{t('reading.loadingHint')}</p>
       </div>
     </div>
   );
@@ -76,14 +113,14 @@ const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6 animate-fade-in p-8 text-center max-w-lg mx-auto">
         <AlertCircle className="w-16 h-16 text-red-500" />
-        <h3 className="text-2xl font-bold text-gray-800 mb-2">Something went wrong</h3>
+        <h3 className="text-2xl font-bold text-gray-800 mb-2">{t('common.somethingWrong')}</h3>
         <p className="text-gray-600 mb-6">{error}</p>
         <button 
             onClick={fetchTest}
             className="px-8 py-3 bg-brand-600 text-white rounded-full font-bold hover:bg-brand-700 transition-all flex items-center space-x-2"
         >
             <RotateCcw className="w-5 h-5" />
-            <span>Try Again</span>
+            <span>{t('common.tryAgain')}</span>
         </button>
       </div>
     );
@@ -93,18 +130,23 @@ const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
 
   return (
     <div className="max-w-3xl mx-auto space-y-12 animate-fade-in pb-10">
+      <ModuleTimer timer={timer} />
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-brand-900">Lesen (Reading)</h2>
-        <p className="text-gray-600">Read the texts and answer correctly.</p>
+        <h2 className="text-2xl font-bold text-brand-900">{t('module.reading')}</h2>
+        <p className="text-gray-600">{t('reading.intro')}</p>
+        <p className="text-sm text-gray-400 mt-1">{profile.name} · {level} · {t('common.partsAndMinutes', { parts: profile.reading.parts.length, minutes: profile.reading.minutes })}</p>
       </div>
 
       {content.parts.map((part: TestPart, partIndex) => (
         <div key={partIndex} className="space-y-6">
            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
              <div className="flex items-center space-x-2 mb-4">
-               <span className="bg-brand-100 text-brand-700 px-3 py-1 rounded-full text-xs font-bold uppercase">Part {partIndex + 1}</span>
+               <span className="bg-brand-100 text-brand-700 px-3 py-1 rounded-full text-xs font-bold uppercase">{t('common.part', { number: partIndex + 1 })}</span>
                <h3 className="text-lg font-bold text-gray-800">{part.title}</h3>
              </div>
+             {profile.reading.parts[partIndex] && (
+               <p className="text-sm text-gray-500 mb-4">{examText(`${profile.id}.reading.${partIndex}`, profile.reading.parts[partIndex].description)}</p>
+             )}
              <div className="text-gray-700 bg-brand-50 p-6 rounded-lg border-l-4 border-brand-500">
                <p className="whitespace-pre-line">{part.content}</p>
              </div>
@@ -112,40 +154,16 @@ const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
 
            <div className="space-y-4">
              {part.questions.map((q, qIndex) => (
-               <div key={q.id} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 animate-fade-in-up">
-                 <p className="font-semibold text-gray-800 mb-4">{qIndex + 1}. {q.text}</p>
-                 <div className="space-y-2">
-                   {q.options.map((opt, i) => {
-                     const isSelected = answers[q.id] === i;
-                     const isCorrect = q.correctAnswerIndex === i;
-                     let className = "w-full text-left p-3 rounded-lg border transition-all ";
-                     
-                     if (submitted) {
-                       if (isCorrect) className += "bg-green-50 border-green-500 text-green-700";
-                       else if (isSelected && !isCorrect) className += "bg-red-50 border-red-500 text-red-700";
-                       else className += "bg-gray-50 border-gray-200 text-gray-400";
-                     } else {
-                       if (isSelected) className += "bg-brand-100 border-brand-500 text-brand-800";
-                       else className += "hover:bg-gray-50 border-gray-200 text-gray-700";
-                     }
-
-                     return (
-                       <button
-                         key={i}
-                         onClick={() => handleSelect(q.id, i)}
-                         className={className}
-                         disabled={submitted}
-                       >
-                         <div className="flex items-center justify-between">
-                           <span>{opt}</span>
-                           {submitted && isCorrect && <CheckCircle className="w-5 h-5 text-green-600" />}
-                           {submitted && isSelected && !isCorrect && <XCircle className="w-5 h-5 text-red-600" />}
-                         </div>
-                       </button>
-                     );
-                   })}
-                 </div>
-               </div>
+               <QuestionCard
+                 key={q.id}
+                 question={q}
+                 number={qIndex + 1}
+                 answer={answers[q.id]}
+                 onAnswer={(answer) => handleAnswer(q.id, answer)}
+                 submitted={submitted}
+               >
+                 <ExplainAnswer question={q} language={language} onExplain={(target) => explain(part, q, target)} />
+               </QuestionCard>
              ))}
            </div>
         </div>
@@ -156,25 +174,17 @@ const ReadingModule: React.FC<Props> = ({ onComplete, preloadedData }) => {
           {!submitted ? (
             <button
               onClick={handleSubmit}
-              disabled={Object.keys(answers).length !== getTotalQuestions()}
+              disabled={getAnsweredCount() !== getTotalQuestions()}
               className="px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 disabled:opacity-50 transition-colors"
             >
-              Submit Answers ({Object.keys(answers).length}/{getTotalQuestions()})
+              {t('common.submitAnswers', { answered: getAnsweredCount(), total: getTotalQuestions() })}
             </button>
           ) : (
             <button
-              onClick={() => {
-                  let correct = 0;
-                  content.parts.forEach(part => {
-                    part.questions.forEach(q => {
-                      if (answers[q.id] === q.correctAnswerIndex) correct++;
-                    });
-                  });
-                  onComplete((correct / getTotalQuestions()) * 100);
-              }}
+              onClick={complete}
               className="px-8 py-3 bg-gray-900 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-800 transition-colors"
             >
-              Next Module
+              {completeLabel}
             </button>
           )}
         </div>
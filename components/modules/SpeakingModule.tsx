@@ -1,39 +1,91 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateSpeakingTask, evaluateSpeaking } from '../../services/geminiService';
-import { blobToBase64 } from '../../services/audioUtils';
-import { SpeakingTask, EvaluationResult } from '../../types';
-import { Loader2, Mic, Square, Send, AlertCircle, Keyboard, RotateCcw } from 'lucide-react';
+import { generateSpeakingTask, evaluateSpeaking, generateFollowUp, SpeakingInput } from '../../services/contentProvider';
+import { blobToBase64, decode } from '../../services/audioUtils';
+import { turnsFor, taskForTurn, aggregateTurnResults } from '../../services/speakingSession';
+import { percentToRaw } from '../../services/examScoring';
+import { correctionSkillStats, SkillStats } from '../../services/skillTags';
+import { collectCorrections } from '../../services/reviewDeck';
+import { t, examText } from '../../services/i18n';
+import { SpeakingTask, EvaluationResult, ExaminerTurn, ExamProfile, CefrLevel, RawScore } from '../../types';
+import SpeechReview from '../speaking/SpeechReview';
+import TurnRecorder, { TurnAnswer } from '../speaking/TurnRecorder';
+import ExaminerPrompt from '../speaking/ExaminerPrompt';
+import ModuleTimer from '../timer/ModuleTimer';
+import { useModuleTimer } from '../timer/useModuleTimer';
+import { SpeakingProgress, SavedTurn, PROGRESS_SAVE_SECONDS } from '../../services/sessionStore';
+import { Loader2, AlertCircle, RotateCcw, Play } from 'lucide-react';
 
 interface Props {
-  onComplete: (score: number) => void;
+  onComplete: (score: number, secondsSpent: number, raw: RawScore, skills: SkillStats) => void;
   preloadedTask?: SpeakingTask | null;
+  profile: ExamProfile;
+  level: CefrLevel;
+  timeLimit: number; // Seconds; 0 for untimed practice
+  completeLabel?: string; // Text of the final button; practice mode goes straight to the result
+  saved?: SpeakingProgress; // Conversation restored from an interrupted session
+  onProgress: (task: SpeakingTask, progress: SpeakingProgress) => void;
 }
 
-const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
+interface AnsweredTurn extends SavedTurn {
+  recordingUrl?: string;
+  result?: EvaluationResult | null; // null when evaluation failed
+}
+
+type Stage = SpeakingProgress['stage'];
+
+// Restored recordings only exist as base64, so they get fresh object URLs for playback
+const restoreTurns = (saved: SavedTurn[]): AnsweredTurn[] =>
+  saved.map(a => ({
+    ...a,
+    recordingUrl: a.input.audioBase64 ? URL.createObjectURL(new Blob([decode(a.input.audioBase64)], { type: 'audio/webm' })) : undefined
+  }));
+
+const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask, profile, level, timeLimit, saved, onProgress, completeLabel = t('common.finishTest') }) => {
   const [task, setTask] = useState<SpeakingTask | null>(preloadedTask || null);
   const [loading, setLoading] = useState(!preloadedTask);
-  const [recording, setRecording] = useState(false);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [evaluating, setEvaluating] = useState(false);
-  const [result, setResult] = useState<EvaluationResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
   const [initError, setInitError] = useState<string | null>(null);
-  const [useTextFallback, setUseTextFallback] = useState(false);
-  const [textInput, setTextInput] = useState("");
+  const [stage, setStage] = useState<Stage>(saved?.stage || 'briefing');
+  const [turns, setTurns] = useState<ExaminerTurn[]>(saved?.turns || []);
+  const [current, setCurrent] = useState(saved?.current || 0);
+  const [answered, setAnswered] = useState<AnsweredTurn[]>(() => restoreTurns(saved?.answered || []));
+  const [thinking, setThinking] = useState(false);
+  const [textMode, setTextMode] = useState(false);
+  const [result, setResult] = useState<EvaluationResult | null>(saved?.result || null);
+  const [error, setError] = useState<string | null>(null);
+  const [secondsSpent, setSecondsSpent] = useState(saved?.secondsSpent || 0);
+
+  // Turn evaluations run in the background while the conversation continues
+  const evaluationsRef = useRef<Promise<EvaluationResult | null>[]>([]);
+  const recordingUrlsRef = useRef<string[]>(answered.flatMap(a => (a.recordingUrl ? [a.recordingUrl] : [])));
+  // Set when time runs out; a turn still being submitted then ends the exam instead of moving on
+  const timedOutRef = useRef(false);
+  // Tells the recorder to stop and hand in the current turn, which then ends the exam
+  const [timeUp, setTimeUp] = useState(false);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<BlobPart[]>([]);
+  const timer = useModuleTimer(timeLimit, !!task && !loading && (stage === 'briefing' || stage === 'turns'), () => {
+    timedOutRef.current = true;
+    if (thinking) return;
+    if (stage === 'briefing') finish(answered);
+    if (stage === 'turns') setTimeUp(true);
+  }, saved?.elapsed);
+
+  useEffect(() => {
+    if (!task) return;
+    const savedTurns = answered.map(({ turn, input, result }) => ({ turn, input, result }));
+    onProgress(task, { stage, turns, current, answered: savedTurns, result, secondsSpent, elapsed: Math.round(timer.elapsed) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [task, stage, turns, current, answered, result, secondsSpent, Math.floor(timer.elapsed / PROGRESS_SAVE_SECONDS)]);
 
   const fetchTask = async () => {
     if (preloadedTask) return;
     setLoading(true);
     setInitError(null);
     try {
-      const data = await generateSpeakingTask();
+      const data = await generateSpeakingTask(profile, level);
       setTask(data);
     } catch (e: any) {
       console.error(e);
-      setInitError(e.message || "Failed to generate speaking task.");
+      setInitError(t('speaking.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -48,82 +100,106 @@ const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [preloadedTask]);
 
-  const startRecording = async () => {
-    setError(null);
-    try {
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        throw new Error("Your browser does not support audio recording.");
-      }
+  useEffect(() => () => recordingUrlsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream);
-      
-      mediaRecorderRef.current.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
+  const partTitle = (turn: ExaminerTurn) => profile.speaking.parts[turn.partIndex]?.title || t('module.speaking');
 
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        setAudioBlob(blob);
-        chunksRef.current = [];
-        // Stop all tracks to release microphone
-        stream.getTracks().forEach(track => track.stop());
-      };
+  const startExam = () => {
+    if (!task) return;
+    setTurns(turnsFor(task));
+    setCurrent(0);
+    setStage('turns');
+  };
 
-      mediaRecorderRef.current.start();
-      setRecording(true);
-    } catch (err: any) {
-      setRecording(false);
-      
-      let errorMessage = "Could not access microphone.";
-      
-      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError' || (err.message && err.message.toLowerCase().includes('permission denied'))) {
-        errorMessage = "Microphone permission denied.";
-        // Don't console.error for expected permission denials to keep logs clean
-        console.warn("Microphone access denied by user.");
-      } else if (err.name === 'NotFoundError') {
-        errorMessage = "No microphone found.";
-      } else {
-        console.error("Microphone Access Error:", err);
-      }
-      
-      setError(errorMessage);
-    }
+  // Results are also kept on the answered turn, so a resumed session doesn't evaluate them again
+  const evaluateTurn = (index: number, turn: ExaminerTurn, input: SpeakingInput) =>
+    evaluateSpeaking(taskForTurn(task!, turn, profile, level), input, level)
+      .catch(e => {
+        console.error(e);
+        return null;
+      })
+      .then(turnResult => {
+        setAnswered(prev => prev.map((a, i) => (i === index ? { ...a, result: turnResult } : a)));
+        return turnResult;
+      });
+
+  // A restored conversation picks up its evaluations: finished ones are reused, the rest run again
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (!task || !saved || restoredRef.current) return;
+    restoredRef.current = true;
+    evaluationsRef.current = answered.map((a, i) => (a.result ? Promise.resolve(a.result) : evaluateTurn(i, a.turn, a.input)));
+    if (stage === 'scoring') finish(answered);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [task]);
+
+  // Corrections are collected per answer, where they still refer to that answer's own transcript
+  const complete = () => {
+    if (!result) return;
+    answered.forEach(a => a.result?.transcript && collectCorrections('speaking', a.result.transcript, a.result.textCorrections));
+    onComplete(result.score, secondsSpent, percentToRaw(result.score), correctionSkillStats(result.textCorrections));
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && recording) {
-      mediaRecorderRef.current.stop();
-      setRecording(false);
+  const finish = async (allAnswered: AnsweredTurn[]) => {
+    setSecondsSpent(timer.stop());
+    setStage('scoring');
+    setError(null);
+    if (allAnswered.length === 0) {
+      setResult({ score: 0, feedback: t('speaking.noAnswers') });
+      setStage('result');
+      return;
+    }
+    const results = await Promise.all(evaluationsRef.current);
+    const withResults = allAnswered.map((a, i) => ({ ...a, result: results[i] }));
+    setAnswered(withResults);
+    if (results.some(r => r === null)) {
+      setError(t('speaking.evaluateFailed'));
+      return;
     }
+    setResult(aggregateTurnResults(withResults.map(a => ({ turn: a.turn, result: a.result! })), profile));
+    setStage('result');
   };
 
-  const handleSubmit = async () => {
-    if (!task) return;
-    if (!useTextFallback && !audioBlob) return;
-    if (useTextFallback && !textInput.trim()) return;
+  const retryFailed = () => {
+    evaluationsRef.current = answered.map((a, i) => (a.result ? evaluationsRef.current[i] : evaluateTurn(i, a.turn, a.input)));
+    finish(answered);
+  };
 
-    setEvaluating(true);
-    setError(null);
-    
+  const submitTurn = async (answer: TurnAnswer) => {
+    if (!task) return;
+    // Time ran out before anything was said or typed for this turn
+    if (!answer.blob && !answer.text) {
+      await finish(answered);
+      return;
+    }
+    const turn = turns[current];
+    setThinking(true);
     try {
-      let evalResult: EvaluationResult;
-      
-      if (useTextFallback) {
-         evalResult = await evaluateSpeaking(task, { text: textInput });
-      } else if (audioBlob) {
-         const base64 = await blobToBase64(audioBlob);
-         evalResult = await evaluateSpeaking(task, { audioBase64: base64 });
-      } else {
-        throw new Error("No input provided");
+      const input: SpeakingInput = answer.text ? { text: answer.text } : { audioBase64: await blobToBase64(answer.blob!) };
+      const recordingUrl = answer.blob ? URL.createObjectURL(answer.blob) : undefined;
+      if (recordingUrl) recordingUrlsRef.current.push(recordingUrl);
+      const entry: AnsweredTurn = { turn, input, recordingUrl };
+      evaluationsRef.current = [...evaluationsRef.current, evaluateTurn(answered.length, turn, input)];
+      const nextAnswered = [...answered, entry];
+      setAnswered(nextAnswered);
+
+      // Follow-ups never get follow-ups of their own
+      let nextTurns = turns;
+      if (!turn.followUp) {
+        const followUp = await generateFollowUp(task, turn, input, level).catch(e => {
+          console.warn("Follow-up question failed", e);
+          return null;
+        });
+        if (followUp) {
+          nextTurns = [...turns.slice(0, current + 1), followUp, ...turns.slice(current + 1)];
+          setTurns(nextTurns);
+        }
       }
-      
-      setResult(evalResult);
-    } catch (e: any) {
-      console.error(e);
-      setError("Failed to evaluate submission. " + (e.message || ""));
+      if (timedOutRef.current) await finish(nextAnswered);
+      else if (current + 1 < nextTurns.length) setCurrent(current + 1);
+      else await finish(nextAnswered);
     } finally {
-      setEvaluating(false);
+      setThinking(false);
     }
   };
 
@@ -140,8 +216,8 @@ const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
         ></lottie-player>
       </div>
       <div className="text-center space-y-2">
-        <h3 className="text-xl font-bold text-gray-800">Generating Speaking Task...</h3>
-        <p className="text-gray-500">Preparing a conversation topic for you.</p>
+        <h3 className="text-xl font-bold text-gray-800">{t('speaking.loading')}</h3>
+        <p className="text-gray-500">{t('speaking.loadingHint')}</p>
       </div>
     </div>
   );
@@ -153,7 +229,7 @@ const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
             <AlertCircle className="w-10 h-10 text-red-500" />
         </div>
         <div>
-            <h3 className="text-2xl font-bold text-gray-800 mb-2">Something went wrong</h3>
+            <h3 className="text-2xl font-bold text-gray-800 mb-2">{t('common.somethingWrong')}</h3>
             <p className="text-gray-600 mb-6">{initError}</p>
         </div>
         <button 
@@ -161,7 +237,7 @@ const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
             className="px-8 py-3 bg-brand-600 text-white rounded-full font-bold hover:bg-brand-700 transition-all shadow-lg hover:shadow-xl hover:-translate-y-1 flex items-center space-x-2"
         >
             <RotateCcw className="w-5 h-5" />
-            <span>Try Again</span>
+            <span>{t('common.tryAgain')}</span>
         </button>
       </div>
     );
@@ -169,168 +245,137 @@ const SpeakingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
 
   if (!task) return null;
 
-  return (
-    <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
-       <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
-        <h2 className="text-xl font-bold mb-2 text-brand-900">Sprechen (Speaking)</h2>
-        <div className="bg-brand-50 p-4 rounded-lg border border-brand-100">
-          <h3 className="font-semibold text-brand-800">Topic: {task.topic}</h3>
-          <p className="text-gray-700 mt-2">{task.instructions}</p>
-        </div>
+  const header = (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+      <div className="flex items-baseline justify-between mb-2">
+        <h2 className="text-xl font-bold text-brand-900">{t('module.speaking')}</h2>
+        <span className="text-sm text-gray-400">{profile.name} · {level} · {t('common.minutes', { minutes: profile.speaking.minutes })}</span>
       </div>
-      
-      {error && !useTextFallback && (
-        <div className="bg-red-50 border border-red-200 text-red-700 p-4 rounded-lg flex items-start justify-between">
-          <div className="flex items-start space-x-3">
-             <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
-             <div>
-                <p className="font-semibold">{error}</p>
-                <p className="text-sm mt-1">Please check your browser settings or use the text fallback.</p>
-             </div>
+      <div className="bg-brand-50 p-4 rounded-lg border border-brand-100">
+        <h3 className="font-semibold text-brand-800">{t('common.topic', { topic: task.topic })}</h3>
+        <p className="text-gray-700 mt-2">{task.instructions}</p>
+      </div>
+    </div>
+  );
+
+  if (stage === 'briefing') {
+    return (
+      <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
+        <ModuleTimer timer={timer} />
+        {header}
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 space-y-4">
+          <p className="text-gray-600">{t('speaking.briefing')}</p>
+          <ol className="space-y-2">
+            {profile.speaking.parts.map((part, i) => (
+              <li key={i} className="text-sm">
+                <span className="font-semibold text-gray-800">{part.title}</span>
+                <span className="text-gray-500"> · {examText(`${profile.id}.speaking.${i}`, part.description)}</span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex justify-end">
+            <button onClick={startExam} className="flex items-center space-x-2 px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 transition-colors">
+              <Play className="w-4 h-4" />
+              <span>{t('speaking.start')}</span>
+            </button>
           </div>
-          <button 
-            onClick={() => { setError(null); setUseTextFallback(true); }}
-            className="text-sm bg-white border border-red-300 px-3 py-1 rounded hover:bg-red-50 transition-colors"
-          >
-            Type Answer Instead
-          </button>
         </div>
-      )}
-
-      {!result ? (
-        <div className="flex flex-col items-center space-y-6 py-10 bg-white rounded-xl border border-dashed border-gray-300 transition-all relative overflow-hidden">
-          
-          {!useTextFallback ? (
-            <>
-                {!audioBlob && !recording && (
-                    <p className="text-gray-500 z-10">Click microphone to start recording your answer.</p>
-                )}
-
-                {audioBlob && !recording && (
-                    <div className="w-full max-w-sm z-10">
-                        <audio controls src={URL.createObjectURL(audioBlob)} className="w-full" />
-                        <button 
-                        onClick={() => setAudioBlob(null)} 
-                        className="text-sm text-red-500 mt-2 hover:underline w-full text-center"
-                        >
-                        Delete and record again
-                        </button>
-                    </div>
-                )}
-
-                {!audioBlob && (
-                    <div className="relative">
-                        {recording && (
-                             <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 -z-10 flex items-center justify-center">
-                                <div className="w-32 h-32 bg-red-100 rounded-full animate-pulse-ring"></div>
-                                <div className="w-32 h-32 bg-red-100 rounded-full animate-pulse-ring delay-300"></div>
-                             </div>
-                        )}
-                        <button
-                            onClick={recording ? stopRecording : startRecording}
-                            className={`
-                                flex items-center justify-center w-24 h-24 rounded-full transition-all shadow-xl z-10 relative
-                                ${recording ? 'bg-red-500 animate-pulse' : 'bg-brand-600 hover:bg-brand-700'}
-                            `}
-                        >
-                            {recording ? (
-                                <Square className="w-10 h-10 text-white" fill="currentColor" />
-                            ) : (
-                                <Mic className="w-10 h-10 text-white" />
-                            )}
-                        </button>
-                    </div>
-                )}
+      </div>
+    );
+  }
 
-                {!audioBlob && !recording && (
-                    <button 
-                        onClick={() => setUseTextFallback(true)}
-                        className="flex items-center space-x-2 text-gray-400 hover:text-brand-600 transition-colors mt-4 text-sm z-10"
-                    >
-                        <Keyboard className="w-4 h-4" />
-                        <span>Can't speak? Type your answer</span>
-                    </button>
-                )}
-            </>
-          ) : (
-            <div className="w-full max-w-xl px-6 z-10">
-                <div className="flex justify-between items-center mb-2">
-                    <label className="text-sm font-medium text-gray-700">Type your response (Simulation)</label>
-                    <button 
-                        onClick={() => setUseTextFallback(false)}
-                        className="text-sm text-brand-600 hover:underline"
-                    >
-                        Switch to Microphone
-                    </button>
-                </div>
-                <textarea
-                    value={textInput}
-                    onChange={(e) => setTextInput(e.target.value)}
-                    placeholder="Ich heiße..."
-                    className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none resize-none"
-                />
-            </div>
-          )}
+  if (stage === 'turns') {
+    const turn = turns[current];
+    return (
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <ModuleTimer timer={timer} />
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span className="font-semibold">{partTitle(turn)}</span>
+          <span>{t('speaking.progress', { current: current + 1, total: turns.length })}</span>
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-brand-500 transition-all" style={{ width: `${(current / turns.length) * 100}%` }}></div>
+        </div>
+        <ExaminerPrompt key={current} turn={turn} partTitle={partTitle(turn)} />
+        <TurnRecorder key={`answer-${current}`} onSubmit={submitTurn} busy={thinking} textMode={textMode} onTextModeChange={setTextMode} timeUp={timeUp} />
+      </div>
+    );
+  }
 
-          {(audioBlob || (useTextFallback && textInput.length > 0)) && (
-              <button
-              onClick={handleSubmit}
-              disabled={evaluating}
-              className="flex items-center space-x-2 px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 disabled:opacity-50 transition-colors z-10"
-            >
-              {evaluating ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  <span>Evaluating...</span>
-                </>
-              ) : (
-                <>
-                  <Send className="w-4 h-4" />
-                  <span>Submit Answer</span>
-                </>
-              )}
+  if (stage === 'scoring' || !result) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] space-y-6 p-8 text-center max-w-lg mx-auto animate-fade-in">
+        {error ? (
+          <>
+            <AlertCircle className="w-16 h-16 text-red-500" />
+            <p className="text-gray-600">{error}</p>
+            <button onClick={retryFailed} className="px-8 py-3 bg-brand-600 text-white rounded-full font-bold transition-all flex items-center space-x-2">
+              <RotateCcw className="w-5 h-5" />
+              <span>{t('common.tryAgain')}</span>
             </button>
-          )}
-        </div>
-      ) : (
-        <div className="space-y-6 animate-fade-in-up">
-           <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
-            <div className="flex items-center justify-between mb-4">
-               <h3 className="text-lg font-bold text-gray-900">Evaluation Result</h3>
-               <div className="px-4 py-1 bg-brand-100 text-brand-800 rounded-full font-bold">
-                 Score: {result.score}/100
-               </div>
+          </>
+        ) : (
+          <>
+            <Loader2 className="w-12 h-12 text-brand-600 animate-spin" />
+            <h3 className="text-xl font-bold text-gray-800">{t('speaking.scoring')}</h3>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
+      <ModuleTimer timer={timer} />
+      {header}
+      <div className="space-y-6 animate-fade-in-up">
+         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+             <h3 className="text-lg font-bold text-gray-900">{t('common.evaluationResult')}</h3>
+             <div className="px-4 py-1 bg-brand-100 text-brand-800 rounded-full font-bold">
+               {t('common.score', { score: result.score })}
+             </div>
+          </div>
+          
+          <div className="space-y-4">
+            <div>
+              <h4 className="font-semibold text-gray-700">{t('common.feedback')}</h4>
+              <p className="text-gray-600 whitespace-pre-line">{result.feedback}</p>
             </div>
             
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-semibold text-gray-700">Feedback:</h4>
-                <p className="text-gray-600">{result.feedback}</p>
-              </div>
-              
-              {result.corrections && result.corrections.length > 0 && (
+            <SpeechReview result={result} />
+          </div>
+         </div>
+
+         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 space-y-4">
+          <h3 className="text-lg font-bold text-gray-900">{t('speaking.yourAnswers')}</h3>
+          {answered.map((a, i) => (
+            <div key={i} className="border-t border-gray-100 pt-4 space-y-2">
+              <div className="flex items-start justify-between gap-4">
                 <div>
-                   <h4 className="font-semibold text-gray-700 mb-2">Suggestions:</h4>
-                   <ul className="list-disc list-inside space-y-1 text-gray-600">
-                     {result.corrections.map((c, i) => <li key={i}>{c}</li>)}
-                   </ul>
+                  <p className="text-xs font-bold uppercase text-gray-400">{partTitle(a.turn)}</p>
+                  <p className="text-gray-800">{a.turn.prompt}</p>
+                  {a.turn.card && <p className="text-sm text-brand-700">{t('speaking.card', { card: a.turn.card })}</p>}
                 </div>
-              )}
+                {a.result && <span className="text-sm font-bold text-gray-700 flex-shrink-0">{a.result.score}/100</span>}
+              </div>
+              {a.recordingUrl && <audio controls src={a.recordingUrl} className="w-full" />}
+              {a.result?.transcript && <p className="text-sm text-gray-600 italic">„{a.result.transcript}“</p>}
             </div>
-           </div>
+          ))}
+         </div>
 
-           <div className="flex justify-end">
-             <button
-                onClick={() => onComplete(result.score)}
-                className="px-8 py-3 bg-gray-900 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-800 transition-colors"
-             >
-                Finish Test
-             </button>
-           </div>
-        </div>
-      )}
+         <div className="flex justify-end">
+           <button
+              onClick={complete}
+              className="px-8 py-3 bg-gray-900 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-800 transition-colors"
+           >
+              {completeLabel}
+           </button>
+         </div>
+      </div>
     </div>
   );
 };
 
-export default SpeakingModule;
\ No newline at end of file
+export default SpeakingModule;
@@ -1,32 +1,61 @@
 import React, { useState, useEffect } from 'react';
-import { generateWritingTask, evaluateWriting } from '../../services/geminiService';
-import { WritingTask, EvaluationResult } from '../../types';
+import { generateWritingTask, evaluateWriting } from '../../services/contentProvider';
+import { WritingTask, EvaluationResult, ExamProfile, CefrLevel, RawScore } from '../../types';
+import RubricTable from '../writing/RubricTable';
+import MarkedText from '../writing/MarkedText';
+import FormPart from '../writing/FormPart';
+import ModuleTimer from '../timer/ModuleTimer';
+import { useModuleTimer } from '../timer/useModuleTimer';
+import { WritingProgress, PROGRESS_SAVE_SECONDS } from '../../services/sessionStore';
+import { gradeForm, combineWritingScore, writingRawScore, FormGrade } from '../../services/formGrading';
+import { formSkillStats, correctionSkillStats, mergeSkillStats, SkillStats } from '../../services/skillTags';
+import { collectCorrections } from '../../services/reviewDeck';
+import { t } from '../../services/i18n';
 import { Loader2, Send, AlertCircle, RotateCcw } from 'lucide-react';
 
 interface Props {
-  onComplete: (score: number) => void;
+  onComplete: (score: number, secondsSpent: number, raw: RawScore, skills: SkillStats) => void;
   preloadedTask?: WritingTask | null;
+  profile: ExamProfile;
+  level: CefrLevel;
+  timeLimit: number; // Seconds; 0 for untimed practice
+  completeLabel?: string; // Text of the final button; practice mode goes straight to the result
+  saved?: WritingProgress; // Draft and result restored from an interrupted session
+  onProgress: (task: WritingTask, progress: WritingProgress) => void;
 }
 
-const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
+// Result for an email that was still empty when time ran out; nothing to send to the evaluator
+const emptyTextResult = (): EvaluationResult => ({ score: 0, feedback: t('writing.emptyText') });
+
+const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask, profile, level, timeLimit, saved, onProgress, completeLabel = t('common.nextModule') }) => {
   const [task, setTask] = useState<WritingTask | null>(preloadedTask || null);
-  const [userText, setUserText] = useState("");
-  const [result, setResult] = useState<EvaluationResult | null>(null);
+  const [userText, setUserText] = useState(saved?.userText || "");
+  const [formAnswers, setFormAnswers] = useState<string[]>(saved?.formAnswers || []);
+  const [result, setResult] = useState<EvaluationResult | null>(saved?.result || null);
+  const [formGrade, setFormGrade] = useState<FormGrade | null>(saved?.formGrade || null);
   const [loading, setLoading] = useState(!preloadedTask);
   const [evaluating, setEvaluating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
+  const [secondsSpent, setSecondsSpent] = useState(saved?.secondsSpent || 0);
+  // An evaluation already running when time runs out covers the final text
+  const timer = useModuleTimer(timeLimit, !!task && !loading && !result, () => { if (!evaluating) handleSubmit(); }, saved?.elapsed);
+
+  useEffect(() => {
+    if (task) onProgress(task, { userText, formAnswers, result, formGrade, secondsSpent, elapsed: Math.round(timer.elapsed) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [task, userText, formAnswers, result, formGrade, secondsSpent, Math.floor(timer.elapsed / PROGRESS_SAVE_SECONDS)]);
 
   const fetchTask = async () => {
     if (preloadedTask) return;
     setLoading(true);
     setError(null);
     try {
-      const data = await generateWritingTask();
+      const data = await generateWritingTask(profile, level);
       setTask(data);
     } catch (e: any) {
       console.error(e);
-      setError(e.message || "Failed to load writing task");
+      setError(t('writing.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -41,16 +70,23 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [preloadedTask]);
 
+  // Runs from the submit button and, with whatever has been written so far, when the timer expires.
+  // After a manual submit the clock keeps running until the evaluation succeeds, so a failed attempt
+  // doesn't give the learner extra untimed editing. On expiry the timer has already stopped and the
+  // text stays locked; if that evaluation fails, the button retries the same text.
   const handleSubmit = async () => {
-    if (!task || !userText.trim()) return;
+    if (!task) return;
     setEvaluating(true);
     setSubmissionError(null);
+    // The form is graded locally and locks straight away; only the email needs the evaluator
+    if (task.form) setFormGrade(gradeForm(task.form, formAnswers));
     try {
-      const evalResult = await evaluateWriting(task, userText);
+      const evalResult = userText.trim() ? await evaluateWriting(task, userText, level) : emptyTextResult();
+      setSecondsSpent(timer.stop());
       setResult(evalResult);
     } catch (e: any) {
       console.error(e);
-      setSubmissionError(e.message || "Failed to evaluate writing. Please try again.");
+      setSubmissionError(t('writing.evaluateFailed'));
     } finally {
       setEvaluating(false);
     }
@@ -69,8 +105,8 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
         ></lottie-player>
       </div>
       <div className="text-center space-y-2">
-        <h3 className="text-xl font-bold text-gray-800">Generating Writing Task...</h3>
-        <p className="text-gray-500">Creating a unique scenario for you to practice.</p>
+        <h3 className="text-xl font-bold text-gray-800">{t('writing.loading')}</h3>
+        <p className="text-gray-500">{t('writing.loadingHint')}</p>
       </div>
     </div>
   );
@@ -82,7 +118,7 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
             <AlertCircle className="w-10 h-10 text-red-500" />
         </div>
         <div>
-            <h3 className="text-2xl font-bold text-gray-800 mb-2">Something went wrong</h3>
+            <h3 className="text-2xl font-bold text-gray-800 mb-2">{t('common.somethingWrong')}</h3>
             <p className="text-gray-600 mb-6">{error}</p>
         </div>
         <button 
@@ -90,7 +126,7 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
             className="px-8 py-3 bg-brand-600 text-white rounded-full font-bold hover:bg-brand-700 transition-all shadow-lg hover:shadow-xl hover:-translate-y-1 flex items-center space-x-2"
         >
             <RotateCcw className="w-5 h-5" />
-            <span>Try Again</span>
+            <span>{t('common.tryAgain')}</span>
         </button>
       </div>
     );
@@ -98,22 +134,43 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
 
   if (!task) return null;
 
+  const setFormAnswer = (index: number, value: string) => {
+    const next = [...formAnswers];
+    next[index] = value;
+    setFormAnswers(next);
+  };
+
+  const totalScore = result && formGrade ? combineWritingScore(formGrade, result) : result?.score ?? 0;
+
+  const complete = () => {
+    if (!result) return;
+    collectCorrections('writing', userText, result.textCorrections);
+    onComplete(totalScore, secondsSpent, writingRawScore(formGrade, result), mergeSkillStats(formSkillStats(formGrade), correctionSkillStats(result.textCorrections)));
+  };
+
   return (
     <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
+      <ModuleTimer timer={timer} />
       <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
-        <h2 className="text-xl font-bold mb-2 text-brand-900">Schreiben (Writing)</h2>
+        <div className="flex items-baseline justify-between mb-2">
+          <h2 className="text-xl font-bold text-brand-900">{t('module.writing')}</h2>
+          <span className="text-sm text-gray-400">{profile.name} · {level} · {t('common.minutes', { minutes: profile.writing.minutes })}</span>
+        </div>
         <div className="bg-brand-50 p-4 rounded-lg border border-brand-100">
-          <h3 className="font-semibold text-brand-800">Topic: {task.topic}</h3>
+          <h3 className="font-semibold text-brand-800">{task.form ? `${t('common.part', { number: 2 })}: ${task.topic}` : t('common.topic', { topic: task.topic })}</h3>
           <p className="text-gray-700 mt-2">{task.instructions}</p>
         </div>
       </div>
 
+      {task.form && <FormPart form={task.form} answers={formAnswers} onChange={setFormAnswer} grade={formGrade} />}
+
       {!result ? (
         <div className="space-y-4">
           <textarea
             value={userText}
             onChange={(e) => setUserText(e.target.value)}
-            placeholder="Schreiben Sie Ihren Text hier..."
+            disabled={evaluating || timer.phase === 'expired'}
+            placeholder={t('writing.placeholder')}
             className="w-full h-48 p-4 rounded-xl border border-gray-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none resize-none shadow-sm"
           />
           
@@ -127,18 +184,18 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
           <div className="flex justify-end">
             <button
               onClick={handleSubmit}
-              disabled={evaluating || userText.length < 10}
+              disabled={evaluating || (userText.length < 10 && timer.phase !== 'expired')}
               className="flex items-center space-x-2 px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 disabled:opacity-50 transition-colors"
             >
               {evaluating ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin" />
-                  <span>Evaluating...</span>
+                  <span>{t('writing.evaluating')}</span>
                 </>
               ) : (
                 <>
                   <Send className="w-4 h-4" />
-                  <span>Submit for Grading</span>
+                  <span>{t('writing.submit')}</span>
                 </>
               )}
             </button>
@@ -148,21 +205,43 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
         <div className="space-y-6 animate-fade-in-up">
            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
             <div className="flex items-center justify-between mb-4">
-               <h3 className="text-lg font-bold text-gray-900">Evaluation Result</h3>
+               <h3 className="text-lg font-bold text-gray-900">{t('common.evaluationResult')}</h3>
                <div className="px-4 py-1 bg-brand-100 text-brand-800 rounded-full font-bold">
-                 Score: {result.score}/100
+                 {t('common.score', { score: totalScore })}
                </div>
             </div>
+
+            {formGrade && (
+              <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+                <div className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+                  <span className="text-gray-500">{t('writing.formPart')}</span>
+                  <p className="font-bold text-gray-800">{t('common.points', { points: formGrade.points, max: formGrade.maxPoints })}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+                  <span className="text-gray-500">{t('writing.emailPart')}</span>
+                  <p className="font-bold text-gray-800">{result.score}/100</p>
+                </div>
+              </div>
+            )}
             
             <div className="space-y-4">
               <div>
-                <h4 className="font-semibold text-gray-700">Feedback:</h4>
+                <h4 className="font-semibold text-gray-700">{t('common.feedback')}</h4>
                 <p className="text-gray-600">{result.feedback}</p>
               </div>
+
+              {result.criteria && <RubricTable criteria={result.criteria} contentPoints={result.contentPoints} />}
+
+              {result.textCorrections && (
+                <div>
+                  <h4 className="font-semibold text-gray-700 mb-2">{t('writing.yourText')}</h4>
+                  <MarkedText text={userText} corrections={result.textCorrections} />
+                </div>
+              )}
               
               {result.corrections && result.corrections.length > 0 && (
                 <div>
-                   <h4 className="font-semibold text-gray-700 mb-2">Corrections & Improvements:</h4>
+                   <h4 className="font-semibold text-gray-700 mb-2">{t('writing.corrections')}</h4>
                    <ul className="list-disc list-inside space-y-1 text-gray-600">
                      {result.corrections.map((c, i) => <li key={i}>{c}</li>)}
                    </ul>
@@ -173,10 +252,10 @@ const WritingModule: React.FC<Props> = ({ onComplete, preloadedTask }) => {
 
            <div className="flex justify-end">
              <button
-                onClick={() => onComplete(result.score)}
+                onClick={complete}
                 className="px-8 py-3 bg-gray-900 text-white rounded-lg font-semibold shadow-lg hover:bg-gray-800 transition-colors"
              >
-                Next Module
+                {completeLabel}
              </button>
            </div>
         </div>
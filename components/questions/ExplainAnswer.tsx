@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Question, ExplanationLanguage } from '../../types.ts';
+import { EXPLANATION_LANGUAGES } from '../../services/answerExplanations.ts';
+import { t } from '../../services/i18n.ts';
+import { Lightbulb, Quote, Loader2 } from 'lucide-react';
+
+interface Props {
+  question: Question;
+  language: ExplanationLanguage; // From the details form; the other languages are one click away
+  onExplain: (language: ExplanationLanguage) => Promise<void>; // Fetches and caches the explanation on the question
+}
+
+// "Explain" under a submitted question. Explanations already cached on the question are shown without a call.
+const ExplainAnswer: React.FC<Props> = ({ question, language: preferred, onExplain }) => {
+  const [language, setLanguage] = useState<ExplanationLanguage>(preferred);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const explanation = question.explanations?.[language];
+
+  const explain = async (target: ExplanationLanguage) => {
+    setLanguage(target);
+    setOpen(true);
+    setError(null);
+    if (question.explanations?.[target]) return;
+    setLoading(true);
+    try {
+      await onExplain(target);
+    } catch (e: any) {
+      console.error(e);
+      setError(t('explain.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => explain(preferred)} className="mt-4 flex items-center gap-2 text-sm font-semibold text-brand-600 hover:text-brand-800">
+        <Lightbulb className="w-4 h-4" />
+        <span>{t('explain.button')}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 rounded-lg bg-amber-50 border border-amber-100 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-semibold text-amber-800">
+          <Lightbulb className="w-4 h-4" />
+          <span>{t('explain.title')}</span>
+        </span>
+        <span className="flex gap-1">
+          {EXPLANATION_LANGUAGES.map(l => (
+            <button
+              key={l.id}
+              onClick={() => explain(l.id)}
+              disabled={loading}
+              className={`px-2 py-0.5 rounded-full text-xs ${l.id === language ? 'bg-amber-200 text-amber-900 font-bold' : 'text-amber-700 hover:bg-amber-100'}`}
+            >
+              {l.label}
+            </button>
+          ))}
+        </span>
+      </div>
+      {loading ? (
+        <p className="flex items-center gap-2 text-gray-500"><Loader2 className="w-4 h-4 animate-spin" />{t('explain.loading')}</p>
+      ) : error ? (
+        <p className="text-red-600">{error}</p>
+      ) : explanation && (
+        <>
+          <p className="text-gray-700">{explanation.text}</p>
+          {explanation.quote && (
+            <p className="flex gap-2 italic text-gray-600 border-l-2 border-amber-300 pl-3">
+              <Quote className="w-3 h-3 flex-shrink-0 mt-1" />
+              <span>{explanation.quote}</span>
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExplainAnswer;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Question, Answer, MultipleChoiceQuestion, TrueFalseQuestion, MatchingQuestion } from '../../types.ts';
+import { t } from '../../services/i18n.ts';
+import { CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+
+interface Props {
+  question: Question;
+  number: number;
+  answer: Answer | undefined;
+  onAnswer: (answer: Answer) => void;
+  submitted: boolean;
+  children?: React.ReactNode; // Shown under the question once it is submitted, e.g. the "Explain" action
+}
+
+const optionClass = (isSelected: boolean, isCorrect: boolean, submitted: boolean) => {
+  let className = "w-full text-left p-3 rounded-lg border transition-all ";
+  if (submitted) {
+    if (isCorrect) className += "bg-green-50 border-green-500 text-green-700";
+    else if (isSelected) className += "bg-red-50 border-red-500 text-red-700";
+    else className += "bg-gray-50 border-gray-200 text-gray-400";
+  } else {
+    if (isSelected) className += "bg-brand-100 border-brand-500 text-brand-800";
+    else className += "hover:bg-gray-50 border-gray-200 text-gray-700";
+  }
+  return className;
+};
+
+const OptionButton: React.FC<{ label: string, isSelected: boolean, isCorrect: boolean, submitted: boolean, onClick: () => void }> = ({ label, isSelected, isCorrect, submitted, onClick }) => (
+  <button onClick={onClick} className={optionClass(isSelected, isCorrect, submitted)} disabled={submitted}>
+    <div className="flex items-center justify-between">
+      <span>{label}</span>
+      {submitted && isCorrect && <CheckCircle className="w-5 h-5 text-green-600" />}
+      {submitted && isSelected && !isCorrect && <XCircle className="w-5 h-5 text-red-600" />}
+    </div>
+  </button>
+);
+
+const MultipleChoiceBody: React.FC<{ q: MultipleChoiceQuestion } & Omit<Props, 'question' | 'number'>> = ({ q, answer, onAnswer, submitted }) => (
+  <div className="space-y-2">
+    {q.options.map((opt, i) => (
+      <OptionButton key={i} label={opt} isSelected={answer === i} isCorrect={q.correctAnswerIndex === i} submitted={submitted} onClick={() => onAnswer(i)} />
+    ))}
+  </div>
+);
+
+const TrueFalseBody: React.FC<{ q: TrueFalseQuestion } & Omit<Props, 'question' | 'number'>> = ({ q, answer, onAnswer, submitted }) => (
+  <div className="grid grid-cols-2 gap-2">
+    {[true, false].map(value => (
+      <OptionButton key={String(value)} label={value ? 'Richtig' : 'Falsch'} isSelected={answer === value} isCorrect={q.correctAnswer === value} submitted={submitted} onClick={() => onAnswer(value)} />
+    ))}
+  </div>
+);
+
+const letter = (index: number) => (index === -1 ? '0' : String.fromCharCode(97 + index));
+
+const MatchingBody: React.FC<{ q: MatchingQuestion } & Omit<Props, 'question' | 'number'>> = ({ q, answer, onAnswer, submitted }) => {
+  const selections = Array.isArray(answer) ? answer : q.items.map(() => null);
+  const choose = (itemIndex: number, optionIndex: number) => {
+    const next = [...selections];
+    next[itemIndex] = optionIndex;
+    onAnswer(next);
+  };
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {q.options.map((opt, i) => (
+          <div key={i} className="p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-700">
+            <span className="font-bold text-brand-700 mr-2">{letter(i)}</span>{opt}
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3">
+        {q.items.map((item, itemIndex) => {
+          const selected = selections[itemIndex];
+          const isCorrect = selected === q.correctMatches[itemIndex];
+          return (
+            <div key={itemIndex} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border border-gray-100">
+              <span className="flex-1 text-gray-800">{itemIndex + 1}. {item}</span>
+              <select
+                value={selected === null || selected === undefined ? '' : String(selected)}
+                onChange={(e) => choose(itemIndex, parseInt(e.target.value, 10))}
+                disabled={submitted}
+                className={`px-3 py-2 rounded-lg border outline-none bg-white ${submitted ? (isCorrect ? 'border-green-500 text-green-700' : 'border-red-500 text-red-700') : 'border-gray-300 focus:ring-2 focus:ring-brand-500'}`}
+              >
+                <option value="" disabled>–</option>
+                {q.options.map((_, i) => <option key={i} value={i}>{letter(i)}</option>)}
+                <option value={-1}>0 (keine Anzeige)</option>
+              </select>
+              {submitted && !isCorrect && (
+                <span className="text-sm text-green-700 font-semibold">Richtig: {letter(q.correctMatches[itemIndex])}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const QuestionCard: React.FC<Props> = ({ question, number, children, ...rest }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 animate-fade-in-up">
+    <p className="font-semibold text-gray-800 mb-4">{number}. {question.text}</p>
+    {question.kind === 'multiple-choice' && <MultipleChoiceBody q={question} {...rest} />}
+    {question.kind === 'true-false' && <TrueFalseBody q={question} {...rest} />}
+    {question.kind === 'matching' && <MatchingBody q={question} {...rest} />}
+    {rest.submitted && question.flagged && (
+      <p className="mt-3 text-sm text-amber-700 flex items-center gap-2">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        <span>{t('question.uncertain')}</span>
+      </p>
+    )}
+    {rest.submitted && children}
+  </div>
+);
+
+export default QuestionCard;
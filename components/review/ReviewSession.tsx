@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Answer } from '../../types.ts';
+import { loadDeck, dueCards, reviewCard, removeCard, ReviewCard, ReviewGrade, DAILY_REVIEW_LIMIT } from '../../services/reviewDeck.ts';
+import { scoreQuestion, maxPoints } from '../../services/questionScoring.ts';
+import { skillLabel } from '../../services/skillTags.ts';
+import { t } from '../../services/i18n.ts';
+import QuestionCard from '../questions/QuestionCard.tsx';
+import { ArrowLeft, Layers, Quote, Eye, Trash2, CheckCircle } from 'lucide-react';
+
+interface Props {
+  onBack: () => void;
+}
+
+const GRADES: { grade: ReviewGrade, className: string }[] = [
+  { grade: 'again', className: 'border-red-200 text-red-700 hover:bg-red-50' },
+  { grade: 'hard', className: 'border-amber-200 text-amber-700 hover:bg-amber-50' },
+  { grade: 'good', className: 'border-green-200 text-green-700 hover:bg-green-50' },
+  { grade: 'easy', className: 'border-brand-200 text-brand-700 hover:bg-brand-50' }
+];
+
+// Today's due cards, one at a time. Questions are answered and checked; sentences are corrected in
+// the head, then revealed. Cards answered with "Again" come back once more at the end of the session.
+const ReviewSession: React.FC<Props> = ({ onBack }) => {
+  const [queue, setQueue] = useState<ReviewCard[]>(() => dueCards(loadDeck()));
+  const [position, setPosition] = useState(0);
+  const [answer, setAnswer] = useState<Answer | undefined>(undefined);
+  const [revealed, setRevealed] = useState(false);
+  const [repeated, setRepeated] = useState<Set<string>>(new Set());
+  const [reviewed, setReviewed] = useState(0);
+
+  const card = queue[position];
+
+  const next = () => {
+    setAnswer(undefined);
+    setRevealed(false);
+    setPosition(p => p + 1);
+  };
+
+  const grade = (value: ReviewGrade) => {
+    // Only the first answer of the day is scheduled; the repeat is practice
+    if (!repeated.has(card.id)) {
+      reviewCard(card.id, value);
+      setReviewed(n => n + 1);
+      if (value === 'again') {
+        setRepeated(prev => new Set(prev).add(card.id));
+        setQueue(prev => [...prev, card]);
+      }
+    }
+    next();
+  };
+
+  const remove = () => {
+    removeCard(card.id);
+    setQueue(prev => prev.filter((c, i) => i <= position || c.id !== card.id));
+    next();
+  };
+
+  const correct = card?.kind === 'question' && answer !== undefined && scoreQuestion(card.question, answer) === maxPoints(card.question);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in py-10 px-4">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-2 text-gray-600 hover:text-gray-900 font-semibold">
+          <ArrowLeft className="w-5 h-5" />
+          <span>{t('common.back')}</span>
+        </button>
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Layers className="w-6 h-6 text-brand-600" />
+          <span>{t('review.title')}</span>
+        </h2>
+        <span className="text-sm text-gray-500">{card ? `${position + 1} / ${queue.length}` : ''}</span>
+      </div>
+
+      {!card ? (
+        <div className="bg-white p-10 rounded-2xl shadow-sm border border-gray-100 text-center space-y-4">
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+          <p className="text-lg font-bold text-gray-900">{reviewed > 0 ? t('review.done', { count: reviewed }) : t('review.nothing')}</p>
+          <p className="text-sm text-gray-500">
+            {t('review.about', { limit: DAILY_REVIEW_LIMIT })}
+          </p>
+          <button onClick={onBack} className="px-8 py-3 bg-brand-600 text-white rounded-full font-bold hover:bg-brand-700 transition-all">{t('common.backHome')}</button>
+        </div>
+      ) : (
+        <div key={`${card.id}-${position}`} className="space-y-4">
+          <div className="flex items-center justify-between text-xs">
+            <span className="flex items-center gap-2">
+              <span className="px-2 py-0.5 rounded-full bg-brand-100 text-brand-700 font-bold uppercase">{t(`module.${card.module as ReviewCard['module']}`)}</span>
+              <span className="text-gray-500">{skillLabel(card.skill)}</span>
+              {card.kind === 'question' && card.question.theme && <span className="text-gray-400">· {card.question.theme}</span>}
+            </span>
+            <button onClick={remove} className="flex items-center gap-1 text-gray-400 hover:text-red-600" title={t('review.removeHint')}>
+              <Trash2 className="w-3 h-3" />
+              <span>{t('review.remove')}</span>
+            </button>
+          </div>
+
+          {card.kind === 'question' ? (
+            <>
+              {card.excerpt && (
+                <div className="bg-brand-50 p-4 rounded-lg border-l-4 border-brand-500 text-gray-700">
+                  <p className="text-xs font-bold uppercase text-gray-400 mb-1 flex items-center gap-1"><Quote className="w-3 h-3" />{card.partTitle}</p>
+                  <p>{card.excerpt}</p>
+                </div>
+              )}
+              <QuestionCard question={card.question} number={1} answer={answer} onAnswer={setAnswer} submitted={revealed} />
+              {!revealed ? (
+                <button
+                  onClick={() => setRevealed(true)}
+                  disabled={answer === undefined}
+                  className="w-full py-3 bg-brand-600 text-white rounded-lg font-semibold hover:bg-brand-700 disabled:opacity-50 transition-colors"
+                >
+                  {t('review.check')}
+                </button>
+              ) : correct ? (
+                <div className="grid grid-cols-3 gap-3">
+                  {GRADES.filter(g => g.grade !== 'again').map(g => (
+                    <button key={g.grade} onClick={() => grade(g.grade)} className={`py-3 rounded-lg border font-semibold transition-colors ${g.className}`}>{t(`review.grade.${g.grade}`)}</button>
+                  ))}
+                </div>
+              ) : (
+                <button onClick={() => grade('again')} className="w-full py-3 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors">
+                  {t('review.continue')}
+                </button>
+              )}
+            </>
+          ) : (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+              <p className="text-sm text-gray-500">{t('review.findMistakes', { count: card.corrections.length })}</p>
+              <p className="text-lg text-gray-800">{card.original}</p>
+              {!revealed ? (
+                <button onClick={() => setRevealed(true)} className="w-full py-3 bg-brand-600 text-white rounded-lg font-semibold hover:bg-brand-700 transition-colors flex items-center justify-center gap-2">
+                  <Eye className="w-5 h-5" />
+                  <span>{t('review.showCorrection')}</span>
+                </button>
+              ) : (
+                <>
+                  <p className="text-lg font-semibold text-green-700">{card.corrected}</p>
+                  <ul className="space-y-1 text-sm text-gray-600">
+                    {card.corrections.map((c, i) => (
+                      <li key={i}>
+                        <span className="line-through text-red-600">{c.original}</span>
+                        <span className="mx-2 text-gray-400">→</span>
+                        <span className="font-semibold text-green-700">{c.replacement}</span>
+                        {c.explanation && <span className="block text-gray-500">{c.explanation}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="grid grid-cols-4 gap-3 pt-2">
+                    {GRADES.map(g => (
+                      <button key={g.grade} onClick={() => grade(g.grade)} className={`py-3 rounded-lg border font-semibold transition-colors ${g.className}`}>{t(`review.grade.${g.grade}`)}</button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
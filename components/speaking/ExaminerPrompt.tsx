@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ExaminerTurn } from '../../types.ts';
+import { generateExaminerAudio } from '../../services/contentProvider.ts';
+import { decode, decodeAudioData } from '../../services/audioUtils.ts';
+import { t } from '../../services/i18n.ts';
+import { Volume2, Loader2, RotateCcw, UserRound } from 'lucide-react';
+
+interface Props {
+  turn: ExaminerTurn;
+  partTitle: string;
+}
+
+// Speaks the examiner's line as soon as the turn starts; the text stays visible and can be replayed.
+// If speech synthesis fails the turn simply continues with the written prompt.
+const ExaminerPrompt: React.FC<Props> = ({ turn, partTitle }) => {
+  const [audioState, setAudioState] = useState<'loading' | 'playing' | 'ready' | 'unavailable'>('loading');
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const bufferRef = useRef<AudioBuffer | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const play = async () => {
+    const ctx = audioContextRef.current;
+    if (!ctx || !bufferRef.current) return;
+    if (ctx.state === 'suspended') await ctx.resume();
+    sourceRef.current?.stop();
+    const source = ctx.createBufferSource();
+    source.buffer = bufferRef.current;
+    source.connect(ctx.destination);
+    source.onended = () => setAudioState('ready');
+    sourceRef.current = source;
+    setAudioState('playing');
+    source.start();
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    audioContextRef.current = ctx;
+    setAudioState('loading');
+    generateExaminerAudio(turn.prompt)
+      .then(base64 => decodeAudioData(decode(base64), ctx))
+      .then(buffer => {
+        if (cancelled) return;
+        bufferRef.current = buffer;
+        play();
+      })
+      .catch(e => {
+        console.warn("Examiner audio unavailable", e);
+        if (!cancelled) setAudioState('unavailable');
+      });
+    return () => {
+      cancelled = true;
+      if (sourceRef.current) sourceRef.current.onended = null;
+      sourceRef.current?.stop();
+      ctx.close();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [turn]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 space-y-4 animate-fade-in-up">
+      <div className="flex items-start gap-4">
+        <div className="w-12 h-12 rounded-full bg-brand-100 text-brand-700 flex items-center justify-center flex-shrink-0">
+          <UserRound className="w-6 h-6" />
+        </div>
+        <div className="flex-1 space-y-1">
+          <p className="text-xs font-bold uppercase text-gray-400">{partTitle}{turn.followUp ? ` · ${t('examiner.followUp')}` : ''}</p>
+          <p className="text-lg text-gray-800">{turn.prompt}</p>
+        </div>
+        <button
+          onClick={play}
+          disabled={audioState === 'loading' || audioState === 'unavailable' || audioState === 'playing'}
+          className="p-2 rounded-full text-brand-600 hover:bg-brand-50 disabled:opacity-40"
+          title={t('examiner.listenAgain')}
+        >
+          {audioState === 'loading' ? <Loader2 className="w-5 h-5 animate-spin" /> : audioState === 'playing' ? <Volume2 className="w-5 h-5 animate-pulse" /> : <RotateCcw className="w-5 h-5" />}
+        </button>
+      </div>
+      {turn.card && (
+        <div className="mx-auto max-w-xs p-4 rounded-lg border-2 border-brand-200 bg-brand-50 text-center font-semibold text-brand-900 shadow-sm">
+          {turn.card}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExaminerPrompt;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { EvaluationResult, SpeechNote } from '../../types.ts';
+import { skillLabel, correctionSkill } from '../../services/skillTags.ts';
+import { t } from '../../services/i18n.ts';
+import { FileText, Volume2 } from 'lucide-react';
+
+interface Props {
+  result: EvaluationResult;
+  recordingUrl?: string | null; // Learner's own recording, when they spoke rather than typed
+}
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const NOTE_STYLES: Record<SpeechNote['kind'], string> = {
+  pronunciation: 'bg-red-50 decoration-red-400',
+  fluency: 'bg-amber-50 decoration-amber-400'
+};
+
+// Transcript with the words that have notes underlined; hovering shows the note.
+const AnnotatedTranscript: React.FC<{ transcript: string, notes: SpeechNote[] }> = ({ transcript, notes }) => (
+  <p className="text-gray-700 leading-loose whitespace-pre-line">
+    {transcript.split(/(\s+)/).map((token, i) => {
+      const note = notes.find(n => normalize(n.word) === normalize(token) && normalize(token));
+      if (!note) return token;
+      return (
+        <span key={i} title={note.note} className={`underline decoration-2 decoration-dotted rounded px-0.5 cursor-help ${NOTE_STYLES[note.kind]}`}>{token}</span>
+      );
+    })}
+  </p>
+);
+
+const ScoreBar: React.FC<{ label: string, value: number }> = ({ label, value }) => (
+  <div className="flex-1">
+    <div className="flex justify-between text-sm mb-1">
+      <span className="text-gray-600">{label}</span>
+      <span className="font-bold text-gray-800">{value}/100</span>
+    </div>
+    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+      <div className="h-full bg-brand-500" style={{ width: `${value}%` }}></div>
+    </div>
+  </div>
+);
+
+const SpeechReview: React.FC<Props> = ({ result, recordingUrl }) => {
+  const notes = result.speechNotes || [];
+  return (
+    <div className="space-y-6">
+      {result.contentScore !== undefined && result.languageScore !== undefined && (
+        <div className="flex flex-col sm:flex-row gap-6">
+          <ScoreBar label={t('speech.content')} value={result.contentScore} />
+          <ScoreBar label={t('speech.language')} value={result.languageScore} />
+        </div>
+      )}
+
+      {recordingUrl && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2 flex items-center gap-2"><Volume2 className="w-4 h-4" />{t('speech.recording')}</h4>
+          <audio controls src={recordingUrl} className="w-full" />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2 flex items-center gap-2"><FileText className="w-4 h-4" />{t('speech.heard')}</h4>
+          {result.transcript
+            ? <AnnotatedTranscript transcript={result.transcript} notes={notes} />
+            : <p className="text-sm text-gray-400">{t('speech.noTranscript')}</p>}
+        </div>
+        <div className="space-y-4">
+          {result.textCorrections && result.textCorrections.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-2">{t('speech.corrections')}</h4>
+              <ul className="space-y-2 text-sm">
+                {result.textCorrections.map((c, i) => (
+                  <li key={i} className="text-gray-600">
+                    <span className="line-through text-red-600">{c.original}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <span className="font-semibold text-green-700">{c.replacement}</span>
+                    <span className="ml-2 text-xs uppercase text-gray-400">{skillLabel(correctionSkill(c))}</span>
+                    {c.explanation && <span className="block text-gray-500">{c.explanation}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.corrections && result.corrections.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-2">{t('speech.suggestions')}</h4>
+              <ul className="list-disc list-inside space-y-1 text-gray-600">
+                {result.corrections.map((c, i) => <li key={i}>{c}</li>)}
+              </ul>
+            </div>
+          )}
+          {notes.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-2">{t('speech.notes')}</h4>
+              <ul className="space-y-1 text-sm">
+                {notes.map((n, i) => (
+                  <li key={i} className="text-gray-600">
+                    <span className={`font-semibold rounded px-1 mr-2 ${NOTE_STYLES[n.kind]}`}>{n.word}</span>
+                    <span className="text-xs uppercase text-gray-400 mr-2">{t(`speech.kind.${n.kind as SpeechNote['kind']}`)}</span>
+                    {n.note}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechReview;
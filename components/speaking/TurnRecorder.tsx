@@ -0,0 +1,244 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Loader2, Mic, Square, Send, AlertCircle, Keyboard } from 'lucide-react';
+import { t } from '../../services/i18n';
+
+export interface TurnAnswer {
+  blob?: Blob;
+  text?: string;
+}
+
+interface Props {
+  onSubmit: (answer: TurnAnswer) => void;
+  busy: boolean;
+  textMode: boolean; // Typed answers instead of the microphone; kept across turns by the parent
+  onTextModeChange: (textMode: boolean) => void;
+  timeUp?: boolean; // Time is over: a running recording is stopped and the answer so far is handed in, possibly empty
+}
+
+// Records (or takes a typed) answer to one examiner turn. Mount with a new key per turn to reset it.
+const TurnRecorder: React.FC<Props> = ({ onSubmit, busy, textMode, onTextModeChange, timeUp = false }) => {
+  const [recording, setRecording] = useState(false);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [textInput, setTextInput] = useState("");
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const unmountedRef = useRef(false);
+  // Set when time runs out mid-recording, so the stopped recording is submitted as soon as it is ready
+  const handInRef = useRef(false);
+  const onSubmitRef = useRef(onSubmit);
+  onSubmitRef.current = onSubmit;
+  const chunksRef = useRef<BlobPart[]>([]);
+
+  const recordingUrl = useMemo(() => (audioBlob ? URL.createObjectURL(audioBlob) : null), [audioBlob]);
+  useEffect(() => () => { if (recordingUrl) URL.revokeObjectURL(recordingUrl); }, [recordingUrl]);
+
+  // Leaving mid-recording (auto-submit, the header, a finished turn) must not leave the microphone on
+  useEffect(() => () => {
+    unmountedRef.current = true;
+    const recorder = mediaRecorderRef.current;
+    if (recorder) {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        throw new Error("Your browser does not support audio recording.");
+      }
+
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // The permission prompt can outlast the component
+      if (unmountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      mediaRecorderRef.current = new MediaRecorder(stream);
+      
+      mediaRecorderRef.current.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+
+      mediaRecorderRef.current.onstop = () => {
+        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        setAudioBlob(blob);
+        chunksRef.current = [];
+        // Stop all tracks to release microphone
+        stream.getTracks().forEach(track => track.stop());
+        if (handInRef.current) onSubmitRef.current(blob.size > 0 ? { blob } : {});
+      };
+
+      mediaRecorderRef.current.start();
+      setRecording(true);
+    } catch (err: any) {
+      setRecording(false);
+      
+      let errorMessage = t('recorder.noAccess');
+      
+      if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError' || (err.message && err.message.toLowerCase().includes('permission denied'))) {
+        errorMessage = t('recorder.denied');
+        // Don't console.error for expected permission denials to keep logs clean
+        console.warn("Microphone access denied by user.");
+      } else if (err.name === 'NotFoundError') {
+        errorMessage = t('recorder.notFound');
+      } else {
+        console.error("Microphone Access Error:", err);
+      }
+      
+      setError(errorMessage);
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && recording) {
+      mediaRecorderRef.current.stop();
+      setRecording(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!timeUp) return;
+    if (recording && mediaRecorderRef.current) {
+      handInRef.current = true;
+      stopRecording();
+    } else if (textMode) {
+      onSubmit(textInput.trim() ? { text: textInput } : {});
+    } else {
+      onSubmit(audioBlob ? { blob: audioBlob } : {});
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeUp]);
+
+  const handleSubmit = () => {
+    if (textMode) {
+      if (textInput.trim()) onSubmit({ text: textInput });
+    } else if (audioBlob) {
+      onSubmit({ blob: audioBlob });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && !textMode && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-4 rounded-lg flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+             <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+             <div>
+                <p className="font-semibold">{error}</p>
+                <p className="text-sm mt-1">{t('recorder.checkSettings')}</p>
+             </div>
+          </div>
+          <button 
+            onClick={() => { setError(null); onTextModeChange(true); }}
+            className="text-sm bg-white border border-red-300 px-3 py-1 rounded hover:bg-red-50 transition-colors"
+          >
+            {t('recorder.typeInstead')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col items-center space-y-6 py-10 bg-white rounded-xl border border-dashed border-gray-300 transition-all relative overflow-hidden">
+        {!textMode ? (
+          <>
+              {!audioBlob && !recording && (
+                  <p className="text-gray-500 z-10">{t('recorder.start')}</p>
+              )}
+
+              {audioBlob && !recording && (
+                  <div className="w-full max-w-sm z-10">
+                      <audio controls src={recordingUrl || undefined} className="w-full" />
+                      <button 
+                      onClick={() => setAudioBlob(null)} 
+                      className="text-sm text-red-500 mt-2 hover:underline w-full text-center"
+                      >
+                      {t('recorder.recordAgain')}
+                      </button>
+                  </div>
+              )}
+
+              {!audioBlob && (
+                  <div className="relative">
+                      {recording && (
+                           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 -z-10 flex items-center justify-center">
+                              <div className="w-32 h-32 bg-red-100 rounded-full animate-pulse-ring"></div>
+                              <div className="w-32 h-32 bg-red-100 rounded-full animate-pulse-ring delay-300"></div>
+                           </div>
+                      )}
+                      <button
+                          onClick={recording ? stopRecording : startRecording}
+                          className={`
+                              flex items-center justify-center w-24 h-24 rounded-full transition-all shadow-xl z-10 relative
+                              ${recording ? 'bg-red-500 animate-pulse' : 'bg-brand-600 hover:bg-brand-700'}
+                          `}
+                      >
+                          {recording ? (
+                              <Square className="w-10 h-10 text-white" fill="currentColor" />
+                          ) : (
+                              <Mic className="w-10 h-10 text-white" />
+                          )}
+                      </button>
+                  </div>
+              )}
+
+              {!audioBlob && !recording && (
+                  <button 
+                      onClick={() => onTextModeChange(true)}
+                      className="flex items-center space-x-2 text-gray-400 hover:text-brand-600 transition-colors mt-4 text-sm z-10"
+                  >
+                      <Keyboard className="w-4 h-4" />
+                      <span>{t('recorder.cantSpeak')}</span>
+                  </button>
+              )}
+          </>
+        ) : (
+          <div className="w-full max-w-xl px-6 z-10">
+              <div className="flex justify-between items-center mb-2">
+                  <label className="text-sm font-medium text-gray-700">{t('recorder.typeLabel')}</label>
+                  <button 
+                      onClick={() => onTextModeChange(false)}
+                      className="text-sm text-brand-600 hover:underline"
+                  >
+                      {t('recorder.useMicrophone')}
+                  </button>
+              </div>
+              <textarea
+                  value={textInput}
+                  onChange={(e) => setTextInput(e.target.value)}
+                  placeholder={t('recorder.typePlaceholder')}
+                  className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none resize-none"
+              />
+          </div>
+        )}
+
+        {(audioBlob || (textMode && textInput.length > 0)) && (
+            <button
+            onClick={handleSubmit}
+            disabled={busy}
+            className="flex items-center space-x-2 px-8 py-3 bg-brand-600 text-white rounded-lg font-semibold shadow-lg hover:bg-brand-700 disabled:opacity-50 transition-colors z-10"
+          >
+            {busy ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>{t('recorder.listening')}</span>
+              </>
+            ) : (
+              <>
+                <Send className="w-4 h-4" />
+                <span>{t('recorder.submit')}</span>
+              </>
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TurnRecorder;
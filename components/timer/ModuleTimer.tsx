@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { ModuleTimer as Timer } from './useModuleTimer.ts';
+import { formatTime, TimerPhase } from '../../services/examTimer.ts';
+import { t, MessageKey } from '../../services/i18n.ts';
+import { Clock, AlertTriangle, X } from 'lucide-react';
+
+interface Props {
+  timer: Timer;
+}
+
+const PHASE_CLASSES: Record<TimerPhase, string> = {
+  running: 'bg-white text-gray-700 border-gray-200',
+  warning: 'bg-amber-50 text-amber-800 border-amber-300',
+  critical: 'bg-red-50 text-red-700 border-red-300 animate-pulse',
+  expired: 'bg-red-600 text-white border-red-600'
+};
+
+const WARNINGS: Partial<Record<TimerPhase, MessageKey>> = {
+  warning: 'timer.warning',
+  critical: 'timer.critical',
+  expired: 'timer.expired'
+};
+
+// Countdown pill below the header, plus a dismissible banner each time the timer enters a new phase.
+const ModuleTimer: React.FC<Props> = ({ timer }) => {
+  const [dismissed, setDismissed] = useState<TimerPhase | null>(null);
+  const { phase, remaining, elapsed, running } = timer;
+
+  useEffect(() => setDismissed(null), [phase]);
+
+  if (!running && phase !== 'expired') return null;
+  const warning = WARNINGS[phase];
+
+  return (
+    <div className="fixed top-20 right-4 z-40 flex flex-col items-end gap-2 max-w-xs">
+      <div className={`flex items-center gap-2 px-4 py-2 rounded-full border shadow-md font-mono font-bold ${PHASE_CLASSES[phase]}`}>
+        <Clock className="w-4 h-4" />
+        <span>{remaining === null ? formatTime(elapsed) : formatTime(remaining)}</span>
+      </div>
+      {remaining !== null && warning && dismissed !== phase && (
+        <div className="flex items-start gap-2 p-3 rounded-lg border bg-white shadow-lg text-sm text-gray-700 animate-fade-in">
+          <AlertTriangle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${phase === 'warning' ? 'text-amber-500' : 'text-red-500'}`} />
+          <span className="flex-1">{t(warning)}</span>
+          <button onClick={() => setDismissed(phase)} className="text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModuleTimer;
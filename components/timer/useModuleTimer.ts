@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef } from 'react';
+import { timerPhase, TimerPhase } from '../../services/examTimer.ts';
+
+export interface ModuleTimer {
+  elapsed: number; // Seconds since the module started
+  remaining: number | null; // null when the module is untimed
+  phase: TimerPhase;
+  running: boolean; // Started and not yet stopped
+  stopped: boolean;
+  stop: () => number; // Freezes the clock and returns the seconds spent
+}
+
+// Wall-clock timer for one module. It starts the first time `started` is true, so loading time is not
+// counted, and when the limit is reached stops the clock and calls onExpire once. A limit of 0 only measures time spent.
+// A resumed module passes the seconds it had already used.
+export const useModuleTimer = (limitSeconds: number, started: boolean, onExpire: () => void, alreadySpent = 0): ModuleTimer => {
+  const [now, setNow] = useState(Date.now());
+  const startRef = useRef<number | null>(null);
+  const stoppedAtRef = useRef<number | null>(null);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  if (started && startRef.current === null) startRef.current = Date.now() - alreadySpent * 1000;
+
+  const secondsAt = (time: number) => (startRef.current === null ? 0 : (time - startRef.current) / 1000);
+  const elapsed = secondsAt(stoppedAtRef.current ?? now);
+  const remaining = limitSeconds > 0 ? Math.max(0, limitSeconds - elapsed) : null;
+  const phase = remaining === null ? 'running' : timerPhase(remaining, limitSeconds);
+
+  const stop = () => {
+    if (stoppedAtRef.current === null) stoppedAtRef.current = Date.now();
+    setNow(stoppedAtRef.current);
+    return Math.round(secondsAt(stoppedAtRef.current));
+  };
+
+  useEffect(() => {
+    if (!started) return;
+    const timer = setInterval(() => {
+      if (stoppedAtRef.current === null) setNow(Date.now());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [started]);
+
+  useEffect(() => {
+    if (phase !== 'expired' || stoppedAtRef.current !== null) return;
+    stop();
+    onExpireRef.current();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase]);
+
+  const stopped = stoppedAtRef.current !== null;
+  return { elapsed, remaining, phase, running: startRef.current !== null && !stopped, stopped, stop };
+};
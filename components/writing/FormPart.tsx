@@ -0,0 +1,61 @@
+import React from 'react';
+import { FormTask } from '../../types';
+import { FormGrade } from '../../services/formGrading';
+import { t } from '../../services/i18n';
+import { CheckCircle, XCircle, ClipboardList } from 'lucide-react';
+
+interface Props {
+  form: FormTask;
+  answers: string[];
+  onChange: (index: number, value: string) => void;
+  grade: FormGrade | null; // Set after submission: inputs lock and each field shows its result
+}
+
+const inputClass = (graded: boolean, correct: boolean) =>
+  `flex-1 px-3 py-2 rounded-lg border outline-none bg-white ${graded ? (correct ? 'border-green-500 text-green-700' : 'border-red-500 text-red-700') : 'border-gray-300 focus:ring-2 focus:ring-brand-500'}`;
+
+// Schreiben Teil 1: the source text next to the form the learner fills in from it.
+const FormPart: React.FC<Props> = ({ form, answers, onChange, grade }) => (
+  <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 space-y-4">
+    <div className="flex items-center justify-between">
+      <h3 className="font-bold text-gray-900 flex items-center gap-2">
+        <ClipboardList className="w-5 h-5 text-brand-600" />
+        <span>{t('writing.formPart')}</span>
+      </h3>
+      {grade && <span className="text-sm font-bold text-brand-800">{t('common.points', { points: grade.points, max: grade.maxPoints })}</span>}
+    </div>
+    <p className="text-gray-700">{form.instructions}</p>
+    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-gray-800 leading-relaxed">{form.sourceText}</div>
+    <div className="space-y-3">
+      {form.fields.map((field, i) => {
+        const result = grade?.fields[i];
+        return (
+          <div key={i} className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <label className="sm:w-48 text-sm font-semibold text-gray-700">{field.label}</label>
+            {field.kind === 'choice' && field.options ? (
+              <select value={answers[i] || ''} onChange={(e) => onChange(i, e.target.value)} disabled={!!grade} className={inputClass(!!grade, !!result?.correct)}>
+                <option value="" disabled>–</option>
+                {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={answers[i] || ''}
+                onChange={(e) => onChange(i, e.target.value)}
+                disabled={!!grade}
+                placeholder={field.kind === 'date' ? 'TT.MM.JJJJ' : ''}
+                className={inputClass(!!grade, !!result?.correct)}
+              />
+            )}
+            {result && (result.correct
+              ? <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+              : <span className="flex items-center gap-1 text-sm text-green-700 font-semibold flex-shrink-0"><XCircle className="w-5 h-5 text-red-600" />{field.expected}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default FormPart;
@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TextCorrection, ErrorCategory } from '../../types.ts';
+import { ERROR_CATEGORIES } from '../../services/textCorrections.ts';
+import { skillLabel, correctionSkill } from '../../services/skillTags.ts';
+import { t } from '../../services/i18n.ts';
+import { ChevronLeft, ChevronRight, CheckCircle } from 'lucide-react';
+
+interface Props {
+  text: string;
+  corrections: TextCorrection[]; // Sorted by position, non-overlapping
+}
+
+// The learner's text with each error marked in place; the arrows step through the errors in order.
+const MarkedText: React.FC<Props> = ({ text, corrections }) => {
+  const [selected, setSelected] = useState(0);
+  const markRefs = useRef<(HTMLElement | null)[]>([]);
+
+  useEffect(() => {
+    markRefs.current[selected]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selected]);
+
+  if (corrections.length === 0) {
+    return (
+      <div className="space-y-2">
+        <p className="p-4 rounded-lg bg-gray-50 border border-gray-200 text-gray-700 whitespace-pre-wrap">{text}</p>
+        <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircle className="w-4 h-4" />{t('marked.noErrors')}</p>
+      </div>
+    );
+  }
+
+  const segments: React.ReactNode[] = [];
+  let position = 0;
+  corrections.forEach((c, i) => {
+    if (c.start > position) segments.push(text.slice(position, c.start));
+    segments.push(
+      <mark
+        key={i}
+        ref={el => { markRefs.current[i] = el; }}
+        onClick={() => setSelected(i)}
+        className={`cursor-pointer rounded px-0.5 text-inherit underline decoration-2 decoration-wavy ${ERROR_CATEGORIES[c.category].color} ${i === selected ? 'ring-2 ring-brand-400' : ''}`}
+      >
+        {text.slice(c.start, c.end)}
+      </mark>
+    );
+    position = c.end;
+  });
+  segments.push(text.slice(position));
+
+  const current = corrections[selected];
+  return (
+    <div className="space-y-3">
+      <p className="p-4 rounded-lg bg-gray-50 border border-gray-200 text-gray-700 whitespace-pre-wrap leading-loose max-h-64 overflow-y-auto">{segments}</p>
+      <div className="p-4 rounded-lg border border-gray-200 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <span className={`text-xs font-bold uppercase px-2 py-0.5 rounded ${ERROR_CATEGORIES[current.category].color}`}>{t(`errorCategory.${current.category as ErrorCategory}`)}</span>
+            <span className="text-xs text-gray-400">{t('marked.skill', { skill: skillLabel(correctionSkill(current)) })}</span>
+          </span>
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <button onClick={() => setSelected(i => Math.max(0, i - 1))} disabled={selected === 0} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>{t('marked.position', { current: selected + 1, total: corrections.length })}</span>
+            <button onClick={() => setSelected(i => Math.min(corrections.length - 1, i + 1))} disabled={selected === corrections.length - 1} className="p-1 rounded hover:bg-gray-100 disabled:opacity-30">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <p>
+          <span className="line-through text-red-600">{current.original}</span>
+          <span className="mx-2 text-gray-400">→</span>
+          <span className="font-semibold text-green-700">{current.replacement}</span>
+        </p>
+        {current.explanation && <p className="text-sm text-gray-600">{current.explanation}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MarkedText;
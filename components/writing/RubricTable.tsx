@@ -0,0 +1,76 @@
+import React from 'react';
+import { CriterionScore, ContentPointCheck } from '../../types.ts';
+import { getCriterion } from '../../services/writingRubric.ts';
+import { t } from '../../services/i18n.ts';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+interface Props {
+  criteria: CriterionScore[];
+  contentPoints?: ContentPointCheck[];
+}
+
+const RubricTable: React.FC<Props> = ({ criteria, contentPoints }) => {
+  const total = criteria.reduce((sum, c) => sum + c.score, 0);
+  const max = criteria.reduce((sum, c) => sum + c.maxScore, 0);
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600 text-left">
+            <tr>
+              <th className="px-4 py-2 font-semibold">{t('rubric.criterion')}</th>
+              <th className="px-4 py-2 font-semibold text-center">{t('rubric.points')}</th>
+              <th className="px-4 py-2 font-semibold">{t('rubric.comment')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {criteria.map(c => {
+              const def = getCriterion(c.id);
+              return (
+                <tr key={c.id}>
+                  <td className="px-4 py-3 align-top">
+                    <span className="block font-semibold text-gray-800">{t(`criterion.${def.id}`)}</span>
+                    <span className="block text-xs text-gray-400">{t(`criterion.${def.id}.desc`)}</span>
+                  </td>
+                  <td className="px-4 py-3 align-top text-center">
+                    <span className={`font-bold ${c.score >= c.maxScore / 2 ? 'text-green-700' : 'text-red-600'}`}>{c.score}</span>
+                    <span className="text-gray-400">/{c.maxScore}</span>
+                  </td>
+                  <td className="px-4 py-3 align-top text-gray-600">{c.comment}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50 font-bold text-gray-800">
+            <tr>
+              <td className="px-4 py-2">{t('rubric.total')}</td>
+              <td className="px-4 py-2 text-center">{total}/{max}</td>
+              <td></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {contentPoints && contentPoints.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">{t('rubric.contentPoints')}</h4>
+          <ul className="space-y-2">
+            {contentPoints.map((p, i) => (
+              <li key={i} className="flex items-start gap-2 text-sm">
+                {p.covered
+                  ? <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                  : <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />}
+                <span className="text-gray-700">
+                  {p.point}
+                  {p.evidence && <span className="block text-gray-400 italic">„{p.evidence}“</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RubricTable;
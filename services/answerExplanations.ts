@@ -0,0 +1,60 @@
+import { Question, TestPart, ExplanationLanguage, AnswerExplanation } from "../types.ts";
+import { splitSentences } from "./transcriptTiming.ts";
+
+// "Explain" for submitted Reading and Listening questions: what the correct answer is, the passage
+// sentence that supports it, and where the explanations are cached (on the question itself).
+
+export const EXPLANATION_LANGUAGES: { id: ExplanationLanguage, label: string }[] = [
+  { id: 'English', label: 'English' },
+  { id: 'Malayalam', label: 'മലയാളം' },
+  { id: 'Tamil', label: 'தமிழ்' }
+];
+
+// The details form also offers "Other"; those learners get English
+export const explanationLanguageFor = (preferred: string): ExplanationLanguage =>
+  EXPLANATION_LANGUAGES.some(l => l.id === preferred) ? preferred as ExplanationLanguage : 'English';
+
+const letter = (index: number) => (index === -1 ? '0' : String.fromCharCode(97 + index));
+
+export const correctAnswerLabel = (q: Question): string => {
+  switch (q.kind) {
+    case 'multiple-choice':
+      return q.options[q.correctAnswerIndex];
+    case 'true-false':
+      return q.correctAnswer ? 'Richtig' : 'Falsch';
+    case 'matching':
+      return q.items.map((item, i) => `${i + 1}. ${item} → ${letter(q.correctMatches[i])}`).join('; ');
+  }
+};
+
+const stems = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 3 || /\d/.test(w)).map(w => w.slice(0, 5)));
+
+export const passageSentences = (part: TestPart) => part.content.split('\n').flatMap(splitSentences);
+
+// The sentence of the passage sharing the most words with the question and its answer
+export const excerptFor = (part: TestPart, question: Question, answerText = ''): string => {
+  const wanted = stems(`${question.text} ${answerText}`);
+  let best = '';
+  let bestScore = 0;
+  passageSentences(part).forEach(sentence => {
+    const score = [...stems(sentence)].filter(s => wanted.has(s)).length;
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// A quote only counts when it really is in the passage; otherwise the best matching sentence is used
+export const verifiedQuote = (part: TestPart, question: Question, quote: string): string =>
+  quote && squash(part.content).includes(squash(quote)) ? squash(quote) : excerptFor(part, question, correctAnswerLabel(question));
+
+export const withExplanation = (parts: TestPart[], questionId: string, language: ExplanationLanguage, explanation: AnswerExplanation): TestPart[] =>
+  parts.map(part => ({
+    ...part,
+    questions: part.questions.map(q => (q.id === questionId ? { ...q, explanations: { ...q.explanations, [language]: explanation } } : q))
+  }));
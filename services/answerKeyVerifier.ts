@@ -0,0 +1,122 @@
+import { Question, TestPart, ValidationReport } from "../types.ts";
+
+// Compares the generated answer key with an independent second pass over the same text.
+// The second pass is produced by the content provider; this module only decides what to do with it.
+
+export interface AnswerVerdict {
+  id: string;
+  answerIndex: number; // Option the verifier picked on its own
+  defensibleOptions: number[]; // Every option the text supports
+  confidence: number; // 0-1, how sure the verifier is of its own answer
+}
+
+// "flag" keeps disputed questions but excludes them from scoring;
+// "regenerate" first asks for a fresh part and only flags what is still disputed afterwards.
+export type VerificationMode = 'off' | 'flag' | 'regenerate';
+
+export const getVerificationMode = (): VerificationMode => {
+  const mode = (process.env.VERIFY_ANSWER_KEYS || '').toLowerCase();
+  if (mode === 'flag' || mode === 'regenerate') return mode;
+  if (mode === 'true' || mode === '1') return 'flag';
+  return 'off';
+};
+
+const clamp01 = (value: number) => (Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0);
+
+// Verifiable questions as a plain list of options plus the keyed index. Richtig/Falsch items are
+// presented as two options; matching tasks are not verified.
+export const asChoice = (q: Question): { options: string[], correctIndex: number } | null => {
+  switch (q.kind) {
+    case 'multiple-choice':
+      return { options: q.options, correctIndex: q.correctAnswerIndex };
+    case 'true-false':
+      return { options: ['Richtig', 'Falsch'], correctIndex: q.correctAnswer ? 0 : 1 };
+    case 'matching':
+      return null;
+  }
+};
+
+// Drops verdicts the model returned in the wrong shape; a question without a verdict stays unverified
+const sanitizeVerdicts = (raw: unknown): AnswerVerdict[] => {
+  if (!Array.isArray(raw)) throw new Error('verdicts are not a list');
+  return raw
+    .filter(v => v && typeof v === 'object' && typeof v.id === 'string' && Number.isInteger(v.answerIndex))
+    .map(v => ({
+      id: v.id,
+      answerIndex: v.answerIndex,
+      defensibleOptions: Array.isArray(v.defensibleOptions) ? v.defensibleOptions.filter(Number.isInteger) : [v.answerIndex],
+      confidence: Number(v.confidence)
+    }));
+};
+
+// Returns a copy of the part with confidence and flags set, plus the ids of disputed questions.
+export const applyVerdicts = (part: TestPart, verdicts: AnswerVerdict[], report: ValidationReport): { part: TestPart, disputed: string[] } => {
+  const disputed: string[] = [];
+  const questions = part.questions.map(q => {
+    const choice = asChoice(q);
+    if (!choice) return q;
+    const verdict = verdicts.find(v => v.id === q.id);
+    // Only an explicit disagreement flags a question; ids the verifier skipped or mangled stay scored
+    if (!verdict) {
+      report.fixes.push(`${q.id}: no verification verdict, left unverified`);
+      return q;
+    }
+    const agrees = verdict.answerIndex === choice.correctIndex;
+    const defensible = verdict.defensibleOptions.filter(i => i >= 0 && i < choice.options.length);
+    const unambiguous = defensible.length === 1 && defensible[0] === choice.correctIndex;
+    const confidence = clamp01(agrees ? verdict.confidence : 1 - verdict.confidence) * (unambiguous ? 1 : 0.5);
+    if (agrees && unambiguous) return { ...q, confidence, flagged: false };
+
+    disputed.push(q.id);
+    const reason = !agrees
+      ? `verifier chose option ${verdict.answerIndex + 1}, key says ${choice.correctIndex + 1}`
+      : `${defensible.length} options are defensible`;
+    report.fixes.push(`${q.id}: answer key disputed (${reason}), flagged`);
+    return { ...q, confidence, flagged: true };
+  });
+  return { part: { ...part, questions }, disputed };
+};
+
+// Runs the verification pass over every part. In "regenerate" mode a part with disputed questions
+// is replaced once by a fresh one when that comes back with fewer disputes.
+export const verifyAnswerKeys = async (
+  parts: TestPart[],
+  mode: VerificationMode,
+  fetchVerdicts: (part: TestPart) => Promise<AnswerVerdict[]>,
+  regeneratePart: (index: number) => Promise<TestPart | null>,
+  report: ValidationReport
+): Promise<TestPart[]> => {
+  if (mode === 'off') return parts;
+  // The check is optional: when the verifier fails, the part is used as generated and the report says so
+  const tryVerdicts = async (part: TestPart): Promise<AnswerVerdict[] | null> => {
+    try {
+      return sanitizeVerdicts(await fetchVerdicts(part));
+    } catch (e: any) {
+      console.warn(`Answer-key check failed for ${part.id}`, e);
+      report.fixes.push(`${part.id}: answer-key check failed (${e?.message ?? e}), left unverified`);
+      return null;
+    }
+  };
+  return Promise.all(parts.map(async (original, index) => {
+    const verdicts = await tryVerdicts(original);
+    if (!verdicts) return original;
+    const checked = applyVerdicts(original, verdicts, report);
+    if (mode !== 'regenerate' || checked.disputed.length === 0) return checked.part;
+
+    let replacement: TestPart | null;
+    try {
+      replacement = await regeneratePart(index);
+    } catch (e: any) {
+      console.warn(`Regenerating part ${index + 1} for the answer-key check failed`, e);
+      report.fixes.push(`${original.id}: regeneration after disputed answer keys failed (${e?.message ?? e})`);
+      return checked.part;
+    }
+    if (!replacement) return checked.part;
+    const replacementVerdicts = await tryVerdicts(replacement);
+    if (!replacementVerdicts) return checked.part;
+    const rechecked = applyVerdicts(replacement, replacementVerdicts, report);
+    if (rechecked.disputed.length >= checked.disputed.length) return checked.part;
+    report.regeneratedParts.push(index);
+    return rechecked.part;
+  }));
+};
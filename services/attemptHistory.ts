@@ -0,0 +1,81 @@
+import { ModuleKey, ExamProfileId, CefrLevel } from "../types.ts";
+import { MODULE_KEYS } from "./examTimer.ts";
+import { mergeSkillStats, SkillStats } from "./skillTags.ts";
+
+// Finished attempts kept in localStorage so students and tutors can follow progress over time.
+// Full mock tests and single-module practice runs are stored side by side; practice records only
+// carry the module that was taken.
+
+const HISTORY_KEY = 'mock-test-history';
+const MAX_ATTEMPTS = 100;
+// The cross-attempt weakness report looks at recent attempts only, so skills that improved drop out
+export const REPORT_ATTEMPTS = 10;
+
+export interface AttemptRecord {
+  id: string;
+  completedAt: number; // ms timestamp
+  examProfileId: ExamProfileId;
+  level: CefrLevel;
+  practiceModule?: ModuleKey; // Set for practice runs
+  scores: Partial<Record<ModuleKey, number>>; // Percent per module
+  timeSpent: Partial<Record<ModuleKey, number>>; // Seconds per module
+  points?: number; // Exam points, full mock tests only
+  maxPoints?: number;
+  passed?: boolean;
+  skills?: SkillStats; // Per-skill counts across the modules taken
+}
+
+export interface SkillTrend {
+  module: ModuleKey;
+  series: { completedAt: number, score: number }[]; // Oldest first
+  best: number | null;
+  latest: number | null;
+}
+
+export const loadHistory = (): AttemptRecord[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Attempt history could not be read", e);
+    return [];
+  }
+};
+
+// Stores the attempt and returns the updated history; the oldest attempts go first when it is full
+export const saveAttempt = (attempt: Omit<AttemptRecord, 'id' | 'completedAt'>): AttemptRecord[] => {
+  const record: AttemptRecord = { ...attempt, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, completedAt: Date.now() };
+  const history = [...loadHistory(), record].slice(-MAX_ATTEMPTS);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (e) {
+    console.warn("Attempt could not be saved to history", e);
+  }
+  return history;
+};
+
+export const clearHistory = () => localStorage.removeItem(HISTORY_KEY);
+
+export const skillTrends = (history: AttemptRecord[]): SkillTrend[] =>
+  MODULE_KEYS.map(module => {
+    const series = history
+      .filter(a => typeof a.scores[module] === 'number')
+      .map(a => ({ completedAt: a.completedAt, score: Math.round(a.scores[module]!) }));
+    return {
+      module,
+      series,
+      best: series.length ? Math.max(...series.map(p => p.score)) : null,
+      latest: series.length ? series[series.length - 1].score : null
+    };
+  });
+
+// The full mock test taken before `attempt`, for the comparison on the results screen
+export const previousMockAttempt = (history: AttemptRecord[], attempt: AttemptRecord): AttemptRecord | null => {
+  const index = history.findIndex(a => a.id === attempt.id);
+  return history.slice(0, index < 0 ? history.length : index).filter(a => !a.practiceModule).pop() || null;
+};
+
+// Skill counts of the most recent attempts that recorded any
+export const historySkillStats = (history: AttemptRecord[], recent = REPORT_ATTEMPTS): SkillStats =>
+  mergeSkillStats(...history.filter(a => a.skills).slice(-recent).map(a => a.skills));
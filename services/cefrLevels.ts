@@ -0,0 +1,77 @@
+import { CefrLevel, ExamProfile } from "../types.ts";
+
+// Per-level knobs. Exam profiles describe the A1 layout; these factors scale it up for A2 and B1
+// and tell the evaluators how strictly to grade.
+
+export interface LevelSettings {
+  level: CefrLevel;
+  label: string;
+  textLengthFactor: number; // Multiplies the word counts in the profile
+  questionCountFactor: number; // Multiplies the questions per part
+  grammarScope: string; // What the generator may use in texts
+  strictness: string; // Grading instruction for evaluators
+  speakingSeconds: number; // Expected minimum length of a spoken answer
+}
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1'];
+
+export const DEFAULT_LEVEL: CefrLevel = 'A1';
+
+export const levelSettings: Record<CefrLevel, LevelSettings> = {
+  A1: {
+    level: 'A1',
+    label: 'A1 · Beginner',
+    textLengthFactor: 1,
+    questionCountFactor: 1,
+    grammarScope: 'Very simple main clauses, present tense, everyday vocabulary.',
+    strictness: 'Be lenient: reward understandable communication even with several grammar mistakes.',
+    speakingSeconds: 30
+  },
+  A2: {
+    level: 'A2',
+    label: 'A2 · Elementary',
+    textLengthFactor: 1.75,
+    questionCountFactor: 1.2,
+    grammarScope: 'Simple main and subordinate clauses (weil, dass), Perfekt, modal verbs, common topics.',
+    strictness: 'Be moderately strict: expect correct verb position and basic case endings; deduct for repeated errors.',
+    speakingSeconds: 60
+  },
+  B1: {
+    level: 'B1',
+    label: 'B1 · Intermediate',
+    textLengthFactor: 3,
+    questionCountFactor: 1.4,
+    grammarScope: 'Connected text with subordinate clauses, Präteritum, relative clauses and connectors.',
+    strictness: 'Be strict: expect coherent structure, connectors, correct word order and endings; deduct for every recurring error.',
+    speakingSeconds: 90
+  }
+};
+
+const scaleCount = (value: number, factor: number) => Math.round(value * factor);
+
+// Returns a copy of the profile with text lengths and question counts adjusted to the level.
+export const applyLevel = (profile: ExamProfile, level: CefrLevel): ExamProfile => {
+  const { textLengthFactor, questionCountFactor } = levelSettings[level];
+  if (textLengthFactor === 1 && questionCountFactor === 1) return profile;
+  const scaleModule = (module: ExamProfile['reading']) => ({
+    ...module,
+    parts: module.parts.map(part => ({
+      ...part,
+      questionCount: scaleCount(part.questionCount, questionCountFactor),
+      optionCount: part.optionCount ? scaleCount(part.optionCount, questionCountFactor) : undefined,
+      wordCount: part.wordCount ? scaleCount(part.wordCount, textLengthFactor) : undefined
+    }))
+  });
+  return {
+    ...profile,
+    reading: scaleModule(profile.reading),
+    listening: scaleModule(profile.listening),
+    writing: {
+      ...profile.writing,
+      parts: profile.writing.parts.map(part => ({
+        ...part,
+        wordCount: part.wordCount ? scaleCount(part.wordCount, textLengthFactor) : undefined
+      }))
+    }
+  };
+};
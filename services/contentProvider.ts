@@ -0,0 +1,53 @@
+import { ReadingTestContent, ListeningTestContent, WritingTask, SpeakingTask, ExaminerTurn, EvaluationResult, ExamProfile, CefrLevel, TestPart, Question, ExplanationLanguage, AnswerExplanation } from "../types.ts";
+import * as gemini from "./geminiService.ts";
+import * as fixture from "./fixtureProvider.ts";
+
+export interface PreloadedListening {
+  content: ListeningTestContent;
+  audioParts: string[]; // base64 raw PCM, one entry per part
+}
+
+export interface SpeakingInput {
+  audioBase64?: string;
+  text?: string;
+}
+
+// Everything the modules need to build and grade a test. Each backend implements the full set.
+export interface ContentProvider {
+  generateReadingTest: (profile: ExamProfile, level: CefrLevel) => Promise<ReadingTestContent>;
+  preloadListeningTest: (profile: ExamProfile, level: CefrLevel) => Promise<PreloadedListening>;
+  generateWritingTask: (profile: ExamProfile, level: CefrLevel) => Promise<WritingTask>;
+  evaluateWriting: (task: WritingTask, userText: string, level: CefrLevel) => Promise<EvaluationResult>;
+  generateSpeakingTask: (profile: ExamProfile, level: CefrLevel) => Promise<SpeakingTask>;
+  evaluateSpeaking: (task: SpeakingTask, input: SpeakingInput, level: CefrLevel) => Promise<EvaluationResult>;
+  generateFollowUp: (task: SpeakingTask, turn: ExaminerTurn, input: SpeakingInput, level: CefrLevel) => Promise<ExaminerTurn | null>;
+  generateExaminerAudio: (text: string) => Promise<string>; // base64 raw PCM
+  explainAnswer: (part: TestPart, question: Question, language: ExplanationLanguage) => Promise<AnswerExplanation>;
+}
+
+const providers: Record<string, ContentProvider> = {
+  gemini,
+  fixture
+};
+
+// Selected with CONTENT_PROVIDER in .env.local ("gemini" by default, "fixture" for offline use).
+export const getContentProvider = (): ContentProvider => {
+  const name = (process.env.CONTENT_PROVIDER || 'gemini').toLowerCase();
+  const provider = providers[name];
+  if (!provider) {
+    console.warn(`⚠️ Unknown CONTENT_PROVIDER "${name}", falling back to gemini.`);
+    return providers.gemini;
+  }
+  return provider;
+};
+
+// Profiles passed in here are expected to be level-scaled already (see applyLevel).
+export const generateReadingTest = (profile: ExamProfile, level: CefrLevel) => getContentProvider().generateReadingTest(profile, level);
+export const preloadListeningTest = (profile: ExamProfile, level: CefrLevel) => getContentProvider().preloadListeningTest(profile, level);
+export const generateWritingTask = (profile: ExamProfile, level: CefrLevel) => getContentProvider().generateWritingTask(profile, level);
+export const evaluateWriting = (task: WritingTask, userText: string, level: CefrLevel) => getContentProvider().evaluateWriting(task, userText, level);
+export const generateSpeakingTask = (profile: ExamProfile, level: CefrLevel) => getContentProvider().generateSpeakingTask(profile, level);
+export const evaluateSpeaking = (task: SpeakingTask, input: SpeakingInput, level: CefrLevel) => getContentProvider().evaluateSpeaking(task, input, level);
+export const generateFollowUp = (task: SpeakingTask, turn: ExaminerTurn, input: SpeakingInput, level: CefrLevel) => getContentProvider().generateFollowUp(task, turn, input, level);
+export const generateExaminerAudio = (text: string) => getContentProvider().generateExaminerAudio(text);
+export const explainAnswer = (part: TestPart, question: Question, language: ExplanationLanguage) => getContentProvider().explainAnswer(part, question, language);
@@ -0,0 +1,432 @@
+import { Question, MultipleChoiceQuestion, TrueFalseQuestion, MatchingQuestion, TestPart, TestPartSpec, ScriptLine, ReadingTestContent, ListeningTestContent, WritingTask, FormTask, FormField, FormFieldKind, SpeakingTask, EvaluationResult, ValidationReport, CriterionScore, ContentPointCheck, TextCorrection, SpeechNote, ExaminerTurn, AnswerExplanation } from "../types.ts";
+import { formatTranscript } from "./scriptLines.ts";
+import { WRITING_CRITERIA, toHalfPoints, rubricPercent } from "./writingRubric.ts";
+import { isErrorCategory, locateCorrections } from "./textCorrections.ts";
+import { isSkillTag, inferQuestionSkill, correctionSkill } from "./skillTags.ts";
+import { verifiedQuote } from "./answerExplanations.ts";
+
+// Runtime checks for model output. Generated JSON is only trusted after it passes through here:
+// ids are renumbered, fixable problems are corrected and recorded, broken items are rejected.
+
+export interface TestContentSpec {
+  parts: TestPartSpec[]; // Expected layout; its length is the number of parts
+  idPrefix: string; // 'r' for reading, 'l' for listening
+}
+
+const MIN_OPTIONS = 2;
+
+export const createReport = (): ValidationReport => ({ fixes: [], rejected: [], regeneratedParts: [] });
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const asInteger = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? parseInt(value, 10) : NaN;
+};
+
+// Drops empty and duplicate options and maps old indices to the cleaned list (-1 for dropped ones).
+const cleanOptions = (rawOptions: unknown[], id: string, report: ValidationReport) => {
+  const options: string[] = [];
+  const indexMap = rawOptions.map(opt => {
+    const value = asText(opt);
+    if (!value) return -1;
+    if (!options.includes(value)) options.push(value);
+    return options.indexOf(value);
+  });
+  if (options.length !== rawOptions.length) report.fixes.push(`${id}: removed ${rawOptions.length - options.length} empty or duplicate option(s)`);
+  return { options, indexMap };
+};
+
+const TRUE_WORDS = ['true', 'richtig', 'r', 'ja'];
+const FALSE_WORDS = ['false', 'falsch', 'f', 'nein'];
+
+const asBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const text = asText(value).toLowerCase();
+  if (TRUE_WORDS.includes(text)) return true;
+  if (FALSE_WORDS.includes(text)) return false;
+  return null;
+};
+
+const validateMultipleChoice = (raw: Record<string, any>, id: string, text: string, report: ValidationReport): MultipleChoiceQuestion | null => {
+  const rawOptions: unknown[] = Array.isArray(raw.options) ? raw.options : [];
+  const rawIndex = asInteger(raw.correctAnswerIndex);
+  if (!Number.isInteger(rawIndex) || rawIndex < 0 || rawIndex >= rawOptions.length) {
+    report.rejected.push(`${id}: correctAnswerIndex ${raw.correctAnswerIndex} is outside the ${rawOptions.length} options`);
+    return null;
+  }
+  const { options, indexMap } = cleanOptions(rawOptions, id, report);
+  const correctAnswerIndex = indexMap[rawIndex];
+  if (correctAnswerIndex === -1) {
+    report.rejected.push(`${id}: correct answer is empty`);
+    return null;
+  }
+  if (options.length < MIN_OPTIONS) {
+    report.rejected.push(`${id}: only ${options.length} usable option(s)`);
+    return null;
+  }
+  return { kind: 'multiple-choice', id, text, options, correctAnswerIndex };
+};
+
+const validateTrueFalse = (raw: Record<string, any>, id: string, text: string, report: ValidationReport): TrueFalseQuestion | null => {
+  let correctAnswer = asBoolean(raw.correctAnswer);
+  // Models sometimes answer a richtig/falsch item in multiple-choice shape
+  if (correctAnswer === null && Array.isArray(raw.options)) {
+    correctAnswer = asBoolean(raw.options[asInteger(raw.correctAnswerIndex)]);
+    if (correctAnswer !== null) report.fixes.push(`${id}: converted richtig/falsch options to a true/false answer`);
+  }
+  if (correctAnswer === null) {
+    report.rejected.push(`${id}: no richtig/falsch answer`);
+    return null;
+  }
+  return { kind: 'true-false', id, text, correctAnswer };
+};
+
+const validateMatching = (raw: Record<string, any>, id: string, text: string, spec: TestPartSpec, report: ValidationReport): MatchingQuestion | null => {
+  const rawItems: unknown[] = Array.isArray(raw.items) ? raw.items : [];
+  const rawMatches: unknown[] = Array.isArray(raw.correctMatches) ? raw.correctMatches : [];
+  const { options, indexMap } = cleanOptions(Array.isArray(raw.options) ? raw.options : [], id, report);
+  const items: string[] = [];
+  const correctMatches: number[] = [];
+  rawItems.forEach((item, i) => {
+    const value = asText(item);
+    const match = asInteger(rawMatches[i]);
+    if (!value || !Number.isInteger(match) || match < -1 || match >= indexMap.length || (match >= 0 && indexMap[match] === -1)) {
+      report.rejected.push(`${id}: item ${i + 1} has no valid match`);
+      return;
+    }
+    items.push(value);
+    correctMatches.push(match === -1 ? -1 : indexMap[match]);
+  });
+  if (items.length < spec.questionCount) {
+    report.rejected.push(`${id}: ${items.length} usable item(s), expected ${spec.questionCount}`);
+    return null;
+  }
+  if (items.length > spec.questionCount) report.fixes.push(`${id}: dropped ${items.length - spec.questionCount} extra item(s)`);
+  if (options.length < Math.min(spec.optionCount || spec.questionCount, spec.questionCount)) {
+    report.rejected.push(`${id}: only ${options.length} option(s) for ${spec.questionCount} items`);
+    return null;
+  }
+  return {
+    kind: 'matching',
+    id,
+    text: text || 'Ordnen Sie zu.',
+    items: items.slice(0, spec.questionCount),
+    options,
+    correctMatches: correctMatches.slice(0, spec.questionCount)
+  };
+};
+
+const validateByKind = (raw: Record<string, any>, id: string, text: string, spec: TestPartSpec, report: ValidationReport): Question | null => {
+  switch (spec.questionFormat) {
+    case 'multiple-choice':
+      return validateMultipleChoice(raw, id, text, report);
+    case 'true-false':
+      return validateTrueFalse(raw, id, text, report);
+    case 'matching':
+      return validateMatching(raw, id, text, spec, report);
+  }
+};
+
+// Every question carries a skill; untagged or wrongly tagged ones get one inferred from their wording
+const withSkill = (question: Question, raw: Record<string, any>): Question => {
+  const skill = asText(raw.skill).toLowerCase();
+  const theme = asText(raw.theme);
+  return { ...question, skill: isSkillTag(skill) ? skill : inferQuestionSkill(question), ...(theme ? { theme } : {}) };
+};
+
+export const validateQuestion = (raw: unknown, id: string, spec: TestPartSpec, report: ValidationReport): Question | null => {
+  if (!isObject(raw)) {
+    report.rejected.push(`${id}: not an object`);
+    return null;
+  }
+  const text = asText(raw.text);
+  if (raw.kind && raw.kind !== spec.questionFormat) report.fixes.push(`${id}: treated ${raw.kind} question as ${spec.questionFormat}`);
+  // Matching tasks may leave the shared instruction empty; everything else needs its own text
+  if (!text && spec.questionFormat !== 'matching') {
+    report.rejected.push(`${id}: missing question text`);
+    return null;
+  }
+  const question = validateByKind(raw, id, text, spec, report);
+  return question && withSkill(question, raw);
+};
+
+// Speaker turns of a listening script. Lines without text are dropped; a missing speaker becomes "Sprecher".
+const validateScriptLines = (rawLines: unknown, id: string, report: ValidationReport): ScriptLine[] => {
+  if (!Array.isArray(rawLines)) return [];
+  const lines = rawLines
+    .filter(isObject)
+    .map(line => ({ speaker: asText(line.speaker), text: asText(line.text) }))
+    .filter(line => line.text);
+  if (lines.length !== rawLines.length) report.fixes.push(`${id}: dropped ${rawLines.length - lines.length} empty script line(s)`);
+  const unnamed = lines.filter(line => !line.speaker).length;
+  if (unnamed > 0) report.fixes.push(`${id}: ${unnamed} script line(s) without a speaker`);
+  return lines.map(line => ({ ...line, speaker: line.speaker || 'Sprecher' }));
+};
+
+// Returns null when the part cannot be used as-is and has to be regenerated.
+export const validateTestPart = (raw: unknown, index: number, spec: TestContentSpec, report: ValidationReport): TestPart | null => {
+  const id = `${spec.idPrefix}${index + 1}`;
+  const partSpec = spec.parts[index];
+  if (!isObject(raw)) {
+    report.rejected.push(`${id}: part is not an object`);
+    return null;
+  }
+  // When the script comes as speaker lines, the transcript is rebuilt from them so both always agree
+  const lines = validateScriptLines(raw.lines, id, report);
+  const content = lines.length > 0 ? formatTranscript(lines) : asText(raw.content);
+  if (!content) {
+    report.rejected.push(`${id}: part has no content`);
+    return null;
+  }
+  // A matching part is a single question whose items carry the count
+  const expected = partSpec.questionFormat === 'matching' ? 1 : partSpec.questionCount;
+  const rawQuestions: unknown[] = Array.isArray(raw.questions) ? raw.questions : [];
+  // Each usable question keeps the index it had in the response, to compare ids against below
+  const questions = rawQuestions
+    .map((q, i) => ({ question: validateQuestion(q, `${id}q${i + 1}`, partSpec, report), rawIndex: i }))
+    .filter((q): q is { question: Question, rawIndex: number } => q.question !== null);
+  if (questions.length < expected) {
+    report.rejected.push(`${id}: ${questions.length} usable question(s), expected ${expected}`);
+    return null;
+  }
+  if (questions.length > expected) {
+    report.fixes.push(`${id}: dropped ${questions.length - expected} extra question(s)`);
+  }
+  // Renumber after filtering so ids stay contiguous and unique across the whole test
+  const kept = questions.slice(0, expected).map(({ question, rawIndex }, i) => ({ question: { ...question, id: `${id}q${i + 1}` }, rawIndex }));
+  const rawIds = rawQuestions.map(q => (isObject(q) ? String(q.id ?? '') : ''));
+  // Missing ids are not duplicates of each other; they only count towards the renumbering below
+  const givenIds = rawIds.filter(Boolean);
+  if (new Set(givenIds).size !== givenIds.length) report.fixes.push(`${id}: replaced duplicate question ids`);
+  else if (kept.some(({ question, rawIndex }) => rawIds[rawIndex] !== question.id)) report.fixes.push(`${id}: renumbered question ids`);
+  return {
+    id,
+    type: asText(raw.type) || partSpec.textType,
+    title: asText(raw.title) || `Teil ${index + 1}`,
+    content,
+    ...(lines.length > 0 ? { lines } : {}),
+    questions: kept.map(({ question }) => question)
+  };
+};
+
+export interface PartValidation {
+  parts: (TestPart | null)[]; // null where the part failed validation
+  report: ValidationReport;
+}
+
+export const validateTestParts = (raw: unknown, spec: TestContentSpec): PartValidation => {
+  const report = createReport();
+  const rawParts: unknown[] = isObject(raw) && Array.isArray(raw.parts) ? raw.parts : [];
+  const partCount = spec.parts.length;
+  if (rawParts.length > partCount) report.fixes.push(`dropped ${rawParts.length - partCount} extra part(s)`);
+  if (rawParts.length < partCount) report.rejected.push(`got ${rawParts.length} part(s), expected ${partCount}`);
+  const parts = Array.from({ length: partCount }, (_, i) =>
+    i < rawParts.length ? validateTestPart(rawParts[i], i, spec, report) : null
+  );
+  return { parts, report };
+};
+
+// Validates the whole test and regenerates only the parts that failed, up to `attempts` times each.
+export const repairTestParts = async (
+  raw: unknown,
+  spec: TestContentSpec,
+  regeneratePart: (index: number) => Promise<unknown>,
+  attempts = 2
+): Promise<{ parts: TestPart[], report: ValidationReport }> => {
+  const { parts, report } = validateTestParts(raw, spec);
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i]) continue;
+    report.regeneratedParts.push(i);
+    for (let attempt = 0; !parts[i] && attempt < attempts; attempt++) {
+      parts[i] = validateTestPart(await regeneratePart(i), i, spec, report);
+    }
+    if (!parts[i]) throw new Error(`Generated test part ${i + 1} is invalid: ${report.rejected.join('; ')}`);
+  }
+  return { parts: parts as TestPart[], report };
+};
+
+export const validateReadingTest = async (raw: unknown, spec: TestContentSpec, regeneratePart: (index: number) => Promise<unknown>): Promise<ReadingTestContent> => {
+  const { parts, report } = await repairTestParts(raw, spec, regeneratePart);
+  return { parts, validation: report };
+};
+
+export const validateListeningTest = async (raw: unknown, spec: TestContentSpec, regeneratePart: (index: number) => Promise<unknown>): Promise<ListeningTestContent> => {
+  const { parts, report } = await repairTestParts(raw, spec, regeneratePart);
+  return { parts, fullScript: '', validation: report };
+};
+
+const validateTask = (raw: unknown, kind: string): { topic: string, instructions: string } => {
+  const topic = isObject(raw) ? asText(raw.topic) : '';
+  const instructions = isObject(raw) ? asText(raw.instructions) : '';
+  if (!instructions) throw new Error(`Generated ${kind} task has no instructions`);
+  return { topic: topic || kind, instructions };
+};
+
+const MIN_FORM_FIELDS = 3;
+const FORM_FIELD_KINDS: FormFieldKind[] = ['text', 'date', 'number', 'choice'];
+
+// Fields need a label and an expected value; a choice field whose options do not contain the
+// expected value gets it added. Too few usable fields reject the whole form.
+const validateFormTask = (raw: unknown): FormTask => {
+  const sourceText = isObject(raw) ? asText(raw.sourceText) : '';
+  if (!sourceText) throw new Error("Generated form task has no source text");
+  const rawFields: unknown[] = isObject(raw) && Array.isArray(raw.fields) ? raw.fields : [];
+  const fields = rawFields.filter(isObject).flatMap((f): FormField[] => {
+    const label = asText(f.label);
+    const expected = asText(f.expected);
+    if (!label || !expected) return [];
+    const kind = FORM_FIELD_KINDS.includes(f.kind) ? f.kind as FormFieldKind : 'text';
+    if (kind !== 'choice') return [{ label, kind, expected }];
+    const options: string[] = [...new Set((Array.isArray(f.options) ? f.options : []).map(asText).filter(Boolean) as string[])];
+    if (!options.includes(expected)) options.push(expected);
+    return options.length < MIN_OPTIONS ? [{ label, kind: 'text', expected }] : [{ label, kind, expected, options }];
+  });
+  if (fields.length < MIN_FORM_FIELDS) throw new Error(`Generated form task has only ${fields.length} usable field(s)`);
+  return { instructions: asText((raw as Record<string, any>).instructions) || 'Füllen Sie das Formular aus.', sourceText, fields };
+};
+
+export const validateWritingTask = (raw: unknown, withForm = false): WritingTask => {
+  const task: WritingTask = validateTask(raw, 'Writing');
+  if (withForm) task.form = validateFormTask(isObject(raw) ? raw.form : undefined);
+  return task;
+};
+
+// Examiner turns without a prompt are dropped; part indices outside the profile fall back to the last part.
+const validateExaminerTurns = (raw: unknown, partCount: number): ExaminerTurn[] => {
+  const rawTurns: unknown[] = Array.isArray(raw) ? raw : [];
+  return rawTurns.filter(isObject).flatMap((t): ExaminerTurn[] => {
+    const prompt = asText(t.prompt);
+    if (!prompt) return [];
+    const index = asInteger(t.partIndex);
+    const partIndex = Number.isInteger(index) ? Math.max(0, Math.min(partCount - 1, index)) : partCount - 1;
+    const card = asText(t.card);
+    return [{ partIndex, prompt, ...(card ? { card } : {}) }];
+  }).sort((a, b) => a.partIndex - b.partIndex);
+};
+
+export const validateSpeakingTask = (raw: unknown, partCount = 1): SpeakingTask => {
+  const task: SpeakingTask = validateTask(raw, 'Speaking');
+  const turns = isObject(raw) ? validateExaminerTurns(raw.turns, partCount) : [];
+  return turns.length > 0 ? { ...task, turns } : task;
+};
+
+// A generated follow-up question, or null when the examiner has nothing to add.
+export const validateFollowUp = (raw: unknown, after: ExaminerTurn): ExaminerTurn | null => {
+  const prompt = isObject(raw) ? asText(raw.followUp) : '';
+  return prompt ? { partIndex: after.partIndex, prompt, followUp: true } : null;
+};
+
+export const validateEvaluationResult = (raw: unknown): EvaluationResult => {
+  if (!isObject(raw)) throw new Error("Evaluation response is not an object");
+  const score = Number(raw.score);
+  if (!Number.isFinite(score)) throw new Error("Evaluation response has no score");
+  const corrections = Array.isArray(raw.corrections) ? raw.corrections.map(asText).filter(Boolean) : [];
+  return {
+    score: Math.max(0, Math.min(100, Math.round(score))),
+    feedback: asText(raw.feedback),
+    corrections
+  };
+};
+
+// Corrections are only kept when their span occurs verbatim in the learner's text and actually changes it.
+export const validateTextCorrections = (raw: unknown, userText: string): TextCorrection[] => {
+  const rawCorrections: unknown[] = Array.isArray(raw) ? raw : [];
+  const candidates = rawCorrections.filter(isObject).flatMap(c => {
+    const original = typeof c.original === 'string' ? c.original : '';
+    const replacement = asText(c.replacement);
+    const rawCategory = asText(c.category).toLowerCase();
+    const skill = asText(c.skill).toLowerCase();
+    if (!original.trim() || original.trim() === replacement) return [];
+    const category = isErrorCategory(rawCategory) ? rawCategory : 'other' as const;
+    return [{
+      original,
+      replacement,
+      category,
+      skill: isSkillTag(skill) ? skill : correctionSkill({ category }),
+      explanation: asText(c.explanation)
+    }];
+  });
+  return locateCorrections(userText, candidates);
+};
+
+// Rubric-graded writing: every criterion must be present, otherwise the rubric is dropped and only the
+// plain score is kept. When it is complete, the overall score is recomputed from the criteria.
+export const validateWritingEvaluation = (raw: unknown, userText: string): EvaluationResult => {
+  if (!isObject(raw)) throw new Error("Evaluation response is not an object");
+  const rawCriteria: unknown[] = Array.isArray(raw.criteria) ? raw.criteria : [];
+  const criteria = WRITING_CRITERIA.map((def): CriterionScore | null => {
+    const match = rawCriteria.find(c => isObject(c) && asText(c.id) === def.id) as Record<string, any> | undefined;
+    const score = Number(match?.score);
+    if (!match || !Number.isFinite(score)) return null;
+    return { id: def.id, score: Math.max(0, Math.min(def.maxScore, toHalfPoints(score))), maxScore: def.maxScore, comment: asText(match.comment) };
+  });
+  const rawPoints: unknown[] = Array.isArray(raw.contentPoints) ? raw.contentPoints : [];
+  const contentPoints = rawPoints.filter(isObject).flatMap((p): ContentPointCheck[] => {
+    const point = asText(p.point);
+    const covered = asBoolean(p.covered);
+    if (!point || covered === null) return [];
+    const evidence = asText(p.evidence);
+    return [{ point, covered, ...(evidence ? { evidence } : {}) }];
+  });
+  const textCorrections = validateTextCorrections(raw.textCorrections, userText);
+
+  if (criteria.some(c => c === null)) {
+    return { ...validateEvaluationResult(raw), textCorrections, ...(contentPoints.length ? { contentPoints } : {}) };
+  }
+  const complete = criteria as CriterionScore[];
+  return {
+    ...validateEvaluationResult({ ...raw, score: rubricPercent(complete) }),
+    criteria: complete,
+    textCorrections,
+    ...(contentPoints.length ? { contentPoints } : {})
+  };
+};
+
+const asScore = (value: unknown): number | null => {
+  const score = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(score) ? Math.max(0, Math.min(100, Math.round(score))) : null;
+};
+
+// Speaking results with separate content and language scores; when both are present the overall
+// score is their mean. Notes without a word or text are dropped; corrections need a transcript to anchor to.
+export const validateSpeakingEvaluation = (raw: unknown): EvaluationResult => {
+  if (!isObject(raw)) throw new Error("Evaluation response is not an object");
+  const contentScore = asScore(raw.contentScore);
+  const languageScore = asScore(raw.languageScore);
+  const hasSplit = contentScore !== null && languageScore !== null;
+  const rawNotes: unknown[] = Array.isArray(raw.speechNotes) ? raw.speechNotes : [];
+  const speechNotes = rawNotes.filter(isObject).flatMap((n): SpeechNote[] => {
+    const word = asText(n.word);
+    const note = asText(n.note);
+    if (!word || !note) return [];
+    return [{ word, note, kind: asText(n.kind).toLowerCase() === 'fluency' ? 'fluency' : 'pronunciation' }];
+  });
+  const transcript = asText(raw.transcript);
+  return {
+    ...validateEvaluationResult(hasSplit ? { ...raw, score: (contentScore + languageScore) / 2 } : raw),
+    ...(hasSplit ? { contentScore, languageScore } : {}),
+    ...(transcript ? { transcript, textCorrections: validateTextCorrections(raw.textCorrections, transcript) } : {}),
+    speechNotes
+  };
+};
+
+// An explanation needs text; a quote that is not in the passage is replaced by the best matching sentence.
+export const validateAnswerExplanation = (raw: unknown, part: TestPart, question: Question): AnswerExplanation => {
+  const text = isObject(raw) ? asText(raw.explanation) : '';
+  if (!text) throw new Error("Explanation response has no text");
+  return { text, quote: verifiedQuote(part, question, asText((raw as Record<string, any>).quote)) };
+};
+
+// One-line summary for logging; empty when nothing had to change.
+export const summarizeReport = (report: ValidationReport) => {
+  const lines = [
+    ...report.fixes.map(f => `fixed ${f}`),
+    ...report.rejected.map(r => `rejected ${r}`),
+    ...(report.regeneratedParts.length ? [`regenerated part(s) ${report.regeneratedParts.map(i => i + 1).join(', ')}`] : [])
+  ];
+  return lines.join('; ');
+};
@@ -0,0 +1,45 @@
+import { TestSubmissionData } from "./submissionService.ts";
+
+// Saves each submission as a file on the device, for kiosks without a network connection.
+// SUBMISSION_DOWNLOAD_FORMAT picks "csv" (default) or "json". Every CSV file starts with the same
+// header row, so the files of a day can be concatenated into one sheet.
+
+type DownloadFormat = 'csv' | 'json';
+
+// Saved from the submit click only; see SubmissionSink
+export const immediate = true;
+
+const getFormat = (): DownloadFormat => {
+  const format = (process.env.SUBMISSION_DOWNLOAD_FORMAT || 'csv').toLowerCase();
+  if (format === 'csv' || format === 'json') return format;
+  console.warn(`⚠️ Unknown SUBMISSION_DOWNLOAD_FORMAT "${format}", falling back to csv.`);
+  return 'csv';
+};
+
+// Quotes fields with commas, quotes or line breaks; leading =+-@ are escaped so spreadsheets don't run them
+const csvField = (value: string | number) => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (row: Record<string, string | number>): string =>
+  [Object.keys(row), Object.values(row)].map(line => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+export const submit = async (data: TestSubmissionData, submissionId: string) => {
+  const format = getFormat();
+  const row = { submissionId, ...data };
+  const blob = format === 'csv'
+    ? new Blob([toCsv(row)], { type: 'text/csv;charset=utf-8' })
+    : new Blob([JSON.stringify(row, null, 2)], { type: 'application/json' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `mock-test-${submissionId}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked a moment later; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
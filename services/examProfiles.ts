@@ -0,0 +1,134 @@
+import { ExamProfile, ExamProfileId, ScoringSpec } from "../types.ts";
+
+// Declarative exam formats. Generators, modules and the HOME picker read everything
+// (parts, question counts, text types, timing) from here instead of hard-coding it.
+
+// Goethe scale: 25 points per module, written part (75) and oral part (25) each passed at 60 %
+const HUNDRED_POINT_SCALE: ScoringSpec = {
+  maxPoints: 100,
+  sections: [
+    { id: 'written', label: 'Schriftliche Prüfung', modules: [{ module: 'listening', maxPoints: 25 }, { module: 'reading', maxPoints: 25 }, { module: 'writing', maxPoints: 25 }], passPoints: 45 },
+    { id: 'oral', label: 'Mündliche Prüfung', modules: [{ module: 'speaking', maxPoints: 25 }], passPoints: 15 }
+  ]
+};
+
+export const examProfiles: ExamProfile[] = [
+  {
+    id: 'quick',
+    name: 'Quick Mock',
+    description: 'Short practice test: 2 reading texts, 2 recordings, one email and one speaking task.',
+    reading: {
+      minutes: 10,
+      parts: [
+        { textType: 'Email', description: 'Short informal email', questionFormat: 'multiple-choice', questionCount: 3, wordCount: 40 },
+        { textType: 'Notice', description: 'Notice or sign', questionFormat: 'multiple-choice', questionCount: 3, wordCount: 20 }
+      ]
+    },
+    listening: {
+      minutes: 10,
+      parts: [
+        { textType: 'Dialogue', description: 'Everyday dialogue between two people', questionFormat: 'multiple-choice', questionCount: 3, plays: 2, preReadingSeconds: 10 },
+        { textType: 'Announcement', description: 'Public announcement', questionFormat: 'multiple-choice', questionCount: 3, plays: 2, preReadingSeconds: 10 }
+      ]
+    },
+    writing: {
+      minutes: 10,
+      parts: [
+        { kind: 'email', description: 'Short email covering 3 points', wordCount: 30 }
+      ]
+    },
+    speaking: {
+      minutes: 5,
+      parts: [
+        { title: 'Sprechen', description: 'Answer one speaking prompt' }
+      ]
+    },
+    scoring: HUNDRED_POINT_SCALE
+  },
+  {
+    id: 'goethe-a1',
+    name: 'Goethe-Zertifikat A1',
+    description: 'Start Deutsch 1 format: Hören 3 Teile, Lesen 3 Teile, Schreiben 2 Teile, Sprechen 3 Teile.',
+    reading: {
+      minutes: 25,
+      parts: [
+        { textType: 'Email', description: 'Two short personal emails or letters; statements to mark richtig/falsch', questionFormat: 'true-false', questionCount: 5, wordCount: 80 },
+        { textType: 'Advertisement', description: 'Five everyday situations, each with two short ads or web pages (a/b); pick the one that fits', questionFormat: 'multiple-choice', questionCount: 5, wordCount: 120 },
+        { textType: 'Sign', description: 'Five signs and notices in shops, offices and stations; statements to mark richtig/falsch', questionFormat: 'true-false', questionCount: 5, wordCount: 80 }
+      ]
+    },
+    listening: {
+      minutes: 20,
+      parts: [
+        { textType: 'Dialogue', description: 'Six short everyday dialogues; one question with three options each', questionFormat: 'multiple-choice', questionCount: 6, plays: 2, preReadingSeconds: 15 },
+        { textType: 'Announcement', description: 'Four announcements at a station, airport or shop; statements to mark richtig/falsch', questionFormat: 'true-false', questionCount: 4, plays: 1, preReadingSeconds: 15 },
+        { textType: 'Phone message', description: 'Five telephone messages on an answering machine; one question with three options each', questionFormat: 'multiple-choice', questionCount: 5, plays: 2, preReadingSeconds: 15 }
+      ]
+    },
+    writing: {
+      minutes: 20,
+      parts: [
+        { kind: 'form', description: 'Fill in a form with five pieces of information about a person from a short text' },
+        { kind: 'email', description: 'Short letter or email covering three given points', wordCount: 30 }
+      ]
+    },
+    speaking: {
+      minutes: 15,
+      parts: [
+        { title: 'Teil 1: Sich vorstellen', description: 'Introduce yourself, then spell a word and say a number when asked' },
+        { title: 'Teil 2: Um Informationen bitten', description: 'Ask and answer questions using word cards on a theme, e.g. "Essen und Trinken"' },
+        { title: 'Teil 3: Bitten formulieren', description: 'Make requests and react to them using picture or word cards' }
+      ]
+    },
+    scoring: HUNDRED_POINT_SCALE
+  },
+  {
+    id: 'telc-a1',
+    name: 'telc Deutsch A1',
+    description: 'telc Start Deutsch 1 format: Hören 3 Teile, Lesen 3 Teile, Schreiben 2 Teile, Sprechen 3 Teile.',
+    reading: {
+      minutes: 25,
+      parts: [
+        { textType: 'Letter', description: 'Short private letter or email; statements to mark richtig/falsch', questionFormat: 'true-false', questionCount: 5, wordCount: 80 },
+        { textType: 'Advertisement', description: 'Six situations and eight short ads; match each situation to one ad (or none)', questionFormat: 'matching', questionCount: 6, optionCount: 8, wordCount: 160 },
+        { textType: 'Notice', description: 'Five notices and signs in public places; statements to mark richtig/falsch', questionFormat: 'true-false', questionCount: 5, wordCount: 80 }
+      ]
+    },
+    listening: {
+      minutes: 20,
+      parts: [
+        { textType: 'Dialogue', description: 'Six short conversations; one question with three options each', questionFormat: 'multiple-choice', questionCount: 6, plays: 2, preReadingSeconds: 15 },
+        { textType: 'Announcement', description: 'Four public announcements; statements to mark richtig/falsch', questionFormat: 'true-false', questionCount: 4, plays: 1, preReadingSeconds: 15 },
+        { textType: 'Phone message', description: 'Five short radio or telephone messages; one question with three options each', questionFormat: 'multiple-choice', questionCount: 5, plays: 2, preReadingSeconds: 15 }
+      ]
+    },
+    writing: {
+      minutes: 20,
+      parts: [
+        { kind: 'form', description: 'Complete a registration form with five pieces of information from a short text' },
+        { kind: 'email', description: 'Short message to a friend or office covering three given points', wordCount: 30 }
+      ]
+    },
+    speaking: {
+      minutes: 15,
+      parts: [
+        { title: 'Teil 1: Sich vorstellen', description: 'Introduce yourself with the given keywords, then spell and say numbers' },
+        { title: 'Teil 2: Informationen erfragen', description: 'Ask a partner questions on a theme with word cards and answer theirs' },
+        { title: 'Teil 3: Bitten formulieren', description: 'Ask for things and react to requests using picture cards' }
+      ]
+    },
+    // telc reports 45 written and 15 oral points; both parts are passed at 60 %
+    scoring: {
+      maxPoints: 60,
+      sections: [
+        { id: 'written', label: 'Schriftliche Prüfung', modules: [{ module: 'listening', maxPoints: 15 }, { module: 'reading', maxPoints: 15 }, { module: 'writing', maxPoints: 15 }], passPoints: 27 },
+        { id: 'oral', label: 'Mündliche Prüfung', modules: [{ module: 'speaking', maxPoints: 15 }], passPoints: 9 }
+      ]
+    }
+  }
+];
+
+export const DEFAULT_EXAM_PROFILE: ExamProfileId = 'quick';
+
+export const getExamProfile = (id: ExamProfileId): ExamProfile =>
+  examProfiles.find(p => p.id === id) || examProfiles[0];
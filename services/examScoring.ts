@@ -0,0 +1,87 @@
+import { ModuleKey, RawScore, ScoringSpec } from "../types.ts";
+import { toHalfPoints } from "./writingRubric.ts";
+
+// Converts raw module results into the points of the selected exam format. Each module's share of
+// correct answers (or rubric points) is scaled to its maximum and rounded to half points; a section
+// is passed when it reaches its own minimum, and the exam only when every section is passed.
+
+export interface ModulePoints {
+  module: ModuleKey;
+  points: number;
+  maxPoints: number;
+  unscored?: boolean; // Nothing left to score, e.g. every answer key was disputed
+}
+
+export interface SectionResult {
+  id: 'written' | 'oral';
+  label: string;
+  modules: ModulePoints[];
+  points: number;
+  maxPoints: number;
+  passPoints: number; // Scaled down when a module of the section is unscored
+  passed: boolean;
+}
+
+export interface ExamResult {
+  sections: SectionResult[];
+  points: number;
+  maxPoints: number;
+  passed: boolean;
+  grade: ExamGrade;
+}
+
+// Goethe Prädikat (sehr gut, gut, befriedigend, ausreichend), "failed" when a section is failed;
+// shown through the results.grade.* messages
+export type ExamGrade = 'veryGood' | 'good' | 'satisfactory' | 'sufficient' | 'failed';
+
+// Share of the total points needed for each Prädikat
+const GRADES: { minShare: number, grade: ExamGrade }[] = [
+  { minShare: 0.9, grade: 'veryGood' },
+  { minShare: 0.8, grade: 'good' },
+  { minShare: 0.7, grade: 'satisfactory' },
+  { minShare: 0, grade: 'sufficient' }
+];
+
+// A module whose questions were all excluded from scoring; it leaves the exam instead of counting as 0
+export const isUnscored = (raw: RawScore | undefined) => !!raw && raw.possible === 0;
+
+export const percentToRaw = (percent: number): RawScore => ({ earned: percent, possible: 100 });
+
+export const toPoints = (raw: RawScore | undefined, maxPoints: number) =>
+  raw && raw.possible > 0 ? toHalfPoints((Math.min(raw.earned, raw.possible) / raw.possible) * maxPoints) : 0;
+
+export const scoreExam = (spec: ScoringSpec, raw: Partial<Record<ModuleKey, RawScore>>): ExamResult => {
+  const sections = spec.sections.map(section => {
+    const modules: ModulePoints[] = section.modules.map(({ module, maxPoints }) =>
+      isUnscored(raw[module]) ? { module, maxPoints, points: 0, unscored: true } : { module, maxPoints, points: toPoints(raw[module], maxPoints) });
+    const scored = modules.filter(m => !m.unscored);
+    const points = scored.reduce((sum, m) => sum + m.points, 0);
+    const maxPoints = scored.reduce((sum, m) => sum + m.maxPoints, 0);
+    const fullPoints = modules.reduce((sum, m) => sum + m.maxPoints, 0);
+    // The pass mark shrinks with the points that are left, rounded up to half points
+    const passPoints = maxPoints === fullPoints ? section.passPoints : Math.ceil((section.passPoints * maxPoints / fullPoints) * 2) / 2;
+    return { id: section.id, label: section.label, modules, points, maxPoints, passPoints, passed: points >= passPoints };
+  });
+  const points = sections.reduce((sum, s) => sum + s.points, 0);
+  const maxPoints = sections.reduce((sum, s) => sum + s.maxPoints, 0);
+  const passed = sections.every(s => s.passed);
+  const share = maxPoints ? points / maxPoints : 0;
+  return {
+    sections,
+    points,
+    maxPoints,
+    passed,
+    grade: passed ? GRADES.find(g => share >= g.minShare)!.grade : 'failed'
+  };
+};
+
+// Practice has no sections, so a single module counts as passed at its section's pass share, e.g. 60 %
+export const modulePassPercent = (spec: ScoringSpec, module: ModuleKey): number => {
+  const section = spec.sections.find(s => s.modules.some(m => m.module === module));
+  if (!section) return 0;
+  const fullPoints = section.modules.reduce((sum, m) => sum + m.maxPoints, 0);
+  return (section.passPoints / fullPoints) * 100;
+};
+
+export const modulePoints = (result: ExamResult, module: ModuleKey) =>
+  result.sections.flatMap(s => s.modules).find(m => m.module === module);
@@ -0,0 +1,28 @@
+import { ExamProfile, ModuleKey } from "../types.ts";
+
+// Shared rules for the per-module exam timer. Limits come from the exam profile's module minutes;
+// the countdown warns twice before the end and submits the module when it reaches zero.
+
+export type TimerPhase = 'running' | 'warning' | 'critical' | 'expired';
+
+const WARNING_SECONDS = 5 * 60;
+const CRITICAL_SECONDS = 60;
+
+export const MODULE_KEYS: ModuleKey[] = ['reading', 'listening', 'writing', 'speaking'];
+
+export const timeLimitSeconds = (profile: ExamProfile, module: ModuleKey) => profile[module].minutes * 60;
+
+// Short modules warn at a quarter of their time instead of five minutes before the end
+export const warningSeconds = (limit: number) => Math.min(WARNING_SECONDS, Math.round(limit / 4));
+
+export const timerPhase = (remaining: number, limit: number): TimerPhase => {
+  if (remaining <= 0) return 'expired';
+  if (remaining <= Math.min(CRITICAL_SECONDS, warningSeconds(limit))) return 'critical';
+  if (remaining <= warningSeconds(limit)) return 'warning';
+  return 'running';
+};
+
+export const formatTime = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,340 @@
+import { ReadingTestContent, ListeningTestContent, TestPart, WritingTask, SpeakingTask, EvaluationResult, ExamProfile, TestModuleSpec, CefrLevel, CriterionScore, TextCorrection, ErrorCategory, SkillTag, SpeechNote, ExaminerTurn, Question, ExplanationLanguage, AnswerExplanation } from "../types.ts";
+import { encode, concatenateRawAudio } from "./audioUtils.ts";
+import { voiceIndexFor, partIntro, INTRO_PAUSE_SECONDS, LINE_PAUSE_SECONDS } from "./scriptLines.ts";
+import { levelSettings } from "./cefrLevels.ts";
+import { getCriterion, toHalfPoints, rubricPercent } from "./writingRubric.ts";
+import { turnsFor } from "./speakingSession.ts";
+import { correctionSkill } from "./skillTags.ts";
+import { correctAnswerLabel, verifiedQuote } from "./answerExplanations.ts";
+import { readingFixtures, listeningFixtures, writingFixtures, speakingFixtures } from "./fixtures.ts";
+
+// Offline backend: serves bundled fixtures and grades with simple rules instead of calling Gemini.
+// Useful for demos and UI work without an API key or network.
+
+const SAMPLE_RATE = 24000;
+const WORDS_PER_SECOND = 2.5;
+// Base tone per "voice": the narrator first, then one per script speaker
+const NARRATOR_FREQUENCY = 180;
+const SPEAKER_FREQUENCIES = [260, 140, 320, 210];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Small artificial latency so loading states are still visible during development.
+const simulateLatency = () => sleep(300 + Math.random() * 400);
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Deep copy so callers can mutate the returned content without touching the fixtures.
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const words = (text: string) => text.split(/\s+/).filter(w => /\p{L}/u.test(w));
+
+// Synthetic 16-bit mono PCM at 24 kHz: one short tone per word so the track length
+// roughly matches what real speech of the same text would take. Pass `silent` for zeros only.
+export const synthesizePcm = (text: string, silent = false, baseFrequency = NARRATOR_FREQUENCY): Uint8Array => {
+  const wordCount = Math.max(1, words(text).length);
+  const totalSamples = Math.ceil((wordCount / WORDS_PER_SECOND) * SAMPLE_RATE);
+  const samples = new Int16Array(totalSamples);
+  if (!silent) {
+    const samplesPerWord = Math.floor(totalSamples / wordCount);
+    const toneLength = Math.floor(samplesPerWord * 0.6);
+    for (let w = 0; w < wordCount; w++) {
+      const start = w * samplesPerWord;
+      const frequency = baseFrequency + (w % 5) * 40;
+      for (let i = 0; i < toneLength && start + i < totalSamples; i++) {
+        // Short fade in/out avoids clicks at tone boundaries
+        const envelope = Math.min(1, i / 240, (toneLength - i) / 240);
+        samples[start + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 6000);
+      }
+    }
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+// Fits the bundled parts to the profile's layout: for each part a fixture with the same question
+// format is reused and trimmed to the requested size (fixtures are smaller than the official formats).
+const fitToProfile = (pool: TestPart[], module: TestModuleSpec, idPrefix: string): TestPart[] => {
+  const used = new Set<TestPart>();
+  return module.parts.map((spec, i) => {
+    const candidates = pool.filter(p => p.questions[0]?.kind === spec.questionFormat);
+    const source = candidates.find(p => !used.has(p)) || candidates[0] || pool[i % pool.length];
+    used.add(source);
+    const partId = `${idPrefix}${i + 1}`;
+    const questions = spec.questionFormat === 'matching'
+      ? source.questions.slice(0, 1).map(q => q.kind === 'matching'
+        ? { ...clone(q), items: q.items.slice(0, spec.questionCount), correctMatches: q.correctMatches.slice(0, spec.questionCount) }
+        : clone(q))
+      : source.questions.slice(0, spec.questionCount).map(q => clone(q));
+    return {
+      ...clone(source),
+      id: partId,
+      questions: questions.map((q, qi) => ({ ...q, id: `${partId}q${qi + 1}` }))
+    };
+  });
+};
+
+export const generateReadingTest = async (profile: ExamProfile, _level: CefrLevel): Promise<ReadingTestContent> => {
+  await simulateLatency();
+  const first = pick(readingFixtures);
+  const pool = [...first.parts, ...readingFixtures.filter(f => f !== first).flatMap(f => f.parts)];
+  return { parts: fitToProfile(pool, profile.reading, 'r') };
+};
+
+export const generateListeningTestScript = async (profile: ExamProfile, _level: CefrLevel): Promise<ListeningTestContent> => {
+  await simulateLatency();
+  const first = pick(listeningFixtures);
+  const pool = [...first.parts, ...listeningFixtures.filter(f => f !== first).flatMap(f => f.parts)];
+  const data: ListeningTestContent = { parts: fitToProfile(pool, profile.listening, 'l'), fullScript: '' };
+  data.fullScript = data.parts.map((p, i) => `Teil ${i + 1}. ${p.type}. ... ${p.content}`).join(' ... ... ');
+  return data;
+};
+
+// FIXTURE_AUDIO=silent swaps the tones for silence of the same length.
+export const generateAudioFromScript = async (script: string): Promise<string> => {
+  return encode(synthesizePcm(script, process.env.FIXTURE_AUDIO === 'silent'));
+};
+
+// Fixtures are A1 material; the level only changes how strictly answers are graded below.
+// Same layout as the Gemini backend: narrator intro, then each speaker's lines at that speaker's pitch.
+const generatePartAudio = async (part: TestPart, index: number): Promise<string> => {
+  const intro = partIntro(part, index);
+  if (!part.lines?.length) return generateAudioFromScript(`${intro} ${part.content}`);
+  const silent = process.env.FIXTURE_AUDIO === 'silent';
+  const lines = part.lines.map(line =>
+    synthesizePcm(line.text, silent, SPEAKER_FREQUENCIES[voiceIndexFor(part.lines!, line.speaker, SPEAKER_FREQUENCIES.length)]));
+  return encode(concatenateRawAudio([synthesizePcm(intro, silent), concatenateRawAudio(lines, LINE_PAUSE_SECONDS)], INTRO_PAUSE_SECONDS));
+};
+
+export const preloadListeningTest = async (profile: ExamProfile, level: CefrLevel): Promise<{ content: ListeningTestContent, audioParts: string[] }> => {
+  const content = await generateListeningTestScript(profile, level);
+  const audioParts = await Promise.all(content.parts.map(generatePartAudio));
+  return { content, audioParts };
+};
+
+// Every fixture carries a form; profiles without a form part only get the email.
+export const generateWritingTask = async (profile: ExamProfile, _level: CefrLevel): Promise<WritingTask> => {
+  await simulateLatency();
+  const task = clone(pick(writingFixtures));
+  if (!profile.writing.parts.some(p => p.kind === 'form')) delete task.form;
+  return task;
+};
+
+// Fixture scripts cover three parts; profiles with fewer speaking parts only get the turns they have.
+export const generateSpeakingTask = async (profile: ExamProfile, _level: CefrLevel): Promise<SpeakingTask> => {
+  await simulateLatency();
+  const task = clone(pick(speakingFixtures));
+  return { ...task, turns: task.turns?.filter(t => t.partIndex < profile.speaking.parts.length) };
+};
+
+const STOPWORDS = new Set(['sie', 'ihr', 'ihre', 'ihren', 'ihrem', 'eine', 'einen', 'einem', 'einer', 'der', 'die', 'das', 'den', 'dem', 'und', 'oder', 'mit', 'für', 'was', 'wie', 'wer', 'dass', 'nach', 'schreiben', 'sagen', 'fragen', 'nennen', 'mail', 'e-mail']);
+
+const keywordsOf = (sentence: string) =>
+  words(sentence.toLowerCase())
+    .map(w => w.replace(/[^\p{L}-]/gu, ''))
+    .filter(w => w.length > 3 && !STOPWORDS.has(w));
+
+// The last three sentences of the instructions are treated as the content points to cover.
+const contentPointsOf = (instructions: string) =>
+  instructions.split(/[.!?:]\s+/).map(s => s.trim()).filter(Boolean).slice(-3);
+
+// A point counts as covered when any of its keywords (matched on a 5-letter stem) appears in the text.
+const isPointCovered = (point: string, text: string) => {
+  const lower = text.toLowerCase();
+  return keywordsOf(point).some(k => lower.includes(k.slice(0, 5)));
+};
+
+const NOUN_GENDERS: Record<string, 'der' | 'die' | 'das'> = {
+  Geburtstag: 'der', Freund: 'der', Bahnhof: 'der', Termin: 'der',
+  Party: 'die', Einladung: 'die', Wohnung: 'die', Zeit: 'die', Freundin: 'die',
+  Auto: 'das', Kind: 'das', Buch: 'das', Wochenende: 'das', Restaurant: 'das'
+};
+
+// Articles that are wrong before a noun of the given gender in any case (singular)
+const WRONG_ARTICLES = { der: ['die', 'das'], die: ['das'], das: ['der', 'die'] };
+
+interface ErrorRule {
+  pattern: RegExp;
+  fix: (match: RegExpMatchArray) => string | null; // null when the match is not an error after all
+  category: ErrorCategory;
+  skill?: SkillTag; // When the category's default skill does not fit
+  explanation: string | ((match: RegExpMatchArray) => string);
+}
+
+// Accusative forms of masculine articles and possessives
+const ACCUSATIVE_MASCULINE: Record<string, string> = { der: 'den', ein: 'einen', kein: 'keinen', mein: 'meinen', dein: 'deinen' };
+
+// A few frequent A1 errors the offline grader can spot with patterns.
+const ERROR_RULES: ErrorRule[] = [
+  { pattern: /(?<=^|[.!?]\s+)\p{Ll}\p{L}*/gu, fix: m => m[0][0].toUpperCase() + m[0].slice(1), category: 'spelling', explanation: 'Sentences start with a capital letter.' },
+  { pattern: /\b(ich) (bist|ist|sind|seid)\b/giu, fix: m => `${m[1]} bin`, category: 'conjugation', explanation: 'With "ich", "sein" is "bin".' },
+  { pattern: /\b(du) (bin|ist|sind|seid)\b/giu, fix: m => `${m[1]} bist`, category: 'conjugation', explanation: 'With "du", "sein" is "bist".' },
+  { pattern: /\b(ich) (hast|hat|habt)\b/giu, fix: m => `${m[1]} habe`, category: 'conjugation', explanation: 'With "ich", "haben" is "habe".' },
+  { pattern: /\b(du) (habe|hat|habt)\b/giu, fix: m => `${m[1]} hast`, category: 'conjugation', explanation: 'With "du", "haben" is "hast".' },
+  { pattern: /\b(Heute|Morgen|Dann|Am \p{Lu}\p{L}+) (ich|du|er|sie|wir|ihr) (\p{Ll}+(?:e|st|t|en))\b/giu, fix: m => `${m[1]} ${m[3]} ${m[2]}`, category: 'verb-position', explanation: 'The verb comes second in the sentence, before the subject when another element comes first.' },
+  { pattern: /\bmit (das|die)\b/giu, fix: m => `mit ${m[1].toLowerCase() === 'das' ? 'dem' : 'der'}`, category: 'case', skill: 'articles', explanation: '"mit" takes the dative: das → dem, die → der (feminine) or den (plural).' },
+  {
+    pattern: /\b(habe|hast|hat|haben|brauche|brauchst|braucht|kaufe|kaufst|kauft|suche|suchst|sucht|besuche|besuchst|besucht) (der|ein|kein|mein|dein) (\p{Lu}\p{L}+)/gu,
+    fix: m => (NOUN_GENDERS[m[3]] === 'der' ? `${m[1]} ${ACCUSATIVE_MASCULINE[m[2]]} ${m[3]}` : null),
+    category: 'case',
+    explanation: m => `"${m[1]}" takes the Akkusativ: masculine "${m[2]}" becomes "${ACCUSATIVE_MASCULINE[m[2]]}".`
+  },
+  {
+    pattern: /\b(der|die|das) (\p{Lu}\p{L}+)\b/giu,
+    fix: m => {
+      const gender = NOUN_GENDERS[m[2]];
+      if (!gender || !WRONG_ARTICLES[gender].includes(m[1].toLowerCase())) return null;
+      return `${m[1][0] === m[1][0].toUpperCase() ? gender[0].toUpperCase() + gender.slice(1) : gender} ${m[2]}`;
+    },
+    category: 'article-gender',
+    explanation: m => `"${m[2]}" is ${NOUN_GENDERS[m[2]] === 'der' ? 'masculine (der)' : NOUN_GENDERS[m[2]] === 'die' ? 'feminine (die)' : 'neuter (das)'}.`
+  },
+  { pattern: /\b(gruße|grusse|grüsse)\b/giu, fix: () => 'Grüße', category: 'spelling', explanation: '"Grüße" is written with ü and ß.' }
+];
+
+// Spans of all rule matches in text order; of overlapping matches the earlier (then longer) one wins.
+const findTextErrors = (text: string): TextCorrection[] => {
+  const found = ERROR_RULES.flatMap(rule => [...text.matchAll(rule.pattern)].flatMap((m): TextCorrection[] => {
+    const original = m[0];
+    const replacement = rule.fix(m);
+    if (replacement === null || replacement === original) return [];
+    const start = m.index!;
+    const explanation = typeof rule.explanation === 'function' ? rule.explanation(m) : rule.explanation;
+    return [{ original, replacement, category: rule.category, skill: rule.skill || correctionSkill(rule), explanation, start, end: start + original.length }];
+  }));
+  return found
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((c, i, all) => !all.slice(0, i).some(prev => c.start < prev.end && c.end > prev.start));
+};
+
+const clampScore = (score: number) => Math.max(0, Math.min(100, Math.round(score)));
+
+export const evaluateWriting = async (task: WritingTask, userText: string, level: CefrLevel): Promise<EvaluationResult> => {
+  await simulateLatency();
+  const corrections: string[] = [];
+  const wordCount = words(userText).length;
+  // A1 emails are about 30 words; higher levels expect proportionally longer texts
+  const targetWords = Math.round(30 * levelSettings[level].textLengthFactor);
+
+  const points = contentPointsOf(task.instructions);
+  const missed = points.filter(p => !isPointCovered(p, userText));
+  missed.forEach(p => corrections.push(`Content point not covered: "${p}"`));
+
+  const hasGreeting = /\b(liebe|lieber|hallo|hi|sehr geehrte|guten tag)\b/i.test(userText);
+  const hasClosing = /(grüße|gruß|bis bald|tschüss|ciao)/i.test(userText);
+  if (!hasGreeting) corrections.push('Start the email with a greeting, e.g. "Liebe Anna," or "Hallo Markus,".');
+  if (!hasClosing) corrections.push('End the email with a closing, e.g. "Viele Grüße".');
+  if (wordCount < targetWords * 0.8) corrections.push(`Your text has ${wordCount} words. Aim for about ${targetWords} words.`);
+
+  const sentences = userText.split(/[.!?]\s+/).map(s => s.trim()).filter(Boolean);
+  const lowercaseStarts = sentences.filter(s => /^\p{Ll}/u.test(s)).length;
+  if (lowercaseStarts > 0) corrections.push('Start every sentence with a capital letter.');
+
+  const textCorrections = findTextErrors(userText);
+  const coverage = points.length ? (points.length - missed.length) / points.length : 1;
+  const lengthRatio = Math.min(1, wordCount / targetWords);
+  const criteria: CriterionScore[] = [
+    {
+      id: 'task-completion',
+      score: toHalfPoints(coverage * 3 + lengthRatio),
+      maxScore: getCriterion('task-completion').maxScore,
+      comment: `${points.length - missed.length} of ${points.length} content points covered, ${wordCount} of about ${targetWords} words.`
+    },
+    {
+      id: 'communicative-design',
+      score: (hasGreeting ? 1 : 0) + (hasClosing ? 1 : 0) + (sentences.length >= points.length ? 1 : 0),
+      maxScore: getCriterion('communicative-design').maxScore,
+      comment: [hasGreeting ? 'Greeting present' : 'No greeting', hasClosing ? 'closing present' : 'no closing'].join(', ') + '.'
+    },
+    {
+      id: 'formal-correctness',
+      score: Math.max(0, 3 - textCorrections.length * 0.5),
+      maxScore: getCriterion('formal-correctness').maxScore,
+      comment: `${textCorrections.length} error(s) found by simple pattern checks; the offline grader does not analyse grammar fully.`
+    }
+  ];
+  const contentPoints = points.map(point => ({ point, covered: !missed.includes(point) }));
+
+  const feedback = missed.length === 0
+    ? 'Offline evaluation: all content points are covered. Check your spelling and word order.'
+    : `Offline evaluation: ${points.length - missed.length} of ${points.length} content points are covered.`;
+
+  return { score: clampScore(rubricPercent(criteria)), feedback, corrections, textCorrections, criteria, contentPoints };
+};
+
+// Rough size of a webm/opus recording per second of speech, used to estimate duration offline.
+const WEBM_BYTES_PER_SECOND = 6000;
+
+const recordingSeconds = (audioBase64: string) => (audioBase64.length * 0.75) / WEBM_BYTES_PER_SECOND;
+
+// Offline examiner: asks for spelling after the opening turn and for more detail after very short answers.
+export const generateFollowUp = async (task: SpeakingTask, turn: ExaminerTurn, input: { audioBase64?: string, text?: string }, _level: CefrLevel): Promise<ExaminerTurn | null> => {
+  await simulateLatency();
+  if (turn.followUp) return null;
+  if (turnsFor(task)[0].prompt === turn.prompt) {
+    return { partIndex: turn.partIndex, prompt: 'Danke. Buchstabieren Sie bitte Ihren Nachnamen.', followUp: true };
+  }
+  const short = input.text ? words(input.text).length < 6 : recordingSeconds(input.audioBase64 || '') < 4;
+  return short ? { partIndex: turn.partIndex, prompt: 'Können Sie dazu noch etwas mehr sagen?', followUp: true } : null;
+};
+
+export const generateExaminerAudio = async (text: string): Promise<string> => generateAudioFromScript(text);
+
+const EXPLANATION_TEMPLATES: Record<ExplanationLanguage, { quoted: (quote: string, answer: string) => string, unquoted: (answer: string) => string }> = {
+  English: {
+    quoted: (quote, answer) => `The text says: "${quote}" That is why "${answer}" is the correct answer.`,
+    unquoted: answer => `"${answer}" is the correct answer. Read the text again and look for the words of the question.`
+  },
+  Malayalam: {
+    quoted: (quote, answer) => `പാഠത്തിൽ ഇങ്ങനെ പറയുന്നു: "${quote}" അതുകൊണ്ട് "${answer}" ആണ് ശരിയായ ഉത്തരം.`,
+    unquoted: answer => `"${answer}" ആണ് ശരിയായ ഉത്തരം. ചോദ്യത്തിലെ വാക്കുകൾ പാഠത്തിൽ വീണ്ടും തിരയുക.`
+  },
+  Tamil: {
+    quoted: (quote, answer) => `உரையில் இவ்வாறு கூறப்பட்டுள்ளது: "${quote}" அதனால் "${answer}" சரியான பதில்.`,
+    unquoted: answer => `"${answer}" சரியான பதில். கேள்வியில் உள்ள சொற்களை உரையில் மீண்டும் தேடுங்கள்.`
+  }
+};
+
+// Offline explanation: the passage sentence that best matches the question, in a fixed sentence frame.
+export const explainAnswer = async (part: TestPart, question: Question, language: ExplanationLanguage): Promise<AnswerExplanation> => {
+  await simulateLatency();
+  const answer = correctAnswerLabel(question);
+  const quote = verifiedQuote(part, question, '');
+  const template = EXPLANATION_TEMPLATES[language];
+  return { text: quote ? template.quoted(quote, answer) : template.unquoted(answer), quote };
+};
+
+export const evaluateSpeaking = async (task: SpeakingTask, input: { audioBase64?: string, text?: string }, level: CefrLevel): Promise<EvaluationResult> => {
+  await simulateLatency();
+  const targetSeconds = task.answerSeconds || levelSettings[level].speakingSeconds;
+  const targetWords = Math.round(targetSeconds * 1.3);
+  if (input.text) {
+    const wordCount = words(input.text).length;
+    const lower = input.text.toLowerCase();
+    const covered = keywordsOf(task.instructions).filter(k => lower.includes(k.slice(0, 5))).length;
+    const contentScore = clampScore(Math.min(1, covered / 3) * 100);
+    const languageScore = clampScore(Math.min(1, wordCount / targetWords) * 100);
+    const corrections = wordCount < targetWords ? [`You used ${wordCount} words. Try to say at least ${targetWords} words.`] : [];
+    // Typed answers have no pronunciation; filler words are the only fluency signal available offline
+    const speechNotes: SpeechNote[] = (input.text.match(/(?<!\p{L})(ähm|äh|öhm|hm+)(?!\p{L})/giu) || []).map((word): SpeechNote => ({
+      word,
+      kind: 'fluency',
+      note: 'Filler word. A short silent pause sounds more natural.'
+    }));
+    const transcript = input.text.trim();
+    return {
+      score: clampScore((contentScore + languageScore) / 2),
+      contentScore,
+      languageScore,
+      transcript,
+      textCorrections: findTextErrors(transcript),
+      speechNotes,
+      feedback: 'Offline evaluation based on length and topic coverage of your answer.',
+      corrections
+    };
+  }
+
+  const seconds = input.audioBase64 ? recordingSeconds(input.audioBase64) : 0;
+  const score = clampScore(Math.min(1, seconds / targetSeconds) * 100);
+  const corrections = seconds < targetSeconds ? [`Your recording is about ${Math.round(seconds)} seconds long. Try to speak for at least ${targetSeconds} seconds.`] : [];
+  return { score, feedback: 'Offline evaluation based on recording length only; speech is not transcribed or analysed.', corrections, speechNotes: [] };
+};
@@ -0,0 +1,280 @@
+import { ReadingTestContent, ListeningTestContent, WritingTask, SpeakingTask } from "../types.ts";
+
+// Bundled test content used by the offline fixture provider.
+// Each list holds interchangeable variants; one is picked at random per test.
+
+export const readingFixtures: ReadingTestContent[] = [
+  {
+    parts: [
+      {
+        id: 'r1',
+        type: 'Email',
+        title: 'Eine E-Mail von Anna',
+        content: 'Liebe Maria,\nich bin jetzt in Berlin. Die Wohnung ist klein, aber schön. Am Samstag gehe ich mit Paul ins Kino. Kommst du mit? Der Film beginnt um 20 Uhr. Am Sonntag besuche ich meine Eltern.\nViele Grüße\nAnna',
+        questions: [
+          { kind: 'multiple-choice', id: 'r1q1', text: 'Wo ist Anna jetzt?', skill: 'vocabulary', theme: 'Wohnen', options: ['In Hamburg', 'In Berlin', 'In München'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'r1q2', text: 'Was macht Anna am Samstag?', skill: 'vocabulary', theme: 'Freizeit', options: ['Sie geht ins Kino.', 'Sie besucht ihre Eltern.', 'Sie kauft eine Wohnung.'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'r1q3', text: 'Wann beginnt der Film?', skill: 'numbers-time', theme: 'Freizeit', options: ['Um 18 Uhr', 'Um 19 Uhr', 'Um 20 Uhr'], correctAnswerIndex: 2 }
+        ]
+      },
+      {
+        id: 'r2',
+        type: 'Notice',
+        title: 'Am Supermarkt',
+        content: 'Liebe Kunden! Ab Montag sind wir von 8 bis 21 Uhr für Sie da. Am Sonntag ist der Markt geschlossen. Heute: Äpfel 1 Kilo nur 1,99 Euro!',
+        questions: [
+          { kind: 'multiple-choice', id: 'r2q1', text: 'Wann ist der Supermarkt ab Montag geöffnet?', skill: 'numbers-time', theme: 'Einkaufen', options: ['Von 8 bis 21 Uhr', 'Von 9 bis 20 Uhr', 'Von 7 bis 22 Uhr'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'r2q2', text: 'Am Sonntag ist der Supermarkt ...', skill: 'numbers-time', theme: 'Einkaufen', options: ['bis 12 Uhr offen.', 'geschlossen.', 'den ganzen Tag offen.'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'r2q3', text: 'Was kostet ein Kilo Äpfel heute?', skill: 'numbers-time', theme: 'Einkaufen', options: ['2,99 Euro', '1,49 Euro', '1,99 Euro'], correctAnswerIndex: 2 }
+        ]
+      }
+    ]
+  },
+  {
+    parts: [
+      {
+        id: 'r1',
+        type: 'Email',
+        title: 'Eine Einladung',
+        content: 'Hallo Tom,\nam Freitag habe ich Geburtstag. Ich mache eine Party bei mir zu Hause. Die Party beginnt um 19 Uhr. Bitte bring etwas zu trinken mit. Meine Adresse ist Gartenstraße 12.\nBis bald\nLena',
+        questions: [
+          { kind: 'multiple-choice', id: 'r1q1', text: 'Warum schreibt Lena?', skill: 'vocabulary', theme: 'Feste', options: ['Sie hat Geburtstag.', 'Sie hat eine neue Arbeit.', 'Sie ist krank.'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'r1q2', text: 'Was soll Tom mitbringen?', skill: 'modal-verbs', theme: 'Feste', options: ['Einen Kuchen', 'Etwas zu trinken', 'Musik'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'r1q3', text: 'Wo ist die Party?', skill: 'vocabulary', theme: 'Feste', options: ['Im Restaurant', 'Im Park', 'Bei Lena zu Hause'], correctAnswerIndex: 2 }
+        ]
+      },
+      {
+        id: 'r2',
+        type: 'Sign',
+        title: 'In der Arztpraxis',
+        content: 'Praxis Dr. Weber. Sprechstunde: Montag bis Freitag 9–12 Uhr. Mittwochnachmittag geschlossen. Bitte bringen Sie Ihre Versichertenkarte mit.',
+        questions: [
+          { kind: 'multiple-choice', id: 'r2q1', text: 'Wann ist Sprechstunde?', skill: 'numbers-time', theme: 'Arzttermin', options: ['Am Wochenende', 'Montag bis Freitag vormittags', 'Nur am Mittwoch'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'r2q2', text: 'Was ist am Mittwochnachmittag?', skill: 'numbers-time', theme: 'Arzttermin', options: ['Die Praxis ist geschlossen.', 'Die Praxis ist bis 18 Uhr offen.', 'Es gibt keine Termine am Vormittag.'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'r2q3', text: 'Was muss man mitbringen?', skill: 'modal-verbs', theme: 'Arzttermin', options: ['Ein Foto', 'Den Reisepass', 'Die Versichertenkarte'], correctAnswerIndex: 2 }
+        ]
+      }
+    ]
+  },
+  {
+    parts: [
+      {
+        id: 'r1',
+        type: 'Email',
+        title: 'Eine Nachricht von Jonas',
+        content: 'Hallo Sara,\nich bin krank und kann morgen nicht zum Deutschkurs kommen. Kannst du mir bitte die Hausaufgaben schicken? Am Freitag bin ich wieder da. Dann trinken wir zusammen Kaffee.\nLiebe Grüße\nJonas',
+        questions: [
+          { kind: 'true-false', id: 'r1q1', text: 'Jonas geht morgen zum Deutschkurs.', skill: 'vocabulary', theme: 'Schule und Kurs', correctAnswer: false },
+          { kind: 'true-false', id: 'r1q2', text: 'Sara soll Jonas die Hausaufgaben schicken.', skill: 'modal-verbs', theme: 'Schule und Kurs', correctAnswer: true },
+          { kind: 'true-false', id: 'r1q3', text: 'Jonas ist am Freitag wieder im Kurs.', skill: 'numbers-time', theme: 'Schule und Kurs', correctAnswer: true },
+          { kind: 'true-false', id: 'r1q4', text: 'Jonas und Sara gehen am Freitag ins Kino.', skill: 'vocabulary', theme: 'Freizeit', correctAnswer: false },
+          { kind: 'true-false', id: 'r1q5', text: 'Jonas ist krank.', skill: 'vocabulary', theme: 'Gesundheit', correctAnswer: true }
+        ]
+      },
+      {
+        id: 'r2',
+        type: 'Advertisement',
+        title: 'Anzeigen',
+        content: 'Lesen Sie die Situationen und die Anzeigen. Welche Anzeige passt? Für eine Situation gibt es keine passende Anzeige.',
+        questions: [
+          {
+            kind: 'matching',
+            id: 'r2q1',
+            text: 'Welche Anzeige passt zu welcher Situation?', skill: 'vocabulary', theme: 'Anzeigen',
+            items: [
+              'Sie möchten Deutsch am Abend lernen.',
+              'Sie suchen ein gebrauchtes Fahrrad.',
+              'Sie brauchen eine Wohnung in der Stadtmitte.',
+              'Sie möchten am Wochenende schwimmen gehen.',
+              'Ihr Kind braucht Hilfe bei Mathematik.',
+              'Sie möchten ein Auto kaufen.'
+            ],
+            options: [
+              'Volkshochschule: Deutschkurse Montag und Mittwoch, 18–20 Uhr.',
+              'Verkaufe Damenfahrrad, 3 Jahre alt, nur 80 Euro.',
+              '2-Zimmer-Wohnung im Zentrum, 650 Euro warm, ab sofort.',
+              'Hallenbad Nord: Samstag und Sonntag 8–18 Uhr geöffnet.',
+              'Nachhilfe in Mathe und Englisch für Schüler, 15 Euro pro Stunde.',
+              'Fahrschule Meyer: Führerschein in 6 Wochen.',
+              'Gitarrenunterricht für Anfänger, Dienstag 17 Uhr.',
+              'Haus mit Garten am Stadtrand zu vermieten.'
+            ],
+            correctMatches: [0, 1, 2, 3, 4, -1]
+          }
+        ]
+      },
+      {
+        id: 'r3',
+        type: 'Sign',
+        title: 'Im Bahnhof',
+        content: 'Reisezentrum: Mo–Fr 7–20 Uhr, Sa 8–14 Uhr. Fahrkarten gibt es auch am Automaten. Toiletten im Untergeschoss, 50 Cent.',
+        questions: [
+          { kind: 'true-false', id: 'r3q1', text: 'Das Reisezentrum ist am Samstag bis 20 Uhr geöffnet.', skill: 'numbers-time', theme: 'Reisen', correctAnswer: false },
+          { kind: 'true-false', id: 'r3q2', text: 'Man kann Fahrkarten am Automaten kaufen.', skill: 'modal-verbs', theme: 'Reisen', correctAnswer: true },
+          { kind: 'true-false', id: 'r3q3', text: 'Die Toiletten sind kostenlos.', skill: 'numbers-time', theme: 'Reisen', correctAnswer: false },
+          { kind: 'true-false', id: 'r3q4', text: 'Die Toiletten sind im Untergeschoss.', skill: 'vocabulary', theme: 'Reisen', correctAnswer: true },
+          { kind: 'true-false', id: 'r3q5', text: 'Das Reisezentrum öffnet montags um 7 Uhr.', skill: 'numbers-time', theme: 'Reisen', correctAnswer: true }
+        ]
+      }
+    ]
+  }
+];
+
+export const listeningFixtures: ListeningTestContent[] = [
+  {
+    parts: [
+      {
+        id: 'l1',
+        type: 'Dialogue',
+        title: 'Im Café',
+        content: 'Kellner: Guten Tag, was möchten Sie trinken?\nFrau Weber: Einen Kaffee, bitte.\nKellner: Mit Milch?\nFrau Weber: Nein, ohne Milch. Und ein Stück Kuchen, bitte.\nKellner: Das macht 5 Euro 50.',
+        lines: [
+          { speaker: 'Kellner', text: 'Guten Tag, was möchten Sie trinken?' },
+          { speaker: 'Frau Weber', text: 'Einen Kaffee, bitte.' },
+          { speaker: 'Kellner', text: 'Mit Milch?' },
+          { speaker: 'Frau Weber', text: 'Nein, ohne Milch. Und ein Stück Kuchen, bitte.' },
+          { speaker: 'Kellner', text: 'Das macht 5 Euro 50.' }
+        ],
+        questions: [
+          { kind: 'multiple-choice', id: 'l1q1', text: 'Was trinkt die Frau?', skill: 'vocabulary', theme: 'Essen und Trinken', options: ['Tee', 'Kaffee ohne Milch', 'Kaffee mit Milch'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'l1q2', text: 'Was isst sie?', skill: 'akkusativ', theme: 'Essen und Trinken', options: ['Kuchen', 'Ein Brötchen', 'Nichts'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'l1q3', text: 'Wie viel kostet das?', skill: 'numbers-time', theme: 'Essen und Trinken', options: ['4,50 Euro', '5,15 Euro', '5,50 Euro'], correctAnswerIndex: 2 }
+        ]
+      },
+      {
+        id: 'l2',
+        type: 'Announcement',
+        title: 'Am Bahnhof',
+        content: 'Sprecherin: Achtung auf Gleis 3. Der Zug nach Köln hat heute 15 Minuten Verspätung. Abfahrt ist jetzt um 10 Uhr 45. Wir bitten um Entschuldigung.',
+        lines: [
+          { speaker: 'Sprecherin', text: 'Achtung auf Gleis 3. Der Zug nach Köln hat heute 15 Minuten Verspätung. Abfahrt ist jetzt um 10 Uhr 45. Wir bitten um Entschuldigung.' }
+        ],
+        questions: [
+          { kind: 'multiple-choice', id: 'l2q1', text: 'Wohin fährt der Zug?', skill: 'vocabulary', theme: 'Reisen', options: ['Nach Köln', 'Nach Bonn', 'Nach Berlin'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'l2q2', text: 'Wie viel Verspätung hat der Zug?', skill: 'numbers-time', theme: 'Reisen', options: ['5 Minuten', '15 Minuten', '50 Minuten'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'l2q3', text: 'Auf welchem Gleis fährt der Zug?', skill: 'numbers-time', theme: 'Reisen', options: ['Gleis 2', 'Gleis 13', 'Gleis 3'], correctAnswerIndex: 2 }
+        ]
+      }
+    ],
+    fullScript: ''
+  },
+  {
+    parts: [
+      {
+        id: 'l1',
+        type: 'Dialogue',
+        title: 'Ein Termin',
+        content: 'Lisa: Hallo Peter, hast du am Donnerstag Zeit?\nPeter: Nein, am Donnerstag arbeite ich.\nLisa: Und am Freitag?\nPeter: Ja, am Freitag geht es.\nLisa: Treffen wir uns um drei Uhr im Park?\nPeter: Gut, bis Freitag!',
+        lines: [
+          { speaker: 'Lisa', text: 'Hallo Peter, hast du am Donnerstag Zeit?' },
+          { speaker: 'Peter', text: 'Nein, am Donnerstag arbeite ich.' },
+          { speaker: 'Lisa', text: 'Und am Freitag?' },
+          { speaker: 'Peter', text: 'Ja, am Freitag geht es.' },
+          { speaker: 'Lisa', text: 'Treffen wir uns um drei Uhr im Park?' },
+          { speaker: 'Peter', text: 'Gut, bis Freitag!' }
+        ],
+        questions: [
+          { kind: 'multiple-choice', id: 'l1q1', text: 'Warum hat Peter am Donnerstag keine Zeit?', skill: 'akkusativ', theme: 'Verabredung', options: ['Er arbeitet.', 'Er ist krank.', 'Er reist nach Paris.'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'l1q2', text: 'Wann treffen sie sich?', skill: 'numbers-time', theme: 'Verabredung', options: ['Am Donnerstag', 'Am Samstag', 'Am Freitag'], correctAnswerIndex: 2 },
+          { kind: 'multiple-choice', id: 'l1q3', text: 'Wo treffen sie sich?', skill: 'vocabulary', theme: 'Verabredung', options: ['Im Café', 'Im Park', 'Im Büro'], correctAnswerIndex: 1 }
+        ]
+      },
+      {
+        id: 'l2',
+        type: 'Announcement',
+        title: 'Im Kaufhaus',
+        content: 'Sprecher: Liebe Kunden, heute im dritten Stock: alle Schuhe 20 Prozent billiger. Unser Restaurant im ersten Stock ist bis 19 Uhr geöffnet. Vielen Dank für Ihren Einkauf.',
+        lines: [
+          { speaker: 'Sprecher', text: 'Liebe Kunden, heute im dritten Stock: alle Schuhe 20 Prozent billiger. Unser Restaurant im ersten Stock ist bis 19 Uhr geöffnet. Vielen Dank für Ihren Einkauf.' }
+        ],
+        questions: [
+          { kind: 'multiple-choice', id: 'l2q1', text: 'Was ist heute billiger?', skill: 'vocabulary', theme: 'Einkaufen', options: ['Jacken', 'Schuhe', 'Taschen'], correctAnswerIndex: 1 },
+          { kind: 'multiple-choice', id: 'l2q2', text: 'Wo ist das Restaurant?', skill: 'vocabulary', theme: 'Einkaufen', options: ['Im ersten Stock', 'Im dritten Stock', 'Im Erdgeschoss'], correctAnswerIndex: 0 },
+          { kind: 'multiple-choice', id: 'l2q3', text: 'Bis wann ist das Restaurant geöffnet?', skill: 'numbers-time', theme: 'Einkaufen', options: ['Bis 18 Uhr', 'Bis 20 Uhr', 'Bis 19 Uhr'], correctAnswerIndex: 2 }
+        ]
+      }
+    ],
+    fullScript: ''
+  },
+  {
+    parts: [
+      {
+        id: 'l1',
+        type: 'Announcement',
+        title: 'Am Flughafen',
+        content: 'Sprecherin: Achtung, eine Durchsage für die Passagiere nach Wien. Ihr Flug LH 234 startet heute nicht um 14 Uhr, sondern um 15 Uhr 30. Bitte gehen Sie zu Ausgang B 12. Vielen Dank.',
+        lines: [
+          { speaker: 'Sprecherin', text: 'Achtung, eine Durchsage für die Passagiere nach Wien. Ihr Flug LH 234 startet heute nicht um 14 Uhr, sondern um 15 Uhr 30. Bitte gehen Sie zu Ausgang B 12. Vielen Dank.' }
+        ],
+        questions: [
+          { kind: 'true-false', id: 'l1q1', text: 'Der Flug nach Wien startet um 14 Uhr.', skill: 'numbers-time', theme: 'Reisen', correctAnswer: false },
+          { kind: 'true-false', id: 'l1q2', text: 'Die Passagiere sollen zu Ausgang B 12 gehen.', skill: 'modal-verbs', theme: 'Reisen', correctAnswer: true },
+          { kind: 'true-false', id: 'l1q3', text: 'Der Flug hat die Nummer LH 234.', skill: 'numbers-time', theme: 'Reisen', correctAnswer: true },
+          { kind: 'true-false', id: 'l1q4', text: 'Der Flug geht nach Zürich.', skill: 'vocabulary', theme: 'Reisen', correctAnswer: false }
+        ]
+      }
+    ],
+    fullScript: ''
+  }
+];
+
+export const writingFixtures: WritingTask[] = [
+  {
+    topic: 'Einladung zum Essen',
+    instructions: 'Ihr Freund Markus lädt Sie am Samstag zum Essen ein. Schreiben Sie eine E-Mail an Markus: Danken Sie für die Einladung. Sagen Sie, dass Sie kommen. Fragen Sie, was Sie mitbringen sollen.',
+    form: {
+      instructions: 'Ihre Freundin Olga Petrova möchte einen Deutschkurs an der Volkshochschule machen. Füllen Sie für Olga das Anmeldeformular aus.',
+      sourceText: 'Olga Petrova kommt aus Russland und wohnt seit März in Deutschland. Sie ist am 14. Februar 1994 geboren. Ihre Adresse ist Bahnhofstraße 12 in 60311 Frankfurt. Olga möchte den Kurs am Abend besuchen, weil sie tagsüber arbeitet. Sie bezahlt die Kursgebühr per Überweisung.',
+      fields: [
+        { label: 'Name, Vorname', kind: 'text', expected: 'Petrova, Olga' },
+        { label: 'Geburtsdatum', kind: 'date', expected: '14.02.1994' },
+        { label: 'Straße, Hausnummer', kind: 'text', expected: 'Bahnhofstraße 12' },
+        { label: 'Postleitzahl', kind: 'number', expected: '60311' },
+        { label: 'Kurszeit', kind: 'choice', expected: 'abends', options: ['vormittags', 'nachmittags', 'abends'] },
+        { label: 'Zahlungsart', kind: 'choice', expected: 'Überweisung', options: ['bar', 'Überweisung', 'Kreditkarte'] }
+      ]
+    }
+  },
+  {
+    topic: 'Deutschkurs',
+    instructions: 'Sie können morgen nicht zum Deutschkurs kommen. Schreiben Sie eine E-Mail an Ihre Lehrerin Frau Schmidt: Entschuldigen Sie sich. Nennen Sie den Grund. Fragen Sie nach den Hausaufgaben.',
+    form: {
+      instructions: 'Ihr Kollege Ahmed Karimi möchte Mitglied im Sportverein werden. Füllen Sie für Ahmed das Formular aus.',
+      sourceText: 'Ahmed Karimi ist 29 Jahre alt und am 3. Juli 1997 in Kabul geboren. Er wohnt mit seiner Frau und zwei Kindern in der Gartenstraße 5, 28195 Bremen. Ahmed spielt gern Fußball und möchte am Wochenende trainieren. Seine Telefonnummer ist 0421 556 789.',
+      fields: [
+        { label: 'Familienname', kind: 'text', expected: 'Karimi' },
+        { label: 'Geburtsort', kind: 'text', expected: 'Kabul' },
+        { label: 'Anzahl der Kinder', kind: 'number', expected: '2' },
+        { label: 'Telefon', kind: 'number', expected: '0421 556 789' },
+        { label: 'Sportart', kind: 'choice', expected: 'Fußball', options: ['Schwimmen', 'Fußball', 'Tennis'] }
+      ]
+    }
+  }
+];
+
+export const speakingFixtures: SpeakingTask[] = [
+  {
+    topic: 'Sich vorstellen',
+    instructions: 'Stellen Sie sich vor: Name, Alter, Land, Wohnort, Sprachen, Beruf und Hobbys.',
+    turns: [
+      { partIndex: 0, prompt: 'Guten Tag. Bitte stellen Sie sich vor.', card: 'Name? Alter? Land? Wohnort? Sprachen? Beruf? Hobby?' },
+      { partIndex: 0, prompt: 'Wie ist Ihre Telefonnummer?' },
+      { partIndex: 1, prompt: 'Das Thema ist Essen und Trinken. Bitte fragen Sie mich.', card: 'Essen und Trinken – Frühstück?' },
+      { partIndex: 1, prompt: 'Und jetzt antworten Sie bitte: Was trinken Sie gern?', card: 'Essen und Trinken – Getränke?' },
+      { partIndex: 2, prompt: 'Bitte formulieren Sie eine Bitte zu dieser Karte.', card: 'Fenster (Bild: ein geschlossenes Fenster)' },
+      { partIndex: 2, prompt: 'Und zu dieser Karte?', card: 'Kuli (Bild: ein Kugelschreiber)' }
+    ]
+  },
+  {
+    topic: 'Freizeit',
+    instructions: 'Erzählen Sie: Was machen Sie am Wochenende? Mit wem? Was machen Sie gern?',
+    turns: [
+      { partIndex: 0, prompt: 'Hallo. Wie heißen Sie, und woher kommen Sie?', card: 'Name? Land? Wohnort? Sprachen?' },
+      { partIndex: 0, prompt: 'Was machen Sie am Wochenende?' },
+      { partIndex: 1, prompt: 'Unser Thema ist Freizeit. Stellen Sie mir bitte eine Frage.', card: 'Freizeit – Sport?' },
+      { partIndex: 1, prompt: 'Ich frage Sie: Was machen Sie am Abend?', card: 'Freizeit – Abend?' },
+      { partIndex: 2, prompt: 'Bitten Sie mich um etwas.', card: 'Fahrrad (Bild: ein Fahrrad)' },
+      { partIndex: 2, prompt: 'Und noch eine Bitte, bitte.', card: 'Kaffee (Bild: eine Tasse Kaffee)' }
+    ]
+  }
+];
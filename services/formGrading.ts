@@ -0,0 +1,101 @@
+import { FormField, FormTask, EvaluationResult, RawScore } from "../types.ts";
+import { WRITING_CRITERIA } from "./writingRubric.ts";
+
+// Local grading for the Schreiben Teil 1 form. Answers are compared with the expected values after
+// normalising away formatting differences (case, punctuation, umlaut spelling, date and number formats,
+// name order), so only the information itself counts. One point per field, as in the exam.
+
+export interface FieldGrade {
+  field: FormField;
+  answer: string;
+  correct: boolean;
+}
+
+export interface FormGrade {
+  fields: FieldGrade[];
+  points: number;
+  maxPoints: number;
+}
+
+const MONTHS = ['januar', 'februar', 'maerz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'];
+
+const normalizeText = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFC')
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/str\b\.?/g, 'strasse') // "Bahnhofstr." = "Bahnhofstraße"
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// "Müller, Anna" and "Anna Müller" are the same name; word order never matters in form entries.
+const tokens = (value: string) => normalizeText(value).split(' ').filter(Boolean).sort().join(' ');
+
+interface DateParts { day: number; month: number; year: number }
+
+const parseDate = (value: string): DateParts | null => {
+  const text = normalizeText(value);
+  const iso = text.match(/^(\d{4}) (\d{1,2}) (\d{1,2})$/);
+  if (iso) return { year: +iso[1], month: +iso[2], day: +iso[3] };
+  const numeric = text.match(/^(\d{1,2}) (\d{1,2}) (\d{2}|\d{4})$/);
+  if (numeric) return { day: +numeric[1], month: +numeric[2], year: +numeric[3] };
+  const named = text.match(/^(\d{1,2}) (\p{L}+) (\d{2}|\d{4})$/u);
+  const month = named ? MONTHS.findIndex(m => m.startsWith(named[2].slice(0, 3))) : -1;
+  if (named && month >= 0) return { day: +named[1], month: month + 1, year: +named[3] };
+  return null;
+};
+
+// Two-digit years match the expected year's last two digits.
+const sameDate = (answer: string, expected: string) => {
+  const a = parseDate(answer);
+  const e = parseDate(expected);
+  if (!a || !e) return tokens(answer) === tokens(expected);
+  return a.day === e.day && a.month === e.month && (a.year === e.year || (a.year < 100 && a.year === e.year % 100));
+};
+
+const NUMBER_WORDS = ['null', 'eins', 'zwei', 'drei', 'vier', 'fuenf', 'sechs', 'sieben', 'acht', 'neun', 'zehn', 'elf', 'zwoelf'];
+
+// Phone numbers and postcodes are compared digit by digit; small counts may be written as words.
+const digits = (value: string) => {
+  const text = normalizeText(value);
+  const word = NUMBER_WORDS.indexOf(text === 'ein' || text === 'eine' ? 'eins' : text);
+  return word >= 0 ? String(word) : text.replace(/\D/g, '');
+};
+
+export const isFieldCorrect = (field: FormField, answer: string): boolean => {
+  if (!answer.trim()) return false;
+  switch (field.kind) {
+    case 'date':
+      return sameDate(answer, field.expected);
+    case 'number':
+      return digits(answer) !== '' && digits(answer) === digits(field.expected);
+    case 'choice':
+      return normalizeText(answer) === normalizeText(field.expected);
+    case 'text':
+      return tokens(answer) === tokens(field.expected);
+  }
+};
+
+export const gradeForm = (form: FormTask, answers: string[]): FormGrade => {
+  const fields = form.fields.map((field, i) => {
+    const answer = answers[i] || '';
+    return { field, answer, correct: isFieldCorrect(field, answer) };
+  });
+  return { fields, points: fields.filter(f => f.correct).length, maxPoints: fields.length };
+};
+
+const EMAIL_MAX_POINTS = WRITING_CRITERIA.reduce((sum, c) => sum + c.maxScore, 0);
+
+// Raw writing points over both parts: form points plus the email's rubric points (or its percentage
+// scaled to the rubric maximum when the rubric is missing).
+export const writingRawScore = (form: FormGrade | null, email: EvaluationResult): RawScore => {
+  const emailPoints = email.criteria
+    ? email.criteria.reduce((sum, c) => sum + c.score, 0)
+    : (email.score / 100) * EMAIL_MAX_POINTS;
+  return { earned: (form?.points || 0) + emailPoints, possible: (form?.maxPoints || 0) + EMAIL_MAX_POINTS };
+};
+
+export const combineWritingScore = (form: FormGrade, email: EvaluationResult): number => {
+  const { earned, possible } = writingRawScore(form, email);
+  return Math.round((earned / possible) * 100);
+};
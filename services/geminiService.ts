@@ -1,10 +1,24 @@
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ReadingTestContent, ListeningTestContent, WritingTask, SpeakingTask, EvaluationResult } from "../types.ts";
+import { ReadingTestContent, ListeningTestContent, TestPart, ScriptLine, WritingTask, SpeakingTask, ExaminerTurn, EvaluationResult, ValidationReport, ExamProfile, TestModuleSpec, TestPartSpec, CefrLevel, Question, ExplanationLanguage, AnswerExplanation } from "../types.ts";
+import { levelSettings } from "./cefrLevels.ts";
+import { WRITING_CRITERIA } from "./writingRubric.ts";
+import { ERROR_CATEGORIES } from "./textCorrections.ts";
+import { SKILL_TAGS } from "./skillTags.ts";
+import { correctAnswerLabel } from "./answerExplanations.ts";
+import { decode, encode, concatenateRawAudio } from "./audioUtils.ts";
+import { speakersOf, voiceIndexFor, partIntro, INTRO_PAUSE_SECONDS, LINE_PAUSE_SECONDS } from "./scriptLines.ts";
+import { validateReadingTest, validateListeningTest, validateWritingTask, validateSpeakingTask, validateEvaluationResult, validateWritingEvaluation, validateSpeakingEvaluation, validateFollowUp, validateAnswerExplanation, validateTestPart, summarizeReport, TestContentSpec } from "./contentValidator.ts";
+import { verifyAnswerKeys, getVerificationMode, asChoice, AnswerVerdict } from "./answerKeyVerifier.ts";
 
 const modelGeneration = 'gemini-3-flash-preview';
 const modelEvaluation = 'gemini-3-flash-preview'; 
 const modelTTS = 'gemini-2.5-flash-preview-tts';
 
+// The narrator reads the part intros; script speakers get the other voices in order of appearance.
+const NARRATOR_VOICE = 'Kore';
+const SPEAKER_VOICES = ['Puck', 'Aoede', 'Charon', 'Leda', 'Fenrir', 'Zephyr'];
+const EXAMINER_VOICE = 'Charon';
+
 // The platform automatically injects process.env.API_KEY. 
 // We create a fresh instance per call to ensure we catch any updates to the environment.
 const getAI = () => {
@@ -42,187 +56,448 @@ const runWithRetry = async <T>(operation: () => Promise<T>, retries = 3, baseDel
   throw lastError;
 };
 
-export const generateReadingTest = async (): Promise<ReadingTestContent> => {
+const testPartSchema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    type: { type: Type.STRING },
+    title: { type: Type.STRING },
+    content: { type: Type.STRING },
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { speaker: { type: Type.STRING }, text: { type: Type.STRING } }
+      }
+    },
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: ['multiple-choice', 'true-false', 'matching'] },
+          text: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          correctAnswerIndex: { type: Type.INTEGER },
+          correctAnswer: { type: Type.BOOLEAN },
+          items: { type: Type.ARRAY, items: { type: Type.STRING } },
+          correctMatches: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+          skill: { type: Type.STRING, enum: SKILL_TAGS },
+          theme: { type: Type.STRING }
+        }
+      }
+    }
+  }
+};
+
+const testContentSchema = {
+  type: Type.OBJECT,
+  properties: {
+    parts: { type: Type.ARRAY, items: testPartSchema }
+  }
+};
+
+const describeQuestions = (spec: TestPartSpec) => {
+  switch (spec.questionFormat) {
+    case 'multiple-choice':
+      return `${spec.questionCount} questions of kind "multiple-choice" with 3 options and correctAnswerIndex`;
+    case 'true-false':
+      return `${spec.questionCount} statements of kind "true-false" (richtig/falsch) with correctAnswer true or false`;
+    case 'matching':
+      return `one question of kind "matching" with ${spec.questionCount} items (situations) and ${spec.optionCount || spec.questionCount} options (short texts written out in full); correctMatches gives the 0-based option index per item, -1 if no option fits`;
+  }
+};
+
+const describePart = (spec: TestPartSpec) =>
+  `${spec.textType} (${spec.description}${spec.wordCount ? `, about ${spec.wordCount} words` : ''}), ${describeQuestions(spec)}`;
+
+const describeParts = (specs: TestPartSpec[]) => specs.map((spec, i) => `Part ${i + 1}: ${describePart(spec)}.`).join(' ');
+
+const SKILL_TAG_INSTRUCTION = `Tag every question with the skill it mainly tests, one of ${SKILL_TAGS.join(', ')}, and with its vocabulary theme in German (e.g. "Einkaufen", "Arzttermin").`;
+
+const SCRIPT_LINES_INSTRUCTION = 'Write each script as lines, each with a speaker name and what they say: dialogues between named people, announcements and messages with a single speaker. Use the same name for a speaker throughout a part.';
+
+const specFor = (module: TestModuleSpec, idPrefix: string): TestContentSpec => ({
+  parts: module.parts,
+  idPrefix
+});
+
+const logValidation = (label: string, report: ValidationReport) => {
+  const summary = summarizeReport(report);
+  if (summary) console.info(`🛠️ ${label} validation: ${summary}`);
+};
+
+// Asks the model for a single replacement part after the original failed validation.
+const generateTestPart = async (prompt: string): Promise<unknown> => {
   return runWithRetry(async () => {
     const ai = getAI();
     const response = await ai.models.generateContent({
       model: modelGeneration,
-      contents: `Create German A1 reading test. 2 parts. Part 1: Email (40 words). Part 2: Notice/Sign (20 words). ${getRandomContext()} 3 multiple-choice questions per part.`,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseSchema: testPartSchema }
+    });
+    if (!response.text) throw new Error("No text response");
+    return JSON.parse(cleanJson(response.text));
+  });
+};
+
+// Second, independent pass: the model answers each question from the text alone, without seeing the key.
+const fetchAnswerVerdicts = async (part: TestPart): Promise<AnswerVerdict[]> => {
+  return runWithRetry(async () => {
+    const ai = getAI();
+    const questions = part.questions.flatMap(q => {
+      const choice = asChoice(q);
+      return choice ? [{ id: q.id, text: q.text, options: choice.options }] : [];
+    });
+    if (questions.length === 0) return [];
+    const response = await ai.models.generateContent({
+      model: modelEvaluation,
+      contents: `Text:\n${part.content}\n\nQuestions:\n${JSON.stringify(questions)}\n\nAnswer each question using only the text. Give the 0-based index of your answer, the indices of every option the text could justify, and your confidence from 0 to 1.`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            parts: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  type: { type: Type.STRING },
-                  title: { type: Type.STRING },
-                  content: { type: Type.STRING },
-                  questions: {
-                    type: Type.ARRAY,
-                    items: {
-                      type: Type.OBJECT,
-                      properties: {
-                        id: { type: Type.STRING },
-                        text: { type: Type.STRING },
-                        options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        correctAnswerIndex: { type: Type.INTEGER }
-                      }
-                    }
-                  }
-                }
-              }
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              answerIndex: { type: Type.INTEGER },
+              defensibleOptions: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+              confidence: { type: Type.NUMBER }
             }
           }
         }
       }
     });
     if (!response.text) throw new Error("No text response");
-    return JSON.parse(cleanJson(response.text)) as ReadingTestContent;
+    // Checked for shape by verifyAnswerKeys, which leaves the part unverified when it is malformed
+    return JSON.parse(cleanJson(response.text));
+  });
+};
+
+// Optional answer-key check (VERIFY_ANSWER_KEYS). Regenerated parts go through validation again.
+const verifyParts = async (parts: TestPart[], spec: TestContentSpec, regenerate: (index: number) => Promise<unknown>, report: ValidationReport) => {
+  return verifyAnswerKeys(
+    parts,
+    getVerificationMode(),
+    fetchAnswerVerdicts,
+    async (index) => validateTestPart(await regenerate(index), index, spec, report),
+    report
+  );
+};
+
+export const generateReadingTest = async (profile: ExamProfile, level: CefrLevel): Promise<ReadingTestContent> => {
+  const { grammarScope } = levelSettings[level];
+  const partSpecs = profile.reading.parts;
+  const raw = await runWithRetry(async () => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: modelGeneration,
+      contents: `Create German ${level} reading test in the ${profile.name} format. ${partSpecs.length} parts. ${describeParts(partSpecs)} ${SKILL_TAG_INSTRUCTION} Language: ${grammarScope} ${getRandomContext()}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: testContentSchema
+      }
+    });
+    if (!response.text) throw new Error("No text response");
+    return JSON.parse(cleanJson(response.text));
+  });
+  const spec = specFor(profile.reading, 'r');
+  const regenerate = (index: number) => generateTestPart(`Create one part of a German ${level} reading test: ${describePart(partSpecs[index])}. ${SKILL_TAG_INSTRUCTION} Language: ${grammarScope} ${getRandomContext()} Every question needs a valid answer key.`);
+  const data = await validateReadingTest(raw, spec, regenerate);
+  data.parts = await verifyParts(data.parts, spec, regenerate, data.validation!);
+  logValidation('Reading', data.validation!);
+  return data;
+};
+
+export const generateListeningTestScript = async (profile: ExamProfile, level: CefrLevel): Promise<ListeningTestContent> => {
+  const { grammarScope } = levelSettings[level];
+  const partSpecs = profile.listening.parts;
+  const raw = await runWithRetry(async () => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: modelGeneration,
+      contents: `Create German ${level} listening script in the ${profile.name} format. ${partSpecs.length} parts. ${describeParts(partSpecs)} ${SCRIPT_LINES_INSTRUCTION} ${SKILL_TAG_INSTRUCTION} ${getRandomContext()} Language: ${grammarScope}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: testContentSchema
+      }
+    });
+    if (!response.text) throw new Error("No text response");
+    return JSON.parse(cleanJson(response.text));
   });
+  const spec = specFor(profile.listening, 'l');
+  const regenerate = (index: number) => generateTestPart(`Create one part of a German ${level} listening script: ${describePart(partSpecs[index])}. ${SCRIPT_LINES_INSTRUCTION} ${SKILL_TAG_INSTRUCTION} ${getRandomContext()} Language: ${grammarScope} Every question needs a valid answer key.`);
+  const data = await validateListeningTest(raw, spec, regenerate);
+  data.parts = await verifyParts(data.parts, spec, regenerate, data.validation!);
+  logValidation('Listening', data.validation!);
+  data.fullScript = data.parts.map((p, i) => `Teil ${i + 1}. ${p.type}. ... ${p.content}`).join(' ... ... ');
+  return data;
 };
 
-export const generateListeningTestScript = async (): Promise<ListeningTestContent> => {
+const synthesizeSpeech = async (text: string, speechConfig: object): Promise<string> => {
+  return runWithRetry(async () => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: modelTTS,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig,
+      }
+    });
+    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audioData) throw new Error("No audio data");
+    return audioData;
+  });
+};
+
+const voiceConfig = (voiceName: string) => ({ prebuiltVoiceConfig: { voiceName } });
+
+export const generateAudioFromScript = async (script: string, voiceName = NARRATOR_VOICE): Promise<string> => {
+  return synthesizeSpeech(script, { voiceConfig: voiceConfig(voiceName) });
+};
+
+// Two speakers fit in one multi-speaker TTS request. A single speaker is one plain request in their voice;
+// larger casts are synthesized line by line and joined with short pauses.
+// TTS requests go out one at a time: the TTS model's rate limit is low and parallel requests run into 429s.
+const generateDialogueAudio = async (lines: ScriptLine[]): Promise<Uint8Array> => {
+  const speakers = speakersOf(lines);
+  const voiceFor = (speaker: string) => SPEAKER_VOICES[voiceIndexFor(lines, speaker, SPEAKER_VOICES.length)];
+  if (speakers.length === 1) {
+    return decode(await generateAudioFromScript(lines.map(l => l.text).join(' '), voiceFor(speakers[0])));
+  }
+  if (speakers.length === 2) {
+    const conversation = lines.map(l => `${l.speaker}: ${l.text}`).join('\n');
+    return decode(await synthesizeSpeech(`Read this German conversation between ${speakers.join(' and ')}:\n${conversation}`, {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: speakers.map(speaker => ({ speaker, voiceConfig: voiceConfig(voiceFor(speaker)) }))
+      }
+    }));
+  }
+  const segments: Uint8Array[] = [];
+  for (const line of lines) segments.push(decode(await generateAudioFromScript(line.text, voiceFor(line.speaker))));
+  return concatenateRawAudio(segments, LINE_PAUSE_SECONDS);
+};
+
+// Narrator intro ("Teil 1. Dialogue.") followed by the script, as one base64 PCM track per part.
+const generatePartAudio = async (part: TestPart, index: number): Promise<string> => {
+  const intro = partIntro(part, index);
+  if (!part.lines?.length) return generateAudioFromScript(`${intro} ${part.content}`);
+  const introAudio = await generateAudioFromScript(intro);
+  const dialogueAudio = await generateDialogueAudio(part.lines);
+  return encode(concatenateRawAudio([decode(introAudio), dialogueAudio], INTRO_PAUSE_SECONDS));
+};
+
+export const preloadListeningTest = async (profile: ExamProfile, level: CefrLevel): Promise<{ content: ListeningTestContent, audioParts: string[] }> => {
+  const content = await generateListeningTestScript(profile, level);
+  // Usually preloaded while the learner works on other modules, so one part at a time rarely adds waiting
+  const audioParts: string[] = [];
+  for (const [index, part] of content.parts.entries()) audioParts.push(await generatePartAudio(part, index));
+  return { content, audioParts };
+};
+
+export const generateWritingTask = async (profile: ExamProfile, level: CefrLevel): Promise<WritingTask> => {
+  const email = profile.writing.parts.find(p => p.kind === 'email');
+  const form = profile.writing.parts.find(p => p.kind === 'form');
+  const formPrompt = form
+    ? ` Also create Teil 1: ${form.description}. "sourceText" is a short German text about a person that contains every value; "fields" lists the form fields with the exact value from the text in "expected" and a "kind" (text, date, number or choice; choice fields list their "options", e.g. payment methods or yes/no).`
+    : '';
   return runWithRetry(async () => {
     const ai = getAI();
     const response = await ai.models.generateContent({
       model: modelGeneration,
-      contents: `Create German A1 listening script. 2 parts. Part 1: Dialogue. Part 2: Announcement. ${getRandomContext()} Simple sentences. 3 questions per part.`,
+      contents: `German ${level} writing task in the ${profile.name} format. ${getRandomContext()} Ask user to write: ${email?.description || 'Short email covering 3 points'}${email?.wordCount ? `, about ${email.wordCount} words` : ''}.${formPrompt}`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            parts: {
-              type: Type.ARRAY,
-              items: {
+            topic: { type: Type.STRING },
+            instructions: { type: Type.STRING },
+            ...(form ? {
+              form: {
                 type: Type.OBJECT,
                 properties: {
-                  id: { type: Type.STRING },
-                  type: { type: Type.STRING },
-                  title: { type: Type.STRING },
-                  content: { type: Type.STRING },
-                  questions: {
+                  instructions: { type: Type.STRING },
+                  sourceText: { type: Type.STRING },
+                  fields: {
                     type: Type.ARRAY,
                     items: {
                       type: Type.OBJECT,
                       properties: {
-                        id: { type: Type.STRING },
-                        text: { type: Type.STRING },
-                        options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        correctAnswerIndex: { type: Type.INTEGER }
+                        label: { type: Type.STRING },
+                        expected: { type: Type.STRING },
+                        kind: { type: Type.STRING, enum: ['text', 'date', 'number', 'choice'] },
+                        options: { type: Type.ARRAY, items: { type: Type.STRING } }
                       }
                     }
                   }
                 }
               }
-            }
+            } : {})
           }
         }
       }
     });
     if (!response.text) throw new Error("No text response");
-    const data = JSON.parse(cleanJson(response.text)) as ListeningTestContent;
-    data.fullScript = data.parts.map((p, i) => `Teil ${i + 1}. ${p.type}. ... ${p.content}`).join(' ... ... ');
-    return data;
+    return validateWritingTask(JSON.parse(cleanJson(response.text)), !!form);
   });
 };
 
-export const generateAudioFromScript = async (script: string): Promise<string> => {
+const describeRubric = () =>
+  WRITING_CRITERIA.map(c => `${c.id} (0-${c.maxScore} points, half points allowed): ${c.description}`).join(' ');
+
+export const evaluateWriting = async (task: WritingTask, userText: string, level: CefrLevel): Promise<EvaluationResult> => {
   return runWithRetry(async () => {
     const ai = getAI();
     const response = await ai.models.generateContent({
-      model: modelTTS,
-      contents: [{ parts: [{ text: script }] }],
+      model: modelEvaluation,
+      contents: `Task: ${task.instructions}\nUser Text: ${userText}\n\nEvaluate for German ${level} like an exam rater. ${levelSettings[level].strictness} Score each criterion with a short comment: ${describeRubric()} List every content point the task asks for and whether the text covers it, quoting the covering passage as evidence. Mark every language error in textCorrections: "original" is the exact erroneous span copied from the user text (as short as possible), "replacement" the corrected span, "category" one of ${Object.keys(ERROR_CATEGORIES).join(', ')}, "skill" one of ${SKILL_TAGS.join(', ')}, and a one-sentence explanation in English. Use corrections only for general advice. Also give overall feedback and an overall score out of 100.`,
       config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            score: { type: Type.INTEGER },
+            feedback: { type: Type.STRING },
+            corrections: { type: Type.ARRAY, items: { type: Type.STRING } },
+            textCorrections: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  original: { type: Type.STRING },
+                  replacement: { type: Type.STRING },
+                  category: { type: Type.STRING, enum: Object.keys(ERROR_CATEGORIES) },
+                  skill: { type: Type.STRING, enum: SKILL_TAGS },
+                  explanation: { type: Type.STRING }
+                }
+              }
+            },
+            criteria: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING, enum: WRITING_CRITERIA.map(c => c.id) },
+                  score: { type: Type.NUMBER },
+                  comment: { type: Type.STRING }
+                }
+              }
+            },
+            contentPoints: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  point: { type: Type.STRING },
+                  covered: { type: Type.BOOLEAN },
+                  evidence: { type: Type.STRING }
+                }
+              }
+            }
+          }
+        }
       }
     });
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) throw new Error("No audio data");
-    return audioData;
+    if (!response.text) throw new Error("No text response");
+    return validateWritingEvaluation(JSON.parse(cleanJson(response.text)), userText);
   });
 };
 
-export const preloadListeningTest = async (): Promise<{ content: ListeningTestContent, audioParts: string[] }> => {
-  const content = await generateListeningTestScript();
-  const audioParts = await Promise.all(content.parts.map((part, index) => generateAudioFromScript(`Teil ${index + 1}. ${part.type}. ${part.content}`)));
-  return { content, audioParts };
-};
-
-export const generateWritingTask = async (): Promise<WritingTask> => {
+export const generateSpeakingTask = async (profile: ExamProfile, level: CefrLevel): Promise<SpeakingTask> => {
+  const parts = profile.speaking.parts.map((p, i) => `${i}. ${p.title}: ${p.description}`).join(' ');
   return runWithRetry(async () => {
     const ai = getAI();
     const response = await ai.models.generateContent({
       model: modelGeneration,
-      contents: `German A1 writing task. ${getRandomContext()} Ask user to write short email covering 3 points.`,
+      contents: `German ${level} speaking task in the ${profile.name} format. Cover: ${parts} ${getRandomContext()} Give short instructions for the learner, and the examiner's script as turns: 2-3 turns per part with the part's index, what the examiner says (short, simple German, addressing the learner with "Sie") and, where the part uses word or picture cards, the card text (e.g. "Essen und Trinken – Frühstück?").`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
-          properties: { topic: { type: Type.STRING }, instructions: { type: Type.STRING } }
+          properties: {
+            topic: { type: Type.STRING },
+            instructions: { type: Type.STRING },
+            turns: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  partIndex: { type: Type.INTEGER },
+                  prompt: { type: Type.STRING },
+                  card: { type: Type.STRING }
+                }
+              }
+            }
+          }
         }
       }
     });
     if (!response.text) throw new Error("No text response");
-    return JSON.parse(cleanJson(response.text)) as WritingTask;
+    return validateSpeakingTask(JSON.parse(cleanJson(response.text)), profile.speaking.parts.length);
   });
 };
 
-export const evaluateWriting = async (task: WritingTask, userText: string): Promise<EvaluationResult> => {
+// The examiner reacts to the learner's answer with at most one short question, as in the oral exam.
+export const generateFollowUp = async (task: SpeakingTask, turn: ExaminerTurn, input: { audioBase64?: string, text?: string }, level: CefrLevel): Promise<ExaminerTurn | null> => {
   return runWithRetry(async () => {
     const ai = getAI();
+    const parts: any[] = [];
+    if (input.audioBase64) parts.push({ inlineData: { mimeType: 'audio/webm', data: input.audioBase64 } });
+    if (input.text) parts.push({ text: `Learner answer: ${input.text}` });
+    parts.push({ text: `You are the examiner in a German ${level} oral exam. Topic: ${task.topic}. You asked: "${turn.prompt}"${turn.card ? ` (card: ${turn.card})` : ''}. Based on the learner's answer, ask one short, natural follow-up question in simple German (e.g. ask them to spell a name or repeat a number, or ask for a detail they left out). Leave followUp empty if the answer was complete or unintelligible.` });
     const response = await ai.models.generateContent({
-      model: modelEvaluation,
-      contents: `Task: ${task.instructions}\nUser Text: ${userText}\n\nEvaluate for German A1. Score out of 100. Feedback & corrections.`,
+      model: modelGeneration,
+      contents: { parts },
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
-          properties: {
-            score: { type: Type.INTEGER },
-            feedback: { type: Type.STRING },
-            corrections: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
+          properties: { followUp: { type: Type.STRING } }
         }
       }
     });
     if (!response.text) throw new Error("No text response");
-    return JSON.parse(cleanJson(response.text)) as EvaluationResult;
+    return validateFollowUp(JSON.parse(cleanJson(response.text)), turn);
   });
 };
 
-export const generateSpeakingTask = async (): Promise<SpeakingTask> => {
+export const generateExaminerAudio = async (text: string): Promise<string> => generateAudioFromScript(text, EXAMINER_VOICE);
+
+// Why the keyed answer is right, for a submitted question. The quote stays in German, as in the passage.
+export const explainAnswer = async (part: TestPart, question: Question, language: ExplanationLanguage): Promise<AnswerExplanation> => {
   return runWithRetry(async () => {
     const ai = getAI();
     const response = await ai.models.generateContent({
-      model: modelGeneration,
-      contents: `German A1 speaking task. ${getRandomContext()} Instructions only.`,
+      model: modelEvaluation,
+      contents: `Text:\n${part.content}\n\nQuestion:\n${JSON.stringify({ ...question, explanations: undefined })}\nCorrect answer: ${correctAnswerLabel(question)}\n\nA German learner wants to know why this answer is correct. Explain it in ${language}, in two or three short, simple sentences. Copy the one sentence of the text that gives the answer, word for word in German, as the quote.`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
-          properties: { topic: { type: Type.STRING }, instructions: { type: Type.STRING } }
+          properties: {
+            explanation: { type: Type.STRING },
+            quote: { type: Type.STRING }
+          }
         }
       }
     });
     if (!response.text) throw new Error("No text response");
-    return JSON.parse(cleanJson(response.text)) as SpeakingTask;
+    return validateAnswerExplanation(JSON.parse(cleanJson(response.text)), part, question);
   });
 };
 
-export const evaluateSpeaking = async (task: SpeakingTask, input: { audioBase64?: string, text?: string }): Promise<EvaluationResult> => {
+export const evaluateSpeaking = async (task: SpeakingTask, input: { audioBase64?: string, text?: string }, level: CefrLevel): Promise<EvaluationResult> => {
   return runWithRetry(async () => {
     const ai = getAI();
     const parts: any[] = [];
     if (input.audioBase64) parts.push({ inlineData: { mimeType: 'audio/webm', data: input.audioBase64 } });
     if (input.text) parts.push({ text: `User text: ${input.text}` });
-    parts.push({ text: `Task: ${task.instructions}. Evaluate German A1 speech. Score (0-100), feedback & corrections.` });
+    const expectedLength = task.answerSeconds ? ` A short answer of about ${task.answerSeconds} seconds is expected.` : '';
+    parts.push({ text: `Task: ${task.instructions}.${expectedLength} Evaluate German ${level} speech. ${levelSettings[level].strictness} First write down verbatim what the learner said, keeping their mistakes (for typed answers, repeat the text). Add notes on single words that were mispronounced (kind "pronunciation") or where the learner hesitated, paused or restarted (kind "fluency"); audio only. Mark every grammar or vocabulary error in the transcript in textCorrections: "original" is the exact span copied from the transcript, "replacement" the corrected span, "category" one of ${Object.keys(ERROR_CATEGORIES).join(', ')}, "skill" one of ${SKILL_TAGS.join(', ')}, and a one-sentence explanation in English. Score content (task fulfilment) and language (grammar, vocabulary, pronunciation, fluency) separately from 0 to 100, and give an overall score, feedback & corrections.` });
     const response = await ai.models.generateContent({
       model: modelEvaluation,
       contents: { parts },
@@ -231,14 +506,41 @@ export const evaluateSpeaking = async (task: SpeakingTask, input: { audioBase64?
         responseSchema: {
           type: Type.OBJECT,
           properties: {
+            transcript: { type: Type.STRING },
             score: { type: Type.INTEGER },
+            contentScore: { type: Type.INTEGER },
+            languageScore: { type: Type.INTEGER },
             feedback: { type: Type.STRING },
-            corrections: { type: Type.ARRAY, items: { type: Type.STRING } }
+            corrections: { type: Type.ARRAY, items: { type: Type.STRING } },
+            textCorrections: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  original: { type: Type.STRING },
+                  replacement: { type: Type.STRING },
+                  category: { type: Type.STRING, enum: Object.keys(ERROR_CATEGORIES) },
+                  skill: { type: Type.STRING, enum: SKILL_TAGS },
+                  explanation: { type: Type.STRING }
+                }
+              }
+            },
+            speechNotes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  kind: { type: Type.STRING, enum: ['pronunciation', 'fluency'] },
+                  note: { type: Type.STRING }
+                }
+              }
+            }
           }
         }
       }
     });
     if (!response.text) throw new Error("No text response");
-    return JSON.parse(cleanJson(response.text)) as EvaluationResult;
+    return validateSpeakingEvaluation(JSON.parse(cleanJson(response.text)));
   });
-};
\ No newline at end of file
+};
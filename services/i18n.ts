@@ -0,0 +1,66 @@
+import { en, MessageKey, Messages } from "./messages/en.ts";
+import { ml, mlExamTexts } from "./messages/ml.ts";
+import { ta, taExamTexts } from "./messages/ta.ts";
+import { de, deExamTexts } from "./messages/de.ts";
+
+// UI translation: message catalogs per language and the learner's choice, kept in localStorage.
+// Only the interface is translated; German exam content (texts, questions, recordings) stays German.
+
+export type { MessageKey };
+
+export type UiLanguage = 'en' | 'ml' | 'ta' | 'de';
+
+export const UI_LANGUAGES: { id: UiLanguage, label: string, locale: string, preferredLanguage: string }[] = [
+  { id: 'en', label: 'English', locale: 'en-GB', preferredLanguage: 'English' },
+  { id: 'ml', label: 'മലയാളം', locale: 'ml-IN', preferredLanguage: 'Malayalam' },
+  { id: 'ta', label: 'தமிழ்', locale: 'ta-IN', preferredLanguage: 'Tamil' },
+  { id: 'de', label: 'Deutsch', locale: 'de-DE', preferredLanguage: 'Other' }
+];
+
+const LANGUAGE_KEY = 'mock-test-ui-language';
+
+const CATALOGS: Record<UiLanguage, Messages> = { en, ml, ta, de };
+
+// Translated exam profile descriptions; English uses the profile's own text
+const EXAM_TEXTS: Record<UiLanguage, Record<string, string>> = { en: {}, ml: mlExamTexts, ta: taExamTexts, de: deExamTexts };
+
+const isUiLanguage = (value: unknown): value is UiLanguage => UI_LANGUAGES.some(l => l.id === value);
+
+const initialLanguage = (): UiLanguage => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (isUiLanguage(stored)) return stored;
+  } catch (e) {
+    console.warn("Display language could not be read", e);
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+  return isUiLanguage(browser) ? browser : 'en';
+};
+
+let current: UiLanguage = initialLanguage();
+
+export const getUiLanguage = (): UiLanguage => current;
+
+export const setUiLanguage = (language: UiLanguage) => {
+  current = language;
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (e) {
+    console.warn("Display language could not be saved", e);
+  }
+};
+
+// "{name}" is replaced by the parameter; "{name|one|other}" by the word matching the count
+const PLACEHOLDER = /\{(\w+)(?:\|([^|}]*)\|([^}]*))?\}/g;
+
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+  (CATALOGS[current][key] ?? en[key]).replace(PLACEHOLDER, (match, name: string, one?: string, other?: string) => {
+    if (!(name in params)) return match;
+    if (one === undefined) return String(params[name]);
+    return Number(params[name]) === 1 ? one : (other ?? '');
+  });
+
+export const examText = (key: string, fallback: string): string => EXAM_TEXTS[current][key] ?? fallback;
+
+// For toLocaleString and friends, so dates follow the display language
+export const dateLocale = (): string => UI_LANGUAGES.find(l => l.id === current)!.locale;
@@ -0,0 +1,321 @@
+import { Messages } from "./en.ts";
+
+export const de: Messages = {
+  // Shared
+  'common.back': 'Zurück',
+  'common.backHome': 'Zur Startseite',
+  'common.tryAgain': 'Erneut versuchen',
+  'common.somethingWrong': 'Etwas ist schiefgelaufen',
+  'common.nextModule': 'Nächstes Modul',
+  'common.finishTest': 'Test beenden',
+  'common.seeResult': 'Ergebnis ansehen',
+  'common.submitAnswers': 'Antworten abgeben ({answered}/{total})',
+  'common.evaluationResult': 'Bewertung',
+  'common.score': 'Ergebnis: {score}/100',
+  'common.feedback': 'Rückmeldung:',
+  'common.points': '{points}/{max} Punkte',
+  'common.part': 'Teil {number}',
+  'common.minutes': '{minutes} Min.',
+  'common.partsAndMinutes': '{parts} {parts|Teil|Teile} · {minutes} Min.',
+  'common.topic': 'Thema: {topic}',
+  'common.myProgress': 'Mein Fortschritt',
+  'common.practice': 'Übung',
+
+  // Header
+  'header.title': 'Deutsch {level} Modelltest',
+  'header.language': 'Sprache der Oberfläche',
+
+  // Modules
+  'module.reading': 'Lesen',
+  'module.listening': 'Hören',
+  'module.writing': 'Schreiben',
+  'module.speaking': 'Sprechen',
+  'module.reading.desc': 'Texte und E-Mails verstehen',
+  'module.listening.desc': 'Gespräche verstehen',
+  'module.writing.desc': 'Kurze Nachrichten und Aufgaben',
+  'module.speaking.desc': 'Mündliche Prüfung mit KI-Prüfer',
+
+  // Levels
+  'level.A1': 'A1 · Anfänger',
+  'level.A2': 'A2 · Grundlagen',
+  'level.B1': 'B1 · Mittelstufe',
+
+  // HOME
+  'home.poweredBy': 'Bereitgestellt von',
+  'home.titleLead': 'Teste dein',
+  'home.titleLevel': 'Deutsch auf {level}',
+  'home.quickAssessment': 'Schnelle KI-Bewertung',
+  'home.intro': 'Bereite dich sicher mit unserem umfassenden Modelltest vor. Er bildet die echte Prüfung mit Lesen, Hören, Schreiben und Sprechen nach und bewertet dich sofort mit KI.',
+  'home.examFormat': 'Prüfungsformat',
+  'home.level': 'Niveau',
+  'home.strictTitle': 'Strenge Prüfungsregeln',
+  'home.strictHint': 'Aufnahmen können nur so oft abgespielt werden wie in der echten Prüfung',
+  'home.timerTitle': 'Prüfungszeit',
+  'home.timerHint': 'jedes Modul wird automatisch abgegeben, wenn die Zeit abgelaufen ist',
+  'home.unfinished': 'Du hast einen unvollständigen Test',
+  'home.inProgress': 'Begonnen',
+  'home.allModulesFinished': 'Alle Module beendet',
+  'home.savedAt': 'gespeichert {date}',
+  'home.unfinishedKept': 'Unvollständige Tests werden {hours} Stunden aufbewahrt. Ein neuer Test ersetzt ihn.',
+  'home.resume': 'Fortsetzen',
+  'home.discard': 'Verwerfen',
+  'home.start': 'Modelltest starten',
+  'home.dailyReview': 'Tägliche Wiederholung',
+  'home.practiseModule': 'Dieses Modul üben',
+
+  // Details form
+  'details.title': 'Letzter Schritt',
+  'details.subtitle': 'Gib deine Daten ein, um deinen Ergebnisbericht zu erstellen.',
+  'details.name': 'Vollständiger Name',
+  'details.namePlaceholder': 'Deinen vollständigen Namen eingeben',
+  'details.phone': 'Telefonnummer',
+  'details.phonePlaceholder': '10-stellige Telefonnummer',
+  'details.language': 'Bevorzugte Sprache',
+  'details.language.English': 'Englisch',
+  'details.language.Malayalam': 'Malayalam',
+  'details.language.Tamil': 'Tamil',
+  'details.language.Other': 'Andere',
+  'details.viewResults': 'Ergebnisse ansehen',
+  'details.error.name': 'Bitte gib deinen vollständigen Namen ein.',
+  'details.error.phoneLength': 'Die Telefonnummer muss genau 10 Ziffern haben.',
+  'details.error.phoneZero': 'Die Telefonnummer darf nicht mit 0 beginnen.',
+
+  // Practice result
+  'practice.header': 'Übung · {profile} · {level}',
+  'practice.notSubmitted': 'Übungsergebnisse gehören nicht zu einem vollständigen Modelltest und werden nicht übermittelt.',
+  'practice.again': 'Noch einmal üben',
+
+  // Results
+  'results.completed': 'Du hast den Modelltest {profile} auf Niveau {level} abgeschlossen.',
+  'results.overall': 'Gesamtergebnis',
+  'results.headline.passed': 'Herzlichen Glückwunsch',
+  'results.headline.failed': 'Bleib dran',
+  'results.grade.veryGood': 'Sehr gut',
+  'results.grade.good': 'Gut',
+  'results.grade.satisfactory': 'Befriedigend',
+  'results.grade.sufficient': 'Ausreichend',
+  'results.grade.failed': 'Nicht bestanden',
+  'results.sectionPassed': 'bestanden',
+  'results.sectionFailed': 'nicht bestanden',
+  'results.passFrom': '(bestanden ab {points})',
+  'results.comparedWith': 'Veränderung gegenüber deinem letzten Modelltest am {date} ({profile}, {level}).',
+  'results.nextTitle': 'Was du als Nächstes üben solltest',
+  'results.nextSubtitle': 'Bereiche mit den meisten Fehlern in diesem Test, die schwächsten zuerst.',
+  'results.acrossTitle': 'Über deine letzten Versuche',
+  'results.acrossSubtitle': 'Fehler aus deinen letzten {count} Versuchen zusammengezählt, Übungen eingeschlossen.',
+  'results.submission.saved': 'Ihr Ergebnis wurde gespeichert.',
+  'results.submission.pending': 'Ihr Ergebnis wird gespeichert … Wir versuchen es im Hintergrund weiter, auch nach einem Neuladen.',
+  'results.submission.failed': 'Ihr Ergebnis konnte noch nicht gesendet werden. Es ist auf diesem Gerät gespeichert und wird erneut gesendet.',
+  'results.unscored': 'nicht gewertet',
+  'results.unscoredHint': 'Alle Lösungen in diesem Modul waren umstritten, deshalb wurde es nicht gewertet.',
+  'results.again': 'Test wiederholen',
+
+  // Exam tips
+  'tips.focus': 'Dein schwächster Bereich war diesmal {skill}. {advice}',
+  'tips.missingPoints': '{section}: noch {missing} {missing|Punkt|Punkte} nötig ({points}/{max}, bestanden ab {pass})',
+  'tips.failed.title': 'Mehr Vorbereitung nötig (Nicht bestanden)',
+  'tips.failed.content': '{missing}. Lass dich nicht entmutigen! {focus} Regelmäßiges Üben ist der Schlüssel. Du schaffst das!',
+  'tips.failed.default': 'Übe jeden Tag ein wenig mit kurzen Texten und Dialogen.',
+  'tips.excellent.title': 'Bereit für die Prüfung! (Sehr gut)',
+  'tips.excellent.content': 'Hervorragende Leistung! Du bist gut auf die echte {level}-Prüfung vorbereitet. {focus} Viel Glück!',
+  'tips.excellent.focus': 'Für die volle Punktzahl: {focus}',
+  'tips.excellent.default': 'Diesmal keine Schwachstellen.',
+  'tips.good.title': 'Sehr gute Leistung (Gut)',
+  'tips.good.content': 'Du beherrschst den Stoff sicher. {focus} Gut gemacht!',
+  'tips.good.default': 'Sprich laut, um sicherer zu werden.',
+  'tips.pass.title': 'Guter Anfang – weiter üben ({grade})',
+  'tips.pass.content': 'Bestanden! {focus} Weiter so!',
+  'tips.pass.default': 'Hör deutsche Podcasts, um dich an das normale Sprechtempo zu gewöhnen.',
+
+  // Reading
+  'reading.loading': 'Lesetest wird erstellt...',
+  'reading.loadingHint': 'Wir stellen die Aufgaben für dich zusammen.',
+  'reading.loadFailed': 'Der Lesetest konnte nicht geladen werden.',
+  'reading.intro': 'Lies die Texte und beantworte die Aufgaben.',
+
+  // Listening
+  'listening.loading': 'Hörtexte werden vorbereitet...',
+  'listening.loadingHint': 'Die Aufnahmen für den Test werden erzeugt.',
+  'listening.loadFailed': 'Der Hörtest konnte nicht geladen werden.',
+  'listening.errorTitle': 'Fehler beim Laden des Tests',
+  'listening.intro': 'Jeder Teil hat eine eigene Aufnahme. Lies zuerst die Aufgaben, dann hör zu; {plays}.',
+  'listening.playedOnce': 'Teil {part} hörst du einmal',
+  'listening.playedTimes': 'Teil {part} hörst du {plays}-mal',
+  'listening.strict': 'Strenger Modus: Die Zahl der Wiedergaben ist begrenzt',
+
+  // Listening player and transcript
+  'player.plays': '{used}/{plays} {plays|Wiedergabe|Wiedergaben}',
+  'player.extra': '(zusätzlich)',
+  'player.countdown': 'Lies die Aufgaben. Die Aufnahme beginnt in {seconds} s.',
+  'player.skip': 'Überspringen',
+  'player.playedOnce': 'Diese Aufnahme wurde wie in der Prüfung einmal abgespielt.',
+  'player.playedTimes': 'Diese Aufnahme wurde wie in der Prüfung {plays}-mal abgespielt.',
+  'transcript.title': 'Transkript · Satz anklicken, um ab dort zu hören',
+
+  // Questions and explanations
+  'question.uncertain': 'Die Lösung dieser Aufgabe ist unsicher, deshalb zählt sie nicht zu deinem Ergebnis.',
+  'explain.button': 'Erklären',
+  'explain.title': 'Warum diese Antwort richtig ist',
+  'explain.loading': 'Erklärung wird erstellt...',
+  'explain.failed': 'Die Erklärung konnte nicht geladen werden. Bitte versuche es erneut.',
+
+  // Writing
+  'writing.loading': 'Schreibaufgabe wird erstellt...',
+  'writing.loadingHint': 'Wir entwerfen eine Situation für deine Übung.',
+  'writing.loadFailed': 'Die Schreibaufgabe konnte nicht geladen werden',
+  'writing.evaluateFailed': 'Dein Text konnte nicht bewertet werden. Bitte versuche es erneut.',
+  'writing.emptyText': 'Bis zum Ende der Zeit wurde kein Text geschrieben.',
+  'writing.evaluating': 'Wird bewertet...',
+  'writing.submit': 'Zur Bewertung abgeben',
+  'writing.yourText': 'Dein Text:',
+  'writing.corrections': 'Korrekturen und Verbesserungen:',
+  'writing.placeholder': 'Schreiben Sie Ihren Text hier...',
+  'writing.formPart': 'Teil 1 (Formular)',
+  'writing.emailPart': 'Teil 2 (E-Mail)',
+  'marked.noErrors': 'In deinem Text wurden keine Fehler markiert.',
+  'marked.skill': 'Bereich: {skill}',
+  'marked.position': 'Fehler {current} von {total}',
+  'rubric.criterion': 'Kriterium',
+  'rubric.points': 'Punkte',
+  'rubric.comment': 'Kommentar',
+  'rubric.total': 'Gesamt',
+  'rubric.contentPoints': 'Inhaltspunkte:',
+  'criterion.task-completion': 'Erfüllung der Aufgabe',
+  'criterion.task-completion.desc': 'Alle Inhaltspunkte der Aufgabe sind behandelt und der Text hat ungefähr die verlangte Länge.',
+  'criterion.communicative-design': 'Kommunikative Gestaltung',
+  'criterion.communicative-design.desc': 'Merkmale der Textsorte (Anrede, Gruß, Register) und Sätze, die eine zusammenhängende Nachricht bilden.',
+  'criterion.formal-correctness': 'Formale Richtigkeit',
+  'criterion.formal-correctness.desc': 'Grammatik, Rechtschreibung und Wortschatz passend zum Niveau; Fehler stören das Verständnis nicht.',
+  'errorCategory.article-gender': 'Artikel / Genus',
+  'errorCategory.verb-position': 'Verbstellung',
+  'errorCategory.conjugation': 'Konjugation',
+  'errorCategory.spelling': 'Rechtschreibung',
+  'errorCategory.case': 'Kasus',
+  'errorCategory.other': 'Sonstiges',
+
+  // Speaking
+  'speaking.loading': 'Sprechaufgabe wird erstellt...',
+  'speaking.loadingHint': 'Wir bereiten ein Gesprächsthema für dich vor.',
+  'speaking.loadFailed': 'Die Sprechaufgabe konnte nicht erstellt werden.',
+  'speaking.noAnswers': 'Die Zeit war abgelaufen, bevor eine Frage beantwortet wurde.',
+  'speaking.evaluateFailed': 'Einige Antworten konnten nicht bewertet werden.',
+  'speaking.briefing': 'Der Prüfer spricht mit dir. Beantworte jede Frage, indem du deine Stimme aufnimmst; der Prüfer stellt eventuell eine Nachfrage.',
+  'speaking.start': 'Mündliche Prüfung starten',
+  'speaking.progress': 'Frage {current} von {total}',
+  'speaking.scoring': 'Deine Antworten werden bewertet...',
+  'speaking.yourAnswers': 'Deine Antworten',
+  'speaking.card': 'Karte: {card}',
+  'examiner.listenAgain': 'Noch einmal hören',
+  'examiner.followUp': 'Nachfrage',
+  'recorder.noAccess': 'Kein Zugriff auf das Mikrofon.',
+  'recorder.denied': 'Die Mikrofonberechtigung wurde verweigert.',
+  'recorder.notFound': 'Kein Mikrofon gefunden.',
+  'recorder.checkSettings': 'Bitte prüfe die Browsereinstellungen oder tippe deine Antwort.',
+  'recorder.typeInstead': 'Antwort stattdessen tippen',
+  'recorder.start': 'Klicke auf das Mikrofon, um deine Antwort aufzunehmen.',
+  'recorder.recordAgain': 'Löschen und neu aufnehmen',
+  'recorder.cantSpeak': 'Du kannst nicht sprechen? Tippe deine Antwort',
+  'recorder.typeLabel': 'Antwort tippen (Simulation)',
+  'recorder.typePlaceholder': 'Ich heiße...',
+  'recorder.useMicrophone': 'Zum Mikrofon wechseln',
+  'recorder.listening': 'Der Prüfer hört zu...',
+  'recorder.submit': 'Antwort abgeben',
+  'speech.content': 'Inhalt',
+  'speech.language': 'Sprache',
+  'speech.recording': 'Deine Aufnahme:',
+  'speech.heard': 'Das haben wir gehört:',
+  'speech.noTranscript': 'Für diese Antwort gibt es kein Transkript.',
+  'speech.corrections': 'Korrekturen:',
+  'speech.suggestions': 'Vorschläge:',
+  'speech.notes': 'Aussprache und Flüssigkeit:',
+  'speech.kind.pronunciation': 'Aussprache',
+  'speech.kind.fluency': 'Flüssigkeit',
+
+  // Timer
+  'timer.warning': 'Die Zeit wird knapp. Beende langsam deine Antworten.',
+  'timer.critical': 'Weniger als eine Minute übrig. Das Modul wird automatisch abgegeben.',
+  'timer.expired': 'Die Zeit ist abgelaufen. Deine Antworten wurden abgegeben.',
+
+  // History
+  'history.title': 'Dein Fortschritt',
+  'history.clear': 'Löschen',
+  'history.confirmClear': 'Alle gespeicherten Versuche löschen?',
+  'history.empty': 'Noch keine Versuche. Beende einen Modelltest oder ein Übungsmodul, um hier deinen Fortschritt zu sehen.',
+  'history.attempts': '{count} {count|Versuch|Versuche}',
+  'history.latest': 'Zuletzt',
+  'history.best': 'Bestes',
+  'history.notTaken': 'Noch nicht gemacht',
+  'history.weakTitle': 'Deine Schwachstellen',
+  'history.weakSubtitle': 'Grammatik- und Wortschatzbereiche mit den meisten Fehlern in deinen letzten {count} Versuchen, die schwächsten zuerst.',
+  'history.date': 'Datum',
+  'history.format': 'Format',
+  'history.points': 'Punkte',
+
+  // Weakness report and skills
+  'weakness.missed': '{missed} von {asked} {asked|Aufgabenpunkt|Aufgabenpunkten} verfehlt',
+  'weakness.errors': '{errors} {errors|Fehler|Fehler} beim Schreiben oder Sprechen',
+  'weakness.none': 'Keine Schwachstellen gefunden. Alle markierten Aufgaben wurden richtig beantwortet.',
+  'skill.articles': 'Artikel (der/die/das)',
+  'skill.articles.advice': 'Lerne jedes Nomen mit Artikel und Plural ("der Tisch, die Tische") und markiere deine Vokabelkarten farbig nach Genus.',
+  'skill.akkusativ': 'Akkusativ',
+  'skill.akkusativ.advice': 'Wiederhole den/einen/meinen und die Verben und Präpositionen mit Akkusativ: haben, brauchen, kaufen, sehen, für, ohne, durch. Schreib jeden Tag fünf Sätze damit.',
+  'skill.modal-verbs': 'Modalverben',
+  'skill.modal-verbs.advice': 'Übe können, müssen, dürfen, wollen, sollen und möchten: das Modalverb auf Position 2, der Infinitiv am Ende ("Ich muss heute arbeiten").',
+  'skill.verb-forms': 'Verbformen',
+  'skill.verb-forms.advice': 'Trainiere die Präsensendungen und die unregelmäßigen Verben sein, haben, fahren, essen und lesen mit einem Satz pro Person (ich, du, er/sie, wir, ihr, sie).',
+  'skill.word-order': 'Satzstellung',
+  'skill.word-order.advice': 'Das konjugierte Verb steht auf Position 2, nach weil und dass am Ende. Schreib Sätze um, sodass sie mit einer Zeitangabe beginnen ("Morgen gehe ich ...").',
+  'skill.numbers-time': 'Zahlen und Uhrzeit',
+  'skill.numbers-time.advice': 'Hör Preise, Telefonnummern, Daten und Uhrzeiten und schreib sie auf. Übe die Uhrzeit ("halb drei" ist 2:30) und Zahlen wie "einundzwanzig".',
+  'skill.spelling': 'Rechtschreibung',
+  'skill.spelling.advice': 'Schreib alle Nomen groß und prüfe Umlaute und ß. Lies deinen Text vor der Abgabe einmal nur auf Rechtschreibung und schreib Namen und Adressen Buchstabe für Buchstabe ab.',
+  'skill.vocabulary': 'Wortschatz',
+  'skill.vocabulary.advice': 'Lerne Wörter nach Themen, jedes mit einem Beispielsatz, und wiederhole sie täglich.',
+  'skill.vocabularyThemes': 'Wiederhole die Wörter zu {themes}. {advice}',
+
+  // Review deck
+  'review.title': 'Tägliche Wiederholung',
+  'review.remove': 'Entfernen',
+  'review.removeHint': 'Diese Karte aus dem Stapel entfernen',
+  'review.done': 'Fertig für heute: {count} {count|Karte|Karten} wiederholt.',
+  'review.nothing': 'Heute gibt es nichts zu wiederholen.',
+  'review.about': 'Aufgaben, die du falsch beantwortest, und Sätze, die in deinen Tests korrigiert werden, kommen automatisch in deinen Stapel. Jede Runde zeigt bis zu {limit} fällige Karten.',
+  'review.check': 'Prüfen',
+  'review.continue': 'Weiter',
+  'review.findMistakes': 'Finde {count|den Fehler|die Fehler} und sag den Satz richtig.',
+  'review.showCorrection': 'Korrektur zeigen',
+  'review.grade.again': 'Nochmal',
+  'review.grade.hard': 'Schwer',
+  'review.grade.good': 'Gut',
+  'review.grade.easy': 'Leicht'
+};
+
+// Descriptions from the exam profiles, keyed "<profile>.description" and "<profile>.<module>.<part index>"
+export const deExamTexts: Record<string, string> = {
+  'quick.description': 'Kurzer Übungstest: 2 Lesetexte, 2 Aufnahmen, eine E-Mail und eine Sprechaufgabe.',
+  'quick.reading.0': 'Kurze persönliche E-Mail',
+  'quick.reading.1': 'Aushang oder Schild',
+  'quick.listening.0': 'Alltagsgespräch zwischen zwei Personen',
+  'quick.listening.1': 'Öffentliche Durchsage',
+  'quick.speaking.0': 'Eine Sprechaufgabe beantworten',
+  'goethe-a1.description': 'Format Start Deutsch 1: Hören 3 Teile, Lesen 3 Teile, Schreiben 2 Teile, Sprechen 3 Teile.',
+  'goethe-a1.reading.0': 'Zwei kurze persönliche E-Mails oder Briefe; Aussagen als richtig/falsch markieren',
+  'goethe-a1.reading.1': 'Fünf Alltagssituationen mit je zwei kurzen Anzeigen oder Webseiten (a/b); die passende wählen',
+  'goethe-a1.reading.2': 'Fünf Schilder und Aushänge in Geschäften, Ämtern und Bahnhöfen; Aussagen als richtig/falsch markieren',
+  'goethe-a1.listening.0': 'Sechs kurze Alltagsgespräche; je eine Frage mit drei Antworten',
+  'goethe-a1.listening.1': 'Vier Durchsagen am Bahnhof, Flughafen oder im Geschäft; Aussagen als richtig/falsch markieren',
+  'goethe-a1.listening.2': 'Fünf Nachrichten auf dem Anrufbeantworter; je eine Frage mit drei Antworten',
+  'goethe-a1.speaking.0': 'Sich vorstellen, dann auf Nachfrage ein Wort buchstabieren und eine Zahl nennen',
+  'goethe-a1.speaking.1': 'Mit Wortkarten zu einem Thema Fragen stellen und beantworten, z. B. "Essen und Trinken"',
+  'goethe-a1.speaking.2': 'Mit Bild- oder Wortkarten Bitten formulieren und darauf reagieren',
+  'telc-a1.description': 'Format telc Start Deutsch 1: Hören 3 Teile, Lesen 3 Teile, Schreiben 2 Teile, Sprechen 3 Teile.',
+  'telc-a1.reading.0': 'Kurzer privater Brief oder E-Mail; Aussagen als richtig/falsch markieren',
+  'telc-a1.reading.1': 'Sechs Situationen und acht kurze Anzeigen; jeder Situation eine Anzeige (oder keine) zuordnen',
+  'telc-a1.reading.2': 'Fünf Aushänge und Schilder an öffentlichen Orten; Aussagen als richtig/falsch markieren',
+  'telc-a1.listening.0': 'Sechs kurze Gespräche; je eine Frage mit drei Antworten',
+  'telc-a1.listening.1': 'Vier öffentliche Durchsagen; Aussagen als richtig/falsch markieren',
+  'telc-a1.listening.2': 'Fünf kurze Radio- oder Telefonnachrichten; je eine Frage mit drei Antworten',
+  'telc-a1.speaking.0': 'Sich mit den vorgegebenen Stichwörtern vorstellen, dann buchstabieren und Zahlen nennen',
+  'telc-a1.speaking.1': 'Einem Partner mit Wortkarten Fragen zu einem Thema stellen und seine beantworten',
+  'telc-a1.speaking.2': 'Mit Bildkarten um etwas bitten und auf Bitten reagieren'
+};
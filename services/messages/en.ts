@@ -0,0 +1,297 @@
+// English UI texts. This catalog defines the message keys; every other catalog must translate all of them.
+// "{name}" inserts a parameter, "{count|one|other}" picks a word by whether the count is 1.
+// German exam terms (Teil, Lesen, bestanden, ...) are left in German in every language.
+
+export const en = {
+  // Shared
+  'common.back': 'Back',
+  'common.backHome': 'Back to Home',
+  'common.tryAgain': 'Try Again',
+  'common.somethingWrong': 'Something went wrong',
+  'common.nextModule': 'Next Module',
+  'common.finishTest': 'Finish Test',
+  'common.seeResult': 'See Result',
+  'common.submitAnswers': 'Submit Answers ({answered}/{total})',
+  'common.evaluationResult': 'Evaluation Result',
+  'common.score': 'Score: {score}/100',
+  'common.feedback': 'Feedback:',
+  'common.points': '{points}/{max} points',
+  'common.part': 'Part {number}',
+  'common.minutes': '{minutes} min',
+  'common.partsAndMinutes': '{parts} {parts|part|parts} · {minutes} min',
+  'common.topic': 'Topic: {topic}',
+  'common.myProgress': 'My Progress',
+  'common.practice': 'Practice',
+
+  // Header
+  'header.title': 'German {level} Mock Test',
+  'header.language': 'Display language',
+
+  // Modules
+  'module.reading': 'Lesen (Reading)',
+  'module.listening': 'Hören (Listening)',
+  'module.writing': 'Schreiben (Writing)',
+  'module.speaking': 'Sprechen (Speaking)',
+  'module.reading.desc': 'Comprehension of texts & emails',
+  'module.listening.desc': 'Understanding dialogues',
+  'module.writing.desc': 'Short messages & tasks',
+  'module.speaking.desc': 'AI-guided speaking assessment',
+
+  // Levels
+  'level.A1': 'A1 · Beginner',
+  'level.A2': 'A2 · Elementary',
+  'level.B1': 'B1 · Intermediate',
+
+  // HOME
+  'home.poweredBy': 'Powered by',
+  'home.titleLead': 'Test Your',
+  'home.titleLevel': 'German {level} Proficiency',
+  'home.quickAssessment': 'Quick AI Assessment',
+  'home.intro': 'Prepare with confidence using our comprehensive mock test. Simulate the real exam structure for Reading, Listening, Writing, and Speaking using advanced AI to grade you instantly.',
+  'home.examFormat': 'Exam format',
+  'home.level': 'Level',
+  'home.strictTitle': 'Strict exam rules',
+  'home.strictHint': 'recordings can only be played as often as in the real exam',
+  'home.timerTitle': 'Exam timer',
+  'home.timerHint': 'each module is submitted automatically when its time is up',
+  'home.unfinished': 'You have an unfinished test',
+  'home.inProgress': 'In progress',
+  'home.allModulesFinished': 'All modules finished',
+  'home.savedAt': 'saved {date}',
+  'home.unfinishedKept': 'Unfinished tests are kept for {hours} hours. Starting a new test replaces it.',
+  'home.resume': 'Resume',
+  'home.discard': 'Discard',
+  'home.start': 'Start Mock Test',
+  'home.dailyReview': 'Daily Review',
+  'home.practiseModule': 'Practise this module',
+
+  // Details form
+  'details.title': 'Final Step',
+  'details.subtitle': 'Enter details to generate your score report.',
+  'details.name': 'Full Name',
+  'details.namePlaceholder': 'Enter your full name',
+  'details.phone': 'Phone Number',
+  'details.phonePlaceholder': '10-digit phone number',
+  'details.language': 'Preferred Language',
+  'details.language.English': 'English',
+  'details.language.Malayalam': 'Malayalam',
+  'details.language.Tamil': 'Tamil',
+  'details.language.Other': 'Other',
+  'details.viewResults': 'View Results',
+  'details.error.name': 'Please enter your full name.',
+  'details.error.phoneLength': 'Phone number must be exactly 10 digits.',
+  'details.error.phoneZero': 'Phone number cannot start with 0.',
+
+  // Practice result
+  'practice.header': 'Practice · {profile} · {level}',
+  'practice.notSubmitted': 'Practice results are not part of a full mock test and are not submitted.',
+  'practice.again': 'Practise Again',
+
+  // Results
+  'results.completed': "You've completed the {profile} mock test at level {level}.",
+  'results.overall': 'Overall Score',
+  'results.headline.passed': 'Congratulations',
+  'results.headline.failed': 'Keep going',
+  'results.grade.veryGood': 'Very good',
+  'results.grade.good': 'Good',
+  'results.grade.satisfactory': 'Satisfactory',
+  'results.grade.sufficient': 'Sufficient',
+  'results.grade.failed': 'Not passed',
+  'results.sectionPassed': 'passed',
+  'results.sectionFailed': 'not passed',
+  'results.passFrom': '(pass from {points})',
+  'results.comparedWith': 'Changes compared with your previous mock test on {date} ({profile}, {level}).',
+  'results.nextTitle': 'What to Practise Next',
+  'results.nextSubtitle': 'Skills with the most mistakes in this test, weakest first.',
+  'results.acrossTitle': 'Across Your Recent Attempts',
+  'results.acrossSubtitle': 'Mistakes added up over your last {count} attempts, including practice.',
+  'results.submission.saved': 'Your result has been saved.',
+  'results.submission.pending': 'Saving your result… We keep trying in the background, even after a reload.',
+  'results.submission.failed': 'Your result could not be sent yet. It is stored on this device and will be retried.',
+  'results.unscored': 'not scored',
+  'results.unscoredHint': 'Every answer key in this module was disputed, so it was left out of the score.',
+  'results.again': 'Take Test Again',
+
+  // Exam tips
+  'tips.focus': 'Your weakest area this time was {skill}. {advice}',
+  'tips.missingPoints': '{section}: {missing} more {missing|point|points} needed ({points}/{max}, pass from {pass})',
+  'tips.failed.title': 'Needs More Preparation (Nicht bestanden)',
+  'tips.failed.content': "{missing}. Don't be discouraged! {focus} Regular practice is key. Du schaffst das!",
+  'tips.failed.default': 'Practise a little every day with short texts and dialogues.',
+  'tips.excellent.title': 'Ready for the Exam! (Sehr Gut)',
+  'tips.excellent.content': 'Your performance is outstanding! You are well-prepared for the real {level} exam. {focus} Viel Glück!',
+  'tips.excellent.focus': 'For a perfect score: {focus}',
+  'tips.excellent.default': 'No weak spots this time.',
+  'tips.good.title': 'Very Good Performance (Gut)',
+  'tips.good.content': 'You have a solid grasp. {focus} Gut gemacht!',
+  'tips.good.default': 'Practice speaking aloud to improve confidence.',
+  'tips.pass.title': 'Good Start - Keep Practicing ({grade})',
+  'tips.pass.content': 'Passing score! {focus} Weiter so!',
+  'tips.pass.default': 'Try listening to German podcasts to get used to native speed.',
+
+  // Reading
+  'reading.loading': 'Generating Reading Test...',
+  'reading.loadingHint': 'Curating questions for you.',
+  'reading.loadFailed': 'Failed to load reading test.',
+  'reading.intro': 'Read the texts and answer correctly.',
+
+  // Listening
+  'listening.loading': 'Preparing Listening Tracks...',
+  'listening.loadingHint': 'Generating audio content for the test.',
+  'listening.loadFailed': 'Failed to load listening test.',
+  'listening.errorTitle': 'Error Loading Test',
+  'listening.intro': 'Each part has its own recording. Read the questions first, then listen; {plays}.',
+  'listening.playedOnce': 'Teil {part} is played once',
+  'listening.playedTimes': 'Teil {part} is played {plays} times',
+  'listening.strict': 'Strict mode: play limits are enforced',
+
+  // Listening player and transcript
+  'player.plays': '{used}/{plays} {plays|play|plays}',
+  'player.extra': '(extra)',
+  'player.countdown': 'Read the questions. The recording starts in {seconds}s.',
+  'player.skip': 'Skip',
+  'player.playedOnce': 'This recording has been played once, as in the exam.',
+  'player.playedTimes': 'This recording has been played {plays} times, as in the exam.',
+  'transcript.title': 'Transcript · click a sentence to listen from there',
+
+  // Questions and explanations
+  'question.uncertain': 'The answer key for this question is uncertain, so it is not counted in your score.',
+  'explain.button': 'Explain',
+  'explain.title': 'Why this answer is correct',
+  'explain.loading': 'Explaining...',
+  'explain.failed': 'The explanation could not be loaded. Please try again.',
+
+  // Writing
+  'writing.loading': 'Generating Writing Task...',
+  'writing.loadingHint': 'Creating a unique scenario for you to practice.',
+  'writing.loadFailed': 'Failed to load writing task',
+  'writing.evaluateFailed': 'Failed to evaluate writing. Please try again.',
+  'writing.emptyText': 'No text was written before the time ran out.',
+  'writing.evaluating': 'Evaluating...',
+  'writing.submit': 'Submit for Grading',
+  'writing.yourText': 'Your text:',
+  'writing.corrections': 'Corrections & Improvements:',
+  'writing.placeholder': 'Write your German text here...',
+  'writing.formPart': 'Part 1 (form)',
+  'writing.emailPart': 'Part 2 (email)',
+  'marked.noErrors': 'No errors were marked in your text.',
+  'marked.skill': 'Skill: {skill}',
+  'marked.position': 'Error {current} of {total}',
+  'rubric.criterion': 'Criterion',
+  'rubric.points': 'Points',
+  'rubric.comment': 'Comment',
+  'rubric.total': 'Total',
+  'rubric.contentPoints': 'Content points:',
+  'criterion.task-completion': 'Task completion',
+  'criterion.task-completion.desc': 'All content points of the task are covered and the text has roughly the requested length.',
+  'criterion.communicative-design': 'Communicative design',
+  'criterion.communicative-design.desc': 'Text type conventions (greeting, closing, register) and sentences that connect into a coherent message.',
+  'criterion.formal-correctness': 'Formal correctness',
+  'criterion.formal-correctness.desc': 'Grammar, spelling and vocabulary appropriate to the level; errors do not block understanding.',
+  'errorCategory.article-gender': 'Article / gender',
+  'errorCategory.verb-position': 'Verb position',
+  'errorCategory.conjugation': 'Conjugation',
+  'errorCategory.spelling': 'Spelling',
+  'errorCategory.case': 'Case',
+  'errorCategory.other': 'Other',
+
+  // Speaking
+  'speaking.loading': 'Generating Speaking Task...',
+  'speaking.loadingHint': 'Preparing a conversation topic for you.',
+  'speaking.loadFailed': 'Failed to generate speaking task.',
+  'speaking.noAnswers': 'Time ran out before any question was answered.',
+  'speaking.evaluateFailed': 'Some answers could not be evaluated.',
+  'speaking.briefing': 'The examiner will speak to you. Answer each question by recording your voice; the examiner may ask a follow-up question.',
+  'speaking.start': 'Start Speaking Exam',
+  'speaking.progress': 'Question {current} of {total}',
+  'speaking.scoring': 'Scoring your answers...',
+  'speaking.yourAnswers': 'Your answers',
+  'speaking.card': 'Card: {card}',
+  'examiner.listenAgain': 'Listen again',
+  'examiner.followUp': 'Follow-up question',
+  'recorder.noAccess': 'Could not access microphone.',
+  'recorder.denied': 'Microphone permission denied.',
+  'recorder.notFound': 'No microphone found.',
+  'recorder.checkSettings': 'Please check your browser settings or use the text fallback.',
+  'recorder.typeInstead': 'Type Answer Instead',
+  'recorder.start': 'Click microphone to start recording your answer.',
+  'recorder.recordAgain': 'Delete and record again',
+  'recorder.cantSpeak': "Can't speak? Type your answer",
+  'recorder.typeLabel': 'Type your response (Simulation)',
+  'recorder.typePlaceholder': 'Type your German answer here...',
+  'recorder.useMicrophone': 'Switch to Microphone',
+  'recorder.listening': 'Examiner is listening...',
+  'recorder.submit': 'Submit Answer',
+  'speech.content': 'Content',
+  'speech.language': 'Language',
+  'speech.recording': 'Your recording:',
+  'speech.heard': 'What we heard:',
+  'speech.noTranscript': 'No transcript is available for this answer.',
+  'speech.corrections': 'Corrections:',
+  'speech.suggestions': 'Suggestions:',
+  'speech.notes': 'Pronunciation & fluency:',
+  'speech.kind.pronunciation': 'pronunciation',
+  'speech.kind.fluency': 'fluency',
+
+  // Timer
+  'timer.warning': 'Time is running out. Start finishing your answers.',
+  'timer.critical': 'Less than a minute left. The module will be submitted automatically.',
+  'timer.expired': 'Time is up. Your answers have been submitted.',
+
+  // History
+  'history.title': 'Your Progress',
+  'history.clear': 'Clear',
+  'history.confirmClear': 'Delete all stored attempts?',
+  'history.empty': 'No attempts yet. Finish a mock test or a practice module to see your progress here.',
+  'history.attempts': '{count} {count|attempt|attempts}',
+  'history.latest': 'Latest',
+  'history.best': 'Best',
+  'history.notTaken': 'Not taken yet',
+  'history.weakTitle': 'Your Weak Spots',
+  'history.weakSubtitle': 'Grammar and vocabulary areas with the most mistakes in your last {count} attempts, weakest first.',
+  'history.date': 'Date',
+  'history.format': 'Format',
+  'history.points': 'Points',
+
+  // Weakness report and skills
+  'weakness.missed': '{missed} of {asked} question {asked|point|points} missed',
+  'weakness.errors': '{errors} {errors|error|errors} in your writing or speaking',
+  'weakness.none': 'No weak spots found. Every tagged question was answered correctly.',
+  'skill.articles': 'Articles (der/die/das)',
+  'skill.articles.advice': 'Learn every noun together with its article and plural ("der Tisch, die Tische") and colour-code your vocabulary cards by gender.',
+  'skill.akkusativ': 'Akkusativ',
+  'skill.akkusativ.advice': 'Revise den/einen/meinen and the verbs and prepositions that need the accusative: haben, brauchen, kaufen, sehen, für, ohne, durch. Write five sentences a day with them.',
+  'skill.modal-verbs': 'Modal verbs',
+  'skill.modal-verbs.advice': 'Practise können, müssen, dürfen, wollen, sollen and möchten: the modal verb in position 2, the infinitive at the end ("Ich muss heute arbeiten").',
+  'skill.verb-forms': 'Verb forms',
+  'skill.verb-forms.advice': 'Drill the present tense endings and the irregular verbs sein, haben, fahren, essen and lesen with one sentence per person (ich, du, er/sie, wir, ihr, sie).',
+  'skill.word-order': 'Word order',
+  'skill.word-order.advice': 'Keep the conjugated verb in position 2 and move it to the end after weil and dass. Rewrite sentences so they start with a time expression ("Morgen gehe ich ...").',
+  'skill.numbers-time': 'Numbers & time',
+  'skill.numbers-time.advice': 'Listen to prices, phone numbers, dates and times and write them down. Practise the clock ("halb drei" is 2:30) and numbers such as "einundzwanzig".',
+  'skill.spelling': 'Spelling',
+  'skill.spelling.advice': 'Capitalise every noun and check umlauts and ß. Read your text once only for spelling before you hand it in, and copy names and addresses letter by letter.',
+  'skill.vocabulary': 'Vocabulary',
+  'skill.vocabulary.advice': 'Learn words by topic with an example sentence each and review them daily.',
+  'skill.vocabularyThemes': 'Revise the words for {themes}. {advice}',
+
+  // Review deck
+  'review.title': 'Daily Review',
+  'review.remove': 'Remove',
+  'review.removeHint': 'Remove this card from the deck',
+  'review.done': 'Done for today: {count} {count|card|cards} reviewed.',
+  'review.nothing': 'Nothing to review today.',
+  'review.about': 'Questions you miss and sentences that get corrected in your tests are added to your deck automatically. Each session shows up to {limit} due cards.',
+  'review.check': 'Check',
+  'review.continue': 'Continue',
+  'review.findMistakes': 'Find the {count|mistake|mistakes} and say the sentence correctly.',
+  'review.showCorrection': 'Show Correction',
+  'review.grade.again': 'Again',
+  'review.grade.hard': 'Hard',
+  'review.grade.good': 'Good',
+  'review.grade.easy': 'Easy'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
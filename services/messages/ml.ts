@@ -0,0 +1,321 @@
+import { Messages } from "./en.ts";
+
+export const ml: Messages = {
+  // Shared
+  'common.back': 'തിരികെ',
+  'common.backHome': 'ഹോമിലേക്ക് മടങ്ങുക',
+  'common.tryAgain': 'വീണ്ടും ശ്രമിക്കുക',
+  'common.somethingWrong': 'എന്തോ പിശക് സംഭവിച്ചു',
+  'common.nextModule': 'അടുത്ത മൊഡ്യൂൾ',
+  'common.finishTest': 'ടെസ്റ്റ് പൂർത്തിയാക്കുക',
+  'common.seeResult': 'ഫലം കാണുക',
+  'common.submitAnswers': 'ഉത്തരങ്ങൾ സമർപ്പിക്കുക ({answered}/{total})',
+  'common.evaluationResult': 'മൂല്യനിർണയ ഫലം',
+  'common.score': 'സ്കോർ: {score}/100',
+  'common.feedback': 'അഭിപ്രായം:',
+  'common.points': '{points}/{max} പോയിന്റ്',
+  'common.part': 'ഭാഗം {number}',
+  'common.minutes': '{minutes} മിനിറ്റ്',
+  'common.partsAndMinutes': '{parts} ഭാഗങ്ങൾ · {minutes} മിനിറ്റ്',
+  'common.topic': 'വിഷയം: {topic}',
+  'common.myProgress': 'എന്റെ പുരോഗതി',
+  'common.practice': 'പരിശീലനം',
+
+  // Header
+  'header.title': 'ജർമ്മൻ {level} മോക്ക് ടെസ്റ്റ്',
+  'header.language': 'പ്രദർശന ഭാഷ',
+
+  // Modules
+  'module.reading': 'Lesen (വായന)',
+  'module.listening': 'Hören (കേൾക്കൽ)',
+  'module.writing': 'Schreiben (എഴുത്ത്)',
+  'module.speaking': 'Sprechen (സംസാരം)',
+  'module.reading.desc': 'പാഠങ്ങളും ഇമെയിലുകളും മനസ്സിലാക്കൽ',
+  'module.listening.desc': 'സംഭാഷണങ്ങൾ മനസ്സിലാക്കൽ',
+  'module.writing.desc': 'ചെറിയ സന്ദേശങ്ങളും ടാസ്കുകളും',
+  'module.speaking.desc': 'AI നയിക്കുന്ന സംസാര വിലയിരുത്തൽ',
+
+  // Levels
+  'level.A1': 'A1 · തുടക്കക്കാർ',
+  'level.A2': 'A2 · പ്രാഥമികം',
+  'level.B1': 'B1 · ഇടത്തരം',
+
+  // HOME
+  'home.poweredBy': 'സാങ്കേതിക പിന്തുണ',
+  'home.titleLead': 'നിങ്ങളുടെ',
+  'home.titleLevel': 'ജർമ്മൻ {level} നിലവാരം പരീക്ഷിക്കൂ',
+  'home.quickAssessment': 'വേഗത്തിലുള്ള AI വിലയിരുത്തൽ',
+  'home.intro': 'ഞങ്ങളുടെ സമഗ്രമായ മോക്ക് ടെസ്റ്റിലൂടെ ആത്മവിശ്വാസത്തോടെ തയ്യാറെടുക്കൂ. വായന, കേൾക്കൽ, എഴുത്ത്, സംസാരം എന്നിവയുള്ള യഥാർത്ഥ പരീക്ഷയുടെ ഘടന അനുഭവിക്കൂ; AI നിങ്ങളുടെ ഉത്തരങ്ങൾ ഉടൻ വിലയിരുത്തും.',
+  'home.examFormat': 'പരീക്ഷാ ഫോർമാറ്റ്',
+  'home.level': 'നിലവാരം',
+  'home.strictTitle': 'കർശനമായ പരീക്ഷാ നിയമങ്ങൾ',
+  'home.strictHint': 'യഥാർത്ഥ പരീക്ഷയിലെ അത്രയും തവണ മാത്രമേ റെക്കോർഡിംഗുകൾ പ്ലേ ചെയ്യാനാകൂ',
+  'home.timerTitle': 'പരീക്ഷാ ടൈമർ',
+  'home.timerHint': 'സമയം കഴിയുമ്പോൾ ഓരോ മൊഡ്യൂളും സ്വയം സമർപ്പിക്കപ്പെടും',
+  'home.unfinished': 'നിങ്ങൾക്ക് പൂർത്തിയാക്കാത്ത ഒരു ടെസ്റ്റ് ഉണ്ട്',
+  'home.inProgress': 'പുരോഗമിക്കുന്നു',
+  'home.allModulesFinished': 'എല്ലാ മൊഡ്യൂളുകളും പൂർത്തിയായി',
+  'home.savedAt': '{date}-ന് സേവ് ചെയ്തു',
+  'home.unfinishedKept': 'പൂർത്തിയാക്കാത്ത ടെസ്റ്റുകൾ {hours} മണിക്കൂർ സൂക്ഷിക്കും. പുതിയ ടെസ്റ്റ് തുടങ്ങിയാൽ ഇത് മാറ്റിസ്ഥാപിക്കപ്പെടും.',
+  'home.resume': 'തുടരുക',
+  'home.discard': 'ഉപേക്ഷിക്കുക',
+  'home.start': 'മോക്ക് ടെസ്റ്റ് ആരംഭിക്കുക',
+  'home.dailyReview': 'ദൈനംദിന പുനരവലോകനം',
+  'home.practiseModule': 'ഈ മൊഡ്യൂൾ പരിശീലിക്കുക',
+
+  // Details form
+  'details.title': 'അവസാന ഘട്ടം',
+  'details.subtitle': 'നിങ്ങളുടെ സ്കോർ റിപ്പോർട്ട് തയ്യാറാക്കാൻ വിവരങ്ങൾ നൽകുക.',
+  'details.name': 'പൂർണ്ണ നാമം',
+  'details.namePlaceholder': 'നിങ്ങളുടെ പൂർണ്ണ നാമം നൽകുക',
+  'details.phone': 'ഫോൺ നമ്പർ',
+  'details.phonePlaceholder': '10 അക്ക ഫോൺ നമ്പർ',
+  'details.language': 'ഇഷ്ടപ്പെട്ട ഭാഷ',
+  'details.language.English': 'ഇംഗ്ലീഷ്',
+  'details.language.Malayalam': 'മലയാളം',
+  'details.language.Tamil': 'തമിഴ്',
+  'details.language.Other': 'മറ്റുള്ളവ',
+  'details.viewResults': 'ഫലങ്ങൾ കാണുക',
+  'details.error.name': 'ദയവായി നിങ്ങളുടെ പൂർണ്ണ നാമം നൽകുക.',
+  'details.error.phoneLength': 'ഫോൺ നമ്പറിൽ കൃത്യമായി 10 അക്കങ്ങൾ വേണം.',
+  'details.error.phoneZero': 'ഫോൺ നമ്പർ 0-ൽ തുടങ്ങാൻ പാടില്ല.',
+
+  // Practice result
+  'practice.header': 'പരിശീലനം · {profile} · {level}',
+  'practice.notSubmitted': 'പരിശീലന ഫലങ്ങൾ പൂർണ്ണ മോക്ക് ടെസ്റ്റിന്റെ ഭാഗമല്ല, അവ സമർപ്പിക്കപ്പെടുന്നില്ല.',
+  'practice.again': 'വീണ്ടും പരിശീലിക്കുക',
+
+  // Results
+  'results.completed': 'നിങ്ങൾ {level} നിലവാരത്തിലുള്ള {profile} മോക്ക് ടെസ്റ്റ് പൂർത്തിയാക്കി.',
+  'results.overall': 'ആകെ ഫലം',
+  'results.headline.passed': 'അഭിനന്ദനങ്ങൾ',
+  'results.headline.failed': 'പരിശീലനം തുടരൂ',
+  'results.grade.veryGood': 'വളരെ നല്ലത്',
+  'results.grade.good': 'നല്ലത്',
+  'results.grade.satisfactory': 'തൃപ്തികരം',
+  'results.grade.sufficient': 'മതിയായത്',
+  'results.grade.failed': 'വിജയിച്ചില്ല',
+  'results.sectionPassed': 'വിജയിച്ചു',
+  'results.sectionFailed': 'വിജയിച്ചില്ല',
+  'results.passFrom': '({points} മുതൽ വിജയം)',
+  'results.comparedWith': '{date}-ലെ നിങ്ങളുടെ മുൻ മോക്ക് ടെസ്റ്റുമായുള്ള ({profile}, {level}) മാറ്റങ്ങൾ.',
+  'results.nextTitle': 'അടുത്തതായി പരിശീലിക്കേണ്ടത്',
+  'results.nextSubtitle': 'ഈ ടെസ്റ്റിൽ ഏറ്റവും കൂടുതൽ തെറ്റുകൾ വന്ന മേഖലകൾ, ഏറ്റവും ദുർബലമായത് ആദ്യം.',
+  'results.acrossTitle': 'നിങ്ങളുടെ സമീപകാല ശ്രമങ്ങളിൽ ആകെ',
+  'results.acrossSubtitle': 'പരിശീലനം ഉൾപ്പെടെ നിങ്ങളുടെ അവസാന {count} ശ്രമങ്ങളിലെ തെറ്റുകൾ കൂട്ടിയത്.',
+  'results.submission.saved': 'നിങ്ങളുടെ ഫലം സേവ് ചെയ്തു.',
+  'results.submission.pending': 'നിങ്ങളുടെ ഫലം സേവ് ചെയ്യുന്നു… പേജ് റീലോഡ് ചെയ്താലും ഞങ്ങൾ പശ്ചാത്തലത്തിൽ ശ്രമിച്ചുകൊണ്ടിരിക്കും.',
+  'results.submission.failed': 'നിങ്ങളുടെ ഫലം ഇതുവരെ അയയ്ക്കാൻ കഴിഞ്ഞില്ല. ഇത് ഈ ഉപകരണത്തിൽ സൂക്ഷിച്ചിട്ടുണ്ട്, വീണ്ടും അയയ്ക്കാൻ ശ്രമിക്കും.',
+  'results.unscored': 'സ്കോർ ചെയ്തിട്ടില്ല',
+  'results.unscoredHint': 'ഈ മൊഡ്യൂളിലെ എല്ലാ ഉത്തരസൂചികകളും സംശയാസ്പദമായതിനാൽ ഇത് സ്കോറിൽ ഉൾപ്പെടുത്തിയിട്ടില്ല.',
+  'results.again': 'ടെസ്റ്റ് വീണ്ടും എഴുതുക',
+
+  // Exam tips
+  'tips.focus': 'ഇത്തവണ നിങ്ങളുടെ ഏറ്റവും ദുർബലമായ മേഖല {skill} ആയിരുന്നു. {advice}',
+  'tips.missingPoints': '{section}: {missing} പോയിന്റ് കൂടി വേണം ({points}/{max}, {pass} മുതൽ വിജയം)',
+  'tips.failed.title': 'കൂടുതൽ തയ്യാറെടുപ്പ് ആവശ്യമാണ് (Nicht bestanden)',
+  'tips.failed.content': '{missing}. നിരാശപ്പെടരുത്! {focus} പതിവായ പരിശീലനമാണ് പ്രധാനം. Du schaffst das!',
+  'tips.failed.default': 'ചെറിയ പാഠങ്ങളും സംഭാഷണങ്ങളും ഉപയോഗിച്ച് ദിവസവും അൽപം പരിശീലിക്കുക.',
+  'tips.excellent.title': 'പരീക്ഷയ്ക്ക് തയ്യാർ! (Sehr gut)',
+  'tips.excellent.content': 'നിങ്ങളുടെ പ്രകടനം മികച്ചതാണ്! യഥാർത്ഥ {level} പരീക്ഷയ്ക്ക് നിങ്ങൾ നന്നായി തയ്യാറാണ്. {focus} Viel Glück!',
+  'tips.excellent.focus': 'പൂർണ്ണ സ്കോറിനായി: {focus}',
+  'tips.excellent.default': 'ഇത്തവണ ദുർബലമായ മേഖലകളൊന്നുമില്ല.',
+  'tips.good.title': 'വളരെ നല്ല പ്രകടനം (Gut)',
+  'tips.good.content': 'നിങ്ങൾക്ക് നല്ല അടിത്തറയുണ്ട്. {focus} Gut gemacht!',
+  'tips.good.default': 'ആത്മവിശ്വാസം കൂട്ടാൻ ഉറക്കെ സംസാരിച്ച് പരിശീലിക്കുക.',
+  'tips.pass.title': 'നല്ല തുടക്കം - പരിശീലനം തുടരുക ({grade})',
+  'tips.pass.content': 'വിജയിക്കാനുള്ള സ്കോർ! {focus} Weiter so!',
+  'tips.pass.default': 'സ്വാഭാവിക വേഗതയുമായി പരിചയപ്പെടാൻ ജർമ്മൻ പോഡ്കാസ്റ്റുകൾ കേൾക്കുക.',
+
+  // Reading
+  'reading.loading': 'വായനാ ടെസ്റ്റ് തയ്യാറാക്കുന്നു...',
+  'reading.loadingHint': 'നിങ്ങൾക്കായി ചോദ്യങ്ങൾ ഒരുക്കുന്നു.',
+  'reading.loadFailed': 'വായനാ ടെസ്റ്റ് ലോഡ് ചെയ്യാനായില്ല.',
+  'reading.intro': 'പാഠങ്ങൾ വായിച്ച് ശരിയായി ഉത്തരം നൽകുക.',
+
+  // Listening
+  'listening.loading': 'കേൾക്കൽ ട്രാക്കുകൾ തയ്യാറാക്കുന്നു...',
+  'listening.loadingHint': 'ടെസ്റ്റിനുള്ള ഓഡിയോ സൃഷ്ടിക്കുന്നു.',
+  'listening.loadFailed': 'കേൾക്കൽ ടെസ്റ്റ് ലോഡ് ചെയ്യാനായില്ല.',
+  'listening.errorTitle': 'ടെസ്റ്റ് ലോഡ് ചെയ്യുന്നതിൽ പിശക്',
+  'listening.intro': 'ഓരോ ഭാഗത്തിനും സ്വന്തം റെക്കോർഡിംഗ് ഉണ്ട്. ആദ്യം ചോദ്യങ്ങൾ വായിക്കുക, പിന്നെ കേൾക്കുക; {plays}.',
+  'listening.playedOnce': 'Teil {part} ഒരു തവണ പ്ലേ ചെയ്യും',
+  'listening.playedTimes': 'Teil {part} {plays} തവണ പ്ലേ ചെയ്യും',
+  'listening.strict': 'കർശന മോഡ്: പ്ലേ പരിധികൾ ബാധകമാണ്',
+
+  // Listening player and transcript
+  'player.plays': '{used}/{plays} തവണ',
+  'player.extra': '(അധികം)',
+  'player.countdown': 'ചോദ്യങ്ങൾ വായിക്കുക. {seconds} സെക്കൻഡിനുള്ളിൽ റെക്കോർഡിംഗ് തുടങ്ങും.',
+  'player.skip': 'ഒഴിവാക്കുക',
+  'player.playedOnce': 'പരീക്ഷയിലെപ്പോലെ ഈ റെക്കോർഡിംഗ് ഒരു തവണ പ്ലേ ചെയ്തു.',
+  'player.playedTimes': 'പരീക്ഷയിലെപ്പോലെ ഈ റെക്കോർഡിംഗ് {plays} തവണ പ്ലേ ചെയ്തു.',
+  'transcript.title': 'ട്രാൻസ്ക്രിപ്റ്റ് · അവിടെ നിന്ന് കേൾക്കാൻ ഒരു വാക്യത്തിൽ ക്ലിക്ക് ചെയ്യുക',
+
+  // Questions and explanations
+  'question.uncertain': 'ഈ ചോദ്യത്തിന്റെ ഉത്തരസൂചിക ഉറപ്പില്ലാത്തതിനാൽ ഇത് നിങ്ങളുടെ സ്കോറിൽ കണക്കാക്കുന്നില്ല.',
+  'explain.button': 'വിശദീകരിക്കുക',
+  'explain.title': 'ഈ ഉത്തരം ശരിയാകുന്നത് എന്തുകൊണ്ട്',
+  'explain.loading': 'വിശദീകരണം തയ്യാറാക്കുന്നു...',
+  'explain.failed': 'വിശദീകരണം ലോഡ് ചെയ്യാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+
+  // Writing
+  'writing.loading': 'എഴുത്ത് ടാസ്ക് തയ്യാറാക്കുന്നു...',
+  'writing.loadingHint': 'നിങ്ങൾക്ക് പരിശീലിക്കാൻ ഒരു പുതിയ സാഹചര്യം ഒരുക്കുന്നു.',
+  'writing.loadFailed': 'എഴുത്ത് ടാസ്ക് ലോഡ് ചെയ്യാനായില്ല',
+  'writing.evaluateFailed': 'എഴുത്ത് വിലയിരുത്താനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  'writing.emptyText': 'സമയം കഴിയുന്നതിന് മുമ്പ് ഒന്നും എഴുതിയില്ല.',
+  'writing.evaluating': 'വിലയിരുത്തുന്നു...',
+  'writing.submit': 'വിലയിരുത്തലിനായി സമർപ്പിക്കുക',
+  'writing.yourText': 'നിങ്ങളുടെ പാഠം:',
+  'writing.corrections': 'തിരുത്തലുകളും മെച്ചപ്പെടുത്തലുകളും:',
+  'writing.placeholder': 'നിങ്ങളുടെ ജർമ്മൻ വാചകം ഇവിടെ എഴുതുക...',
+  'writing.formPart': 'ഭാഗം 1 (ഫോം)',
+  'writing.emailPart': 'ഭാഗം 2 (ഇമെയിൽ)',
+  'marked.noErrors': 'നിങ്ങളുടെ പാഠത്തിൽ തെറ്റുകളൊന്നും അടയാളപ്പെടുത്തിയിട്ടില്ല.',
+  'marked.skill': 'മേഖല: {skill}',
+  'marked.position': 'തെറ്റ് {current} / {total}',
+  'rubric.criterion': 'മാനദണ്ഡം',
+  'rubric.points': 'പോയിന്റ്',
+  'rubric.comment': 'അഭിപ്രായം',
+  'rubric.total': 'ആകെ',
+  'rubric.contentPoints': 'ഉള്ളടക്ക പോയിന്റുകൾ:',
+  'criterion.task-completion': 'ടാസ്ക് പൂർത്തീകരണം',
+  'criterion.task-completion.desc': 'ടാസ്കിലെ എല്ലാ ഉള്ളടക്ക പോയിന്റുകളും ഉൾപ്പെടുത്തിയിട്ടുണ്ട്, പാഠത്തിന് ഏകദേശം ആവശ്യപ്പെട്ട നീളമുണ്ട്.',
+  'criterion.communicative-design': 'ആശയവിനിമയ രൂപകൽപ്പന',
+  'criterion.communicative-design.desc': 'പാഠ തരത്തിന്റെ രീതികൾ (അഭിസംബോധന, സമാപനം, ശൈലി), ഒന്നിച്ച് ചേർന്ന് ഒരു സന്ദേശമാകുന്ന വാക്യങ്ങൾ.',
+  'criterion.formal-correctness': 'ഭാഷാപരമായ കൃത്യത',
+  'criterion.formal-correctness.desc': 'നിലവാരത്തിന് യോജിച്ച വ്യാകരണം, അക്ഷരവിന്യാസം, പദസമ്പത്ത്; തെറ്റുകൾ മനസ്സിലാക്കലിനെ തടയുന്നില്ല.',
+  'errorCategory.article-gender': 'ആർട്ടിക്കിൾ / ലിംഗം',
+  'errorCategory.verb-position': 'ക്രിയയുടെ സ്ഥാനം',
+  'errorCategory.conjugation': 'ക്രിയാരൂപം',
+  'errorCategory.spelling': 'അക്ഷരവിന്യാസം',
+  'errorCategory.case': 'വിഭക്തി',
+  'errorCategory.other': 'മറ്റുള്ളവ',
+
+  // Speaking
+  'speaking.loading': 'സംസാര ടാസ്ക് തയ്യാറാക്കുന്നു...',
+  'speaking.loadingHint': 'നിങ്ങൾക്കായി ഒരു സംഭാഷണ വിഷയം ഒരുക്കുന്നു.',
+  'speaking.loadFailed': 'സംസാര ടാസ്ക് സൃഷ്ടിക്കാനായില്ല.',
+  'speaking.noAnswers': 'ഒരു ചോദ്യത്തിനും ഉത്തരം നൽകുന്നതിന് മുമ്പ് സമയം കഴിഞ്ഞു.',
+  'speaking.evaluateFailed': 'ചില ഉത്തരങ്ങൾ വിലയിരുത്താനായില്ല.',
+  'speaking.briefing': 'പരീക്ഷകൻ നിങ്ങളോട് സംസാരിക്കും. ഓരോ ചോദ്യത്തിനും നിങ്ങളുടെ ശബ്ദം റെക്കോർഡ് ചെയ്ത് ഉത്തരം നൽകുക; പരീക്ഷകൻ ഒരു തുടർചോദ്യം ചോദിച്ചേക്കാം.',
+  'speaking.start': 'സംസാര പരീക്ഷ ആരംഭിക്കുക',
+  'speaking.progress': 'ചോദ്യം {current} / {total}',
+  'speaking.scoring': 'നിങ്ങളുടെ ഉത്തരങ്ങൾ വിലയിരുത്തുന്നു...',
+  'speaking.yourAnswers': 'നിങ്ങളുടെ ഉത്തരങ്ങൾ',
+  'speaking.card': 'കാർഡ്: {card}',
+  'examiner.listenAgain': 'വീണ്ടും കേൾക്കുക',
+  'examiner.followUp': 'തുടർചോദ്യം',
+  'recorder.noAccess': 'മൈക്രോഫോൺ ഉപയോഗിക്കാനായില്ല.',
+  'recorder.denied': 'മൈക്രോഫോൺ അനുമതി നിഷേധിച്ചു.',
+  'recorder.notFound': 'മൈക്രോഫോൺ കണ്ടെത്തിയില്ല.',
+  'recorder.checkSettings': 'ബ്രൗസർ ക്രമീകരണങ്ങൾ പരിശോധിക്കുക, അല്ലെങ്കിൽ ഉത്തരം ടൈപ്പ് ചെയ്യുക.',
+  'recorder.typeInstead': 'പകരം ഉത്തരം ടൈപ്പ് ചെയ്യുക',
+  'recorder.start': 'ഉത്തരം റെക്കോർഡ് ചെയ്യാൻ മൈക്രോഫോണിൽ ക്ലിക്ക് ചെയ്യുക.',
+  'recorder.recordAgain': 'ഡിലീറ്റ് ചെയ്ത് വീണ്ടും റെക്കോർഡ് ചെയ്യുക',
+  'recorder.cantSpeak': 'സംസാരിക്കാൻ കഴിയില്ലേ? ഉത്തരം ടൈപ്പ് ചെയ്യുക',
+  'recorder.typeLabel': 'നിങ്ങളുടെ ഉത്തരം ടൈപ്പ് ചെയ്യുക (സിമുലേഷൻ)',
+  'recorder.typePlaceholder': 'നിങ്ങളുടെ ജർമ്മൻ ഉത്തരം ഇവിടെ ടൈപ്പ് ചെയ്യുക...',
+  'recorder.useMicrophone': 'മൈക്രോഫോണിലേക്ക് മാറുക',
+  'recorder.listening': 'പരീക്ഷകൻ കേൾക്കുന്നു...',
+  'recorder.submit': 'ഉത്തരം സമർപ്പിക്കുക',
+  'speech.content': 'ഉള്ളടക്കം',
+  'speech.language': 'ഭാഷ',
+  'speech.recording': 'നിങ്ങളുടെ റെക്കോർഡിംഗ്:',
+  'speech.heard': 'ഞങ്ങൾ കേട്ടത്:',
+  'speech.noTranscript': 'ഈ ഉത്തരത്തിന് ട്രാൻസ്ക്രിപ്റ്റ് ലഭ്യമല്ല.',
+  'speech.corrections': 'തിരുത്തലുകൾ:',
+  'speech.suggestions': 'നിർദ്ദേശങ്ങൾ:',
+  'speech.notes': 'ഉച്ചാരണവും ഒഴുക്കും:',
+  'speech.kind.pronunciation': 'ഉച്ചാരണം',
+  'speech.kind.fluency': 'ഒഴുക്ക്',
+
+  // Timer
+  'timer.warning': 'സമയം തീരാറായി. ഉത്തരങ്ങൾ പൂർത്തിയാക്കാൻ തുടങ്ങുക.',
+  'timer.critical': 'ഒരു മിനിറ്റിൽ താഴെ ബാക്കി. മൊഡ്യൂൾ സ്വയം സമർപ്പിക്കപ്പെടും.',
+  'timer.expired': 'സമയം കഴിഞ്ഞു. നിങ്ങളുടെ ഉത്തരങ്ങൾ സമർപ്പിച്ചു.',
+
+  // History
+  'history.title': 'നിങ്ങളുടെ പുരോഗതി',
+  'history.clear': 'മായ്ക്കുക',
+  'history.confirmClear': 'സൂക്ഷിച്ച എല്ലാ ശ്രമങ്ങളും ഡിലീറ്റ് ചെയ്യണോ?',
+  'history.empty': 'ഇതുവരെ ശ്രമങ്ങളൊന്നുമില്ല. നിങ്ങളുടെ പുരോഗതി ഇവിടെ കാണാൻ ഒരു മോക്ക് ടെസ്റ്റോ പരിശീലന മൊഡ്യൂളോ പൂർത്തിയാക്കുക.',
+  'history.attempts': '{count} ശ്രമങ്ങൾ',
+  'history.latest': 'ഏറ്റവും പുതിയത്',
+  'history.best': 'മികച്ചത്',
+  'history.notTaken': 'ഇതുവരെ എഴുതിയിട്ടില്ല',
+  'history.weakTitle': 'നിങ്ങളുടെ ദുർബലമായ മേഖലകൾ',
+  'history.weakSubtitle': 'നിങ്ങളുടെ അവസാന {count} ശ്രമങ്ങളിൽ ഏറ്റവും കൂടുതൽ തെറ്റുകൾ വന്ന വ്യാകരണ, പദസമ്പത്ത് മേഖലകൾ, ഏറ്റവും ദുർബലമായത് ആദ്യം.',
+  'history.date': 'തീയതി',
+  'history.format': 'ഫോർമാറ്റ്',
+  'history.points': 'പോയിന്റ്',
+
+  // Weakness report and skills
+  'weakness.missed': '{asked} ചോദ്യ പോയിന്റുകളിൽ {missed} എണ്ണം നഷ്ടപ്പെട്ടു',
+  'weakness.errors': 'എഴുത്തിലോ സംസാരത്തിലോ {errors} തെറ്റുകൾ',
+  'weakness.none': 'ദുർബലമായ മേഖലകളൊന്നും കണ്ടെത്തിയില്ല. അടയാളപ്പെടുത്തിയ എല്ലാ ചോദ്യങ്ങൾക്കും ശരിയായി ഉത്തരം നൽകി.',
+  'skill.articles': 'ആർട്ടിക്കിളുകൾ (der/die/das)',
+  'skill.articles.advice': 'ഓരോ നാമവും അതിന്റെ ആർട്ടിക്കിളും ബഹുവചനവും ചേർത്ത് പഠിക്കുക ("der Tisch, die Tische"); പദ കാർഡുകൾ ലിംഗമനുസരിച്ച് നിറം നൽകി തരംതിരിക്കുക.',
+  'skill.akkusativ': 'Akkusativ',
+  'skill.akkusativ.advice': 'den/einen/meinen എന്നിവയും Akkusativ ആവശ്യമുള്ള ക്രിയകളും ഉപസർഗ്ഗങ്ങളും ആവർത്തിക്കുക: haben, brauchen, kaufen, sehen, für, ohne, durch. ഇവ ഉപയോഗിച്ച് ദിവസവും അഞ്ച് വാക്യങ്ങൾ എഴുതുക.',
+  'skill.modal-verbs': 'മോഡൽ ക്രിയകൾ',
+  'skill.modal-verbs.advice': 'können, müssen, dürfen, wollen, sollen, möchten എന്നിവ പരിശീലിക്കുക: മോഡൽ ക്രിയ രണ്ടാം സ്ഥാനത്ത്, ഇൻഫിനിറ്റീവ് അവസാനം ("Ich muss heute arbeiten").',
+  'skill.verb-forms': 'ക്രിയാരൂപങ്ങൾ',
+  'skill.verb-forms.advice': 'വർത്തമാനകാല പ്രത്യയങ്ങളും sein, haben, fahren, essen, lesen എന്നീ ക്രമരഹിത ക്രിയകളും ഓരോ പുരുഷനും ഓരോ വാക്യം വീതം എഴുതി ഉറപ്പിക്കുക (ich, du, er/sie, wir, ihr, sie).',
+  'skill.word-order': 'വാക്യക്രമം',
+  'skill.word-order.advice': 'രൂപമാറ്റം വന്ന ക്രിയ രണ്ടാം സ്ഥാനത്ത് വയ്ക്കുക; weil, dass എന്നിവയ്ക്ക് ശേഷം അത് അവസാനത്തേക്ക് മാറ്റുക. സമയസൂചകത്തിൽ തുടങ്ങുന്ന രീതിയിൽ വാക്യങ്ങൾ മാറ്റിയെഴുതുക ("Morgen gehe ich ...").',
+  'skill.numbers-time': 'സംഖ്യകളും സമയവും',
+  'skill.numbers-time.advice': 'വിലകൾ, ഫോൺ നമ്പറുകൾ, തീയതികൾ, സമയങ്ങൾ എന്നിവ കേട്ട് എഴുതിയെടുക്കുക. ക്ലോക്ക് സമയം ("halb drei" എന്നാൽ 2:30), "einundzwanzig" പോലുള്ള സംഖ്യകൾ എന്നിവ പരിശീലിക്കുക.',
+  'skill.spelling': 'അക്ഷരവിന്യാസം',
+  'skill.spelling.advice': 'എല്ലാ നാമങ്ങളും വലിയ അക്ഷരത്തിൽ തുടങ്ങുക, ഉംലൗട്ടുകളും ß-ഉം പരിശോധിക്കുക. സമർപ്പിക്കുന്നതിന് മുമ്പ് അക്ഷരത്തെറ്റുകൾക്കായി മാത്രം ഒരിക്കൽ വായിക്കുക; പേരുകളും വിലാസങ്ങളും അക്ഷരം അക്ഷരമായി പകർത്തുക.',
+  'skill.vocabulary': 'പദസമ്പത്ത്',
+  'skill.vocabulary.advice': 'വാക്കുകൾ വിഷയമനുസരിച്ച്, ഓരോന്നിനും ഒരു ഉദാഹരണ വാക്യത്തോടെ പഠിച്ച് ദിവസവും ആവർത്തിക്കുക.',
+  'skill.vocabularyThemes': '{themes} എന്നീ വിഷയങ്ങളിലെ വാക്കുകൾ ആവർത്തിക്കുക. {advice}',
+
+  // Review deck
+  'review.title': 'ദൈനംദിന പുനരവലോകനം',
+  'review.remove': 'നീക്കം ചെയ്യുക',
+  'review.removeHint': 'ഈ കാർഡ് ഡെക്കിൽ നിന്ന് നീക്കം ചെയ്യുക',
+  'review.done': 'ഇന്നത്തേക്ക് പൂർത്തിയായി: {count} കാർഡുകൾ പുനരവലോകനം ചെയ്തു.',
+  'review.nothing': 'ഇന്ന് പുനരവലോകനം ചെയ്യാൻ ഒന്നുമില്ല.',
+  'review.about': 'ടെസ്റ്റുകളിൽ തെറ്റിയ ചോദ്യങ്ങളും തിരുത്തപ്പെട്ട വാക്യങ്ങളും സ്വയം നിങ്ങളുടെ ഡെക്കിൽ ചേർക്കപ്പെടും. ഓരോ സെഷനിലും പരമാവധി {limit} കാർഡുകൾ കാണിക്കും.',
+  'review.check': 'പരിശോധിക്കുക',
+  'review.continue': 'തുടരുക',
+  'review.findMistakes': 'തെറ്റ് കണ്ടെത്തി വാക്യം ശരിയായി പറയുക.',
+  'review.showCorrection': 'തിരുത്തൽ കാണിക്കുക',
+  'review.grade.again': 'വീണ്ടും',
+  'review.grade.hard': 'പ്രയാസം',
+  'review.grade.good': 'നല്ലത്',
+  'review.grade.easy': 'എളുപ്പം'
+};
+
+// Descriptions from the exam profiles, keyed "<profile>.description" and "<profile>.<module>.<part index>"
+export const mlExamTexts: Record<string, string> = {
+  'quick.description': 'ചെറിയ പരിശീലന ടെസ്റ്റ്: 2 വായനാ പാഠങ്ങൾ, 2 റെക്കോർഡിംഗുകൾ, ഒരു ഇമെയിൽ, ഒരു സംസാര ടാസ്ക്.',
+  'quick.reading.0': 'ചെറിയ അനൗപചാരിക ഇമെയിൽ',
+  'quick.reading.1': 'അറിയിപ്പ് അല്ലെങ്കിൽ ബോർഡ്',
+  'quick.listening.0': 'രണ്ട് പേർ തമ്മിലുള്ള ദൈനംദിന സംഭാഷണം',
+  'quick.listening.1': 'പൊതു അറിയിപ്പ്',
+  'quick.speaking.0': 'ഒരു സംസാര ചോദ്യത്തിന് ഉത്തരം നൽകുക',
+  'goethe-a1.description': 'Start Deutsch 1 ഫോർമാറ്റ്: Hören 3 ഭാഗങ്ങൾ, Lesen 3 ഭാഗങ്ങൾ, Schreiben 2 ഭാഗങ്ങൾ, Sprechen 3 ഭാഗങ്ങൾ.',
+  'goethe-a1.reading.0': 'രണ്ട് ചെറിയ വ്യക്തിപരമായ ഇമെയിലുകൾ അല്ലെങ്കിൽ കത്തുകൾ; പ്രസ്താവനകൾ richtig/falsch എന്ന് അടയാളപ്പെടുത്തുക',
+  'goethe-a1.reading.1': 'അഞ്ച് ദൈനംദിന സാഹചര്യങ്ങൾ, ഓരോന്നിനും രണ്ട് ചെറിയ പരസ്യങ്ങളോ വെബ് പേജുകളോ (a/b); യോജിച്ചത് തിരഞ്ഞെടുക്കുക',
+  'goethe-a1.reading.2': 'കടകളിലും ഓഫീസുകളിലും സ്റ്റേഷനുകളിലുമുള്ള അഞ്ച് ബോർഡുകളും അറിയിപ്പുകളും; പ്രസ്താവനകൾ richtig/falsch എന്ന് അടയാളപ്പെടുത്തുക',
+  'goethe-a1.listening.0': 'ആറ് ചെറിയ ദൈനംദിന സംഭാഷണങ്ങൾ; ഓരോന്നിനും മൂന്ന് ഓപ്ഷനുകളുള്ള ഒരു ചോദ്യം',
+  'goethe-a1.listening.1': 'സ്റ്റേഷനിലോ വിമാനത്താവളത്തിലോ കടയിലോ ഉള്ള നാല് അറിയിപ്പുകൾ; പ്രസ്താവനകൾ richtig/falsch എന്ന് അടയാളപ്പെടുത്തുക',
+  'goethe-a1.listening.2': 'ആൻസറിംഗ് മെഷീനിലെ അഞ്ച് ടെലിഫോൺ സന്ദേശങ്ങൾ; ഓരോന്നിനും മൂന്ന് ഓപ്ഷനുകളുള്ള ഒരു ചോദ്യം',
+  'goethe-a1.speaking.0': 'സ്വയം പരിചയപ്പെടുത്തുക, പിന്നെ ആവശ്യപ്പെടുമ്പോൾ ഒരു വാക്ക് സ്പെൽ ചെയ്യുകയും ഒരു സംഖ്യ പറയുകയും ചെയ്യുക',
+  'goethe-a1.speaking.1': 'ഒരു വിഷയത്തിലുള്ള വാക്ക് കാർഡുകൾ ഉപയോഗിച്ച് ചോദ്യങ്ങൾ ചോദിക്കുകയും ഉത്തരം പറയുകയും ചെയ്യുക, ഉദാ. "Essen und Trinken"',
+  'goethe-a1.speaking.2': 'ചിത്ര കാർഡുകളോ വാക്ക് കാർഡുകളോ ഉപയോഗിച്ച് അഭ്യർത്ഥനകൾ നടത്തുകയും അവയോട് പ്രതികരിക്കുകയും ചെയ്യുക',
+  'telc-a1.description': 'telc Start Deutsch 1 ഫോർമാറ്റ്: Hören 3 ഭാഗങ്ങൾ, Lesen 3 ഭാഗങ്ങൾ, Schreiben 2 ഭാഗങ്ങൾ, Sprechen 3 ഭാഗങ്ങൾ.',
+  'telc-a1.reading.0': 'ചെറിയ സ്വകാര്യ കത്ത് അല്ലെങ്കിൽ ഇമെയിൽ; പ്രസ്താവനകൾ richtig/falsch എന്ന് അടയാളപ്പെടുത്തുക',
+  'telc-a1.reading.1': 'ആറ് സാഹചര്യങ്ങളും എട്ട് ചെറിയ പരസ്യങ്ങളും; ഓരോ സാഹചര്യത്തെയും ഒരു പരസ്യവുമായി (അല്ലെങ്കിൽ ഒന്നുമില്ല എന്നതുമായി) ചേർക്കുക',
+  'telc-a1.reading.2': 'പൊതു സ്ഥലങ്ങളിലെ അഞ്ച് അറിയിപ്പുകളും ബോർഡുകളും; പ്രസ്താവനകൾ richtig/falsch എന്ന് അടയാളപ്പെടുത്തുക',
+  'telc-a1.listening.0': 'ആറ് ചെറിയ സംഭാഷണങ്ങൾ; ഓരോന്നിനും മൂന്ന് ഓപ്ഷനുകളുള്ള ഒരു ചോദ്യം',
+  'telc-a1.listening.1': 'നാല് പൊതു അറിയിപ്പുകൾ; പ്രസ്താവനകൾ richtig/falsch എന്ന് അടയാളപ്പെടുത്തുക',
+  'telc-a1.listening.2': 'അഞ്ച് ചെറിയ റേഡിയോ അല്ലെങ്കിൽ ടെലിഫോൺ സന്ദേശങ്ങൾ; ഓരോന്നിനും മൂന്ന് ഓപ്ഷനുകളുള്ള ഒരു ചോദ്യം',
+  'telc-a1.speaking.0': 'നൽകിയ സൂചകപദങ്ങൾ ഉപയോഗിച്ച് സ്വയം പരിചയപ്പെടുത്തുക, പിന്നെ സ്പെൽ ചെയ്യുകയും സംഖ്യകൾ പറയുകയും ചെയ്യുക',
+  'telc-a1.speaking.1': 'വാക്ക് കാർഡുകൾ ഉപയോഗിച്ച് ഒരു വിഷയത്തിൽ പങ്കാളിയോട് ചോദ്യങ്ങൾ ചോദിക്കുകയും അവരുടെ ചോദ്യങ്ങൾക്ക് ഉത്തരം നൽകുകയും ചെയ്യുക',
+  'telc-a1.speaking.2': 'ചിത്ര കാർഡുകൾ ഉപയോഗിച്ച് സാധനങ്ങൾ ചോദിക്കുകയും അഭ്യർത്ഥനകളോട് പ്രതികരിക്കുകയും ചെയ്യുക'
+};
@@ -0,0 +1,321 @@
+import { Messages } from "./en.ts";
+
+export const ta: Messages = {
+  // Shared
+  'common.back': 'பின்செல்',
+  'common.backHome': 'முகப்புக்குத் திரும்பு',
+  'common.tryAgain': 'மீண்டும் முயற்சிக்கவும்',
+  'common.somethingWrong': 'ஏதோ தவறு நடந்தது',
+  'common.nextModule': 'அடுத்த பகுதி',
+  'common.finishTest': 'தேர்வை முடி',
+  'common.seeResult': 'முடிவைப் பார்',
+  'common.submitAnswers': 'பதில்களைச் சமர்ப்பி ({answered}/{total})',
+  'common.evaluationResult': 'மதிப்பீட்டு முடிவு',
+  'common.score': 'மதிப்பெண்: {score}/100',
+  'common.feedback': 'கருத்து:',
+  'common.points': '{points}/{max} புள்ளிகள்',
+  'common.part': 'பகுதி {number}',
+  'common.minutes': '{minutes} நிமிடம்',
+  'common.partsAndMinutes': '{parts} பகுதிகள் · {minutes} நிமிடம்',
+  'common.topic': 'தலைப்பு: {topic}',
+  'common.myProgress': 'என் முன்னேற்றம்',
+  'common.practice': 'பயிற்சி',
+
+  // Header
+  'header.title': 'ஜெர்மன் {level} மாதிரித் தேர்வு',
+  'header.language': 'காட்சி மொழி',
+
+  // Modules
+  'module.reading': 'Lesen (வாசிப்பு)',
+  'module.listening': 'Hören (கேட்டல்)',
+  'module.writing': 'Schreiben (எழுதுதல்)',
+  'module.speaking': 'Sprechen (பேசுதல்)',
+  'module.reading.desc': 'உரைகள் மற்றும் மின்னஞ்சல்களைப் புரிந்துகொள்ளுதல்',
+  'module.listening.desc': 'உரையாடல்களைப் புரிந்துகொள்ளுதல்',
+  'module.writing.desc': 'சிறு செய்திகள் மற்றும் பணிகள்',
+  'module.speaking.desc': 'AI வழிநடத்தும் பேச்சு மதிப்பீடு',
+
+  // Levels
+  'level.A1': 'A1 · தொடக்கநிலை',
+  'level.A2': 'A2 · அடிப்படை',
+  'level.B1': 'B1 · இடைநிலை',
+
+  // HOME
+  'home.poweredBy': 'தொழில்நுட்ப ஆதரவு',
+  'home.titleLead': 'உங்கள்',
+  'home.titleLevel': 'ஜெர்மன் {level} திறனைச் சோதியுங்கள்',
+  'home.quickAssessment': 'விரைவான AI மதிப்பீடு',
+  'home.intro': 'எங்கள் முழுமையான மாதிரித் தேர்வுடன் நம்பிக்கையுடன் தயாராகுங்கள். வாசிப்பு, கேட்டல், எழுதுதல், பேசுதல் கொண்ட உண்மையான தேர்வின் அமைப்பை அனுபவியுங்கள்; AI உங்கள் பதில்களை உடனே மதிப்பிடும்.',
+  'home.examFormat': 'தேர்வு வடிவம்',
+  'home.level': 'நிலை',
+  'home.strictTitle': 'கடுமையான தேர்வு விதிகள்',
+  'home.strictHint': 'உண்மையான தேர்வில் உள்ள அளவுக்கு மட்டுமே ஒலிப்பதிவுகளை இயக்க முடியும்',
+  'home.timerTitle': 'தேர்வு நேரக்கணிப்பான்',
+  'home.timerHint': 'நேரம் முடிந்ததும் ஒவ்வொரு பகுதியும் தானாகச் சமர்ப்பிக்கப்படும்',
+  'home.unfinished': 'முடிக்காத ஒரு தேர்வு உங்களிடம் உள்ளது',
+  'home.inProgress': 'நடந்துகொண்டிருக்கிறது',
+  'home.allModulesFinished': 'எல்லாப் பகுதிகளும் முடிந்தன',
+  'home.savedAt': '{date} அன்று சேமிக்கப்பட்டது',
+  'home.unfinishedKept': 'முடிக்காத தேர்வுகள் {hours} மணி நேரம் வைத்திருக்கப்படும். புதிய தேர்வைத் தொடங்கினால் இது மாற்றப்படும்.',
+  'home.resume': 'தொடர்',
+  'home.discard': 'நீக்கு',
+  'home.start': 'மாதிரித் தேர்வைத் தொடங்கு',
+  'home.dailyReview': 'தினசரி மீளாய்வு',
+  'home.practiseModule': 'இந்தப் பகுதியைப் பயிற்சி செய்',
+
+  // Details form
+  'details.title': 'இறுதிப் படி',
+  'details.subtitle': 'உங்கள் மதிப்பெண் அறிக்கையை உருவாக்க விவரங்களை உள்ளிடவும்.',
+  'details.name': 'முழுப் பெயர்',
+  'details.namePlaceholder': 'உங்கள் முழுப் பெயரை உள்ளிடவும்',
+  'details.phone': 'தொலைபேசி எண்',
+  'details.phonePlaceholder': '10 இலக்க தொலைபேசி எண்',
+  'details.language': 'விருப்ப மொழி',
+  'details.language.English': 'ஆங்கிலம்',
+  'details.language.Malayalam': 'மலையாளம்',
+  'details.language.Tamil': 'தமிழ்',
+  'details.language.Other': 'மற்றவை',
+  'details.viewResults': 'முடிவுகளைப் பார்',
+  'details.error.name': 'உங்கள் முழுப் பெயரை உள்ளிடவும்.',
+  'details.error.phoneLength': 'தொலைபேசி எண் சரியாக 10 இலக்கங்களாக இருக்க வேண்டும்.',
+  'details.error.phoneZero': 'தொலைபேசி எண் 0-இல் தொடங்கக் கூடாது.',
+
+  // Practice result
+  'practice.header': 'பயிற்சி · {profile} · {level}',
+  'practice.notSubmitted': 'பயிற்சி முடிவுகள் முழு மாதிரித் தேர்வின் பகுதி அல்ல, அவை சமர்ப்பிக்கப்படுவதில்லை.',
+  'practice.again': 'மீண்டும் பயிற்சி செய்',
+
+  // Results
+  'results.completed': '{level} நிலையில் {profile} மாதிரித் தேர்வை முடித்துவிட்டீர்கள்.',
+  'results.overall': 'மொத்த மதிப்பெண்',
+  'results.headline.passed': 'வாழ்த்துகள்',
+  'results.headline.failed': 'தொடர்ந்து பயிற்சி செய்யுங்கள்',
+  'results.grade.veryGood': 'மிக நன்று',
+  'results.grade.good': 'நன்று',
+  'results.grade.satisfactory': 'திருப்திகரம்',
+  'results.grade.sufficient': 'போதுமானது',
+  'results.grade.failed': 'தேர்ச்சி பெறவில்லை',
+  'results.sectionPassed': 'தேர்ச்சி',
+  'results.sectionFailed': 'தேர்ச்சி இல்லை',
+  'results.passFrom': '({points} முதல் தேர்ச்சி)',
+  'results.comparedWith': '{date} அன்று நீங்கள் எழுதிய முந்தைய மாதிரித் தேர்வுடன் ({profile}, {level}) ஒப்பிடும் மாற்றங்கள்.',
+  'results.nextTitle': 'அடுத்து என்ன பயிற்சி செய்வது',
+  'results.nextSubtitle': 'இந்தத் தேர்வில் அதிகத் தவறுகள் வந்த திறன்கள், பலவீனமானது முதலில்.',
+  'results.acrossTitle': 'உங்கள் சமீபத்திய முயற்சிகள் முழுவதும்',
+  'results.acrossSubtitle': 'பயிற்சி உட்பட உங்கள் கடைசி {count} முயற்சிகளின் தவறுகள் கூட்டப்பட்டவை.',
+  'results.submission.saved': 'உங்கள் முடிவு சேமிக்கப்பட்டது.',
+  'results.submission.pending': 'உங்கள் முடிவு சேமிக்கப்படுகிறது… பக்கத்தை மீண்டும் ஏற்றினாலும் பின்னணியில் தொடர்ந்து முயற்சிப்போம்.',
+  'results.submission.failed': 'உங்கள் முடிவை இன்னும் அனுப்ப முடியவில்லை. இது இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளது, மீண்டும் அனுப்ப முயற்சிப்போம்.',
+  'results.unscored': 'மதிப்பிடப்படவில்லை',
+  'results.unscoredHint': 'இந்தப் பகுதியின் எல்லா விடைக்குறிப்புகளும் சந்தேகத்துக்குரியவை என்பதால் இது மதிப்பெண்ணில் சேர்க்கப்படவில்லை.',
+  'results.again': 'தேர்வை மீண்டும் எழுது',
+
+  // Exam tips
+  'tips.focus': 'இம்முறை உங்கள் பலவீனமான பகுதி {skill}. {advice}',
+  'tips.missingPoints': '{section}: இன்னும் {missing} புள்ளிகள் தேவை ({points}/{max}, {pass} முதல் தேர்ச்சி)',
+  'tips.failed.title': 'மேலும் தயாரிப்பு தேவை (Nicht bestanden)',
+  'tips.failed.content': '{missing}. மனம் தளர வேண்டாம்! {focus} தொடர்ந்த பயிற்சியே முக்கியம். Du schaffst das!',
+  'tips.failed.default': 'சிறு உரைகள் மற்றும் உரையாடல்களுடன் தினமும் சிறிது பயிற்சி செய்யுங்கள்.',
+  'tips.excellent.title': 'தேர்வுக்குத் தயார்! (Sehr gut)',
+  'tips.excellent.content': 'உங்கள் செயல்திறன் சிறப்பாக உள்ளது! உண்மையான {level} தேர்வுக்கு நீங்கள் நன்கு தயாராக உள்ளீர்கள். {focus} Viel Glück!',
+  'tips.excellent.focus': 'முழு மதிப்பெண்ணுக்கு: {focus}',
+  'tips.excellent.default': 'இம்முறை பலவீனமான பகுதிகள் எதுவும் இல்லை.',
+  'tips.good.title': 'மிக நல்ல செயல்திறன் (Gut)',
+  'tips.good.content': 'உங்களுக்கு நல்ல அடித்தளம் உள்ளது. {focus} Gut gemacht!',
+  'tips.good.default': 'நம்பிக்கையை வளர்க்க உரக்கப் பேசிப் பயிற்சி செய்யுங்கள்.',
+  'tips.pass.title': 'நல்ல தொடக்கம் - பயிற்சியைத் தொடருங்கள் ({grade})',
+  'tips.pass.content': 'தேர்ச்சி மதிப்பெண்! {focus} Weiter so!',
+  'tips.pass.default': 'இயல்பான வேகத்துக்குப் பழக ஜெர்மன் பாட்காஸ்ட்களைக் கேளுங்கள்.',
+
+  // Reading
+  'reading.loading': 'வாசிப்புத் தேர்வு தயாராகிறது...',
+  'reading.loadingHint': 'உங்களுக்கான கேள்விகள் தொகுக்கப்படுகின்றன.',
+  'reading.loadFailed': 'வாசிப்புத் தேர்வை ஏற்ற முடியவில்லை.',
+  'reading.intro': 'உரைகளைப் படித்துச் சரியாகப் பதிலளியுங்கள்.',
+
+  // Listening
+  'listening.loading': 'கேட்டல் ஒலிப்பதிவுகள் தயாராகின்றன...',
+  'listening.loadingHint': 'தேர்வுக்கான ஒலி உருவாக்கப்படுகிறது.',
+  'listening.loadFailed': 'கேட்டல் தேர்வை ஏற்ற முடியவில்லை.',
+  'listening.errorTitle': 'தேர்வை ஏற்றுவதில் பிழை',
+  'listening.intro': 'ஒவ்வொரு பகுதிக்கும் தனி ஒலிப்பதிவு உள்ளது. முதலில் கேள்விகளைப் படியுங்கள், பிறகு கேளுங்கள்; {plays}.',
+  'listening.playedOnce': 'Teil {part} ஒரு முறை இயக்கப்படும்',
+  'listening.playedTimes': 'Teil {part} {plays} முறை இயக்கப்படும்',
+  'listening.strict': 'கடுமையான முறை: இயக்க வரம்புகள் பொருந்தும்',
+
+  // Listening player and transcript
+  'player.plays': '{used}/{plays} முறை',
+  'player.extra': '(கூடுதல்)',
+  'player.countdown': 'கேள்விகளைப் படியுங்கள். ஒலிப்பதிவு {seconds} வினாடிகளில் தொடங்கும்.',
+  'player.skip': 'தவிர்',
+  'player.playedOnce': 'தேர்வில் உள்ளது போல இந்த ஒலிப்பதிவு ஒரு முறை இயக்கப்பட்டது.',
+  'player.playedTimes': 'தேர்வில் உள்ளது போல இந்த ஒலிப்பதிவு {plays} முறை இயக்கப்பட்டது.',
+  'transcript.title': 'எழுத்துப்படி · அங்கிருந்து கேட்க ஒரு வாக்கியத்தைக் கிளிக் செய்யுங்கள்',
+
+  // Questions and explanations
+  'question.uncertain': 'இந்தக் கேள்வியின் விடைக்குறிப்பு உறுதியாக இல்லாததால், இது உங்கள் மதிப்பெண்ணில் கணக்கிடப்படவில்லை.',
+  'explain.button': 'விளக்கு',
+  'explain.title': 'இந்தப் பதில் ஏன் சரி',
+  'explain.loading': 'விளக்கம் தயாராகிறது...',
+  'explain.failed': 'விளக்கத்தை ஏற்ற முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+
+  // Writing
+  'writing.loading': 'எழுதும் பணி தயாராகிறது...',
+  'writing.loadingHint': 'நீங்கள் பயிற்சி செய்ய ஒரு புதிய சூழ்நிலை உருவாக்கப்படுகிறது.',
+  'writing.loadFailed': 'எழுதும் பணியை ஏற்ற முடியவில்லை',
+  'writing.evaluateFailed': 'எழுத்தை மதிப்பிட முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'writing.emptyText': 'நேரம் முடிவதற்குள் எதுவும் எழுதப்படவில்லை.',
+  'writing.evaluating': 'மதிப்பிடப்படுகிறது...',
+  'writing.submit': 'மதிப்பீட்டுக்குச் சமர்ப்பி',
+  'writing.yourText': 'உங்கள் உரை:',
+  'writing.corrections': 'திருத்தங்களும் மேம்பாடுகளும்:',
+  'writing.placeholder': 'உங்கள் ஜெர்மன் உரையை இங்கே எழுதுங்கள்...',
+  'writing.formPart': 'பகுதி 1 (படிவம்)',
+  'writing.emailPart': 'பகுதி 2 (மின்னஞ்சல்)',
+  'marked.noErrors': 'உங்கள் உரையில் பிழைகள் எதுவும் குறிக்கப்படவில்லை.',
+  'marked.skill': 'திறன்: {skill}',
+  'marked.position': 'பிழை {current} / {total}',
+  'rubric.criterion': 'அளவுகோல்',
+  'rubric.points': 'புள்ளிகள்',
+  'rubric.comment': 'கருத்து',
+  'rubric.total': 'மொத்தம்',
+  'rubric.contentPoints': 'உள்ளடக்கப் புள்ளிகள்:',
+  'criterion.task-completion': 'பணி நிறைவு',
+  'criterion.task-completion.desc': 'பணியின் எல்லா உள்ளடக்கப் புள்ளிகளும் இடம்பெற்றுள்ளன, உரை ஏறக்குறைய கேட்கப்பட்ட நீளத்தில் உள்ளது.',
+  'criterion.communicative-design': 'தொடர்பு வடிவமைப்பு',
+  'criterion.communicative-design.desc': 'உரை வகையின் மரபுகள் (வாழ்த்து, முடிவு, நடை) மற்றும் ஒன்றிணைந்த செய்தியாக அமையும் வாக்கியங்கள்.',
+  'criterion.formal-correctness': 'மொழிச் சரித்தன்மை',
+  'criterion.formal-correctness.desc': 'நிலைக்கு ஏற்ற இலக்கணம், எழுத்துக்கூட்டல், சொல்வளம்; பிழைகள் புரிதலைத் தடுக்கவில்லை.',
+  'errorCategory.article-gender': 'ஆர்டிக்கிள் / பால்',
+  'errorCategory.verb-position': 'வினையின் இடம்',
+  'errorCategory.conjugation': 'வினை வடிவம்',
+  'errorCategory.spelling': 'எழுத்துக்கூட்டல்',
+  'errorCategory.case': 'வேற்றுமை',
+  'errorCategory.other': 'மற்றவை',
+
+  // Speaking
+  'speaking.loading': 'பேச்சுப் பணி தயாராகிறது...',
+  'speaking.loadingHint': 'உங்களுக்கான உரையாடல் தலைப்பு தயாராகிறது.',
+  'speaking.loadFailed': 'பேச்சுப் பணியை உருவாக்க முடியவில்லை.',
+  'speaking.noAnswers': 'எந்தக் கேள்விக்கும் பதிலளிப்பதற்கு முன் நேரம் முடிந்தது.',
+  'speaking.evaluateFailed': 'சில பதில்களை மதிப்பிட முடியவில்லை.',
+  'speaking.briefing': 'தேர்வாளர் உங்களிடம் பேசுவார். ஒவ்வொரு கேள்விக்கும் உங்கள் குரலைப் பதிவு செய்து பதிலளியுங்கள்; தேர்வாளர் ஒரு தொடர் கேள்வி கேட்கலாம்.',
+  'speaking.start': 'பேச்சுத் தேர்வைத் தொடங்கு',
+  'speaking.progress': 'கேள்வி {current} / {total}',
+  'speaking.scoring': 'உங்கள் பதில்கள் மதிப்பிடப்படுகின்றன...',
+  'speaking.yourAnswers': 'உங்கள் பதில்கள்',
+  'speaking.card': 'அட்டை: {card}',
+  'examiner.listenAgain': 'மீண்டும் கேள்',
+  'examiner.followUp': 'தொடர் கேள்வி',
+  'recorder.noAccess': 'மைக்ரோஃபோனை அணுக முடியவில்லை.',
+  'recorder.denied': 'மைக்ரோஃபோன் அனுமதி மறுக்கப்பட்டது.',
+  'recorder.notFound': 'மைக்ரோஃபோன் கிடைக்கவில்லை.',
+  'recorder.checkSettings': 'உலாவி அமைப்புகளைச் சரிபார்க்கவும் அல்லது பதிலைத் தட்டச்சு செய்யவும்.',
+  'recorder.typeInstead': 'பதிலாகத் தட்டச்சு செய்',
+  'recorder.start': 'பதிலைப் பதிவு செய்ய மைக்ரோஃபோனைக் கிளிக் செய்யுங்கள்.',
+  'recorder.recordAgain': 'நீக்கி மீண்டும் பதிவு செய்',
+  'recorder.cantSpeak': 'பேச முடியவில்லையா? பதிலைத் தட்டச்சு செய்யுங்கள்',
+  'recorder.typeLabel': 'உங்கள் பதிலைத் தட்டச்சு செய்யுங்கள் (உருவகப்படுத்தல்)',
+  'recorder.typePlaceholder': 'உங்கள் ஜெர்மன் பதிலை இங்கே தட்டச்சு செய்யுங்கள்...',
+  'recorder.useMicrophone': 'மைக்ரோஃபோனுக்கு மாறு',
+  'recorder.listening': 'தேர்வாளர் கேட்கிறார்...',
+  'recorder.submit': 'பதிலைச் சமர்ப்பி',
+  'speech.content': 'உள்ளடக்கம்',
+  'speech.language': 'மொழி',
+  'speech.recording': 'உங்கள் பதிவு:',
+  'speech.heard': 'நாங்கள் கேட்டது:',
+  'speech.noTranscript': 'இந்தப் பதிலுக்கு எழுத்துப்படி இல்லை.',
+  'speech.corrections': 'திருத்தங்கள்:',
+  'speech.suggestions': 'பரிந்துரைகள்:',
+  'speech.notes': 'உச்சரிப்பும் சரளமும்:',
+  'speech.kind.pronunciation': 'உச்சரிப்பு',
+  'speech.kind.fluency': 'சரளம்',
+
+  // Timer
+  'timer.warning': 'நேரம் முடியப்போகிறது. பதில்களை முடிக்கத் தொடங்குங்கள்.',
+  'timer.critical': 'ஒரு நிமிடத்துக்கும் குறைவாக உள்ளது. பகுதி தானாகச் சமர்ப்பிக்கப்படும்.',
+  'timer.expired': 'நேரம் முடிந்தது. உங்கள் பதில்கள் சமர்ப்பிக்கப்பட்டன.',
+
+  // History
+  'history.title': 'உங்கள் முன்னேற்றம்',
+  'history.clear': 'அழி',
+  'history.confirmClear': 'சேமித்த எல்லா முயற்சிகளையும் நீக்கவா?',
+  'history.empty': 'இதுவரை முயற்சிகள் இல்லை. உங்கள் முன்னேற்றத்தை இங்கே காண ஒரு மாதிரித் தேர்வையோ பயிற்சிப் பகுதியையோ முடியுங்கள்.',
+  'history.attempts': '{count} முயற்சிகள்',
+  'history.latest': 'சமீபத்தியது',
+  'history.best': 'சிறந்தது',
+  'history.notTaken': 'இன்னும் எழுதவில்லை',
+  'history.weakTitle': 'உங்கள் பலவீனமான பகுதிகள்',
+  'history.weakSubtitle': 'உங்கள் கடைசி {count} முயற்சிகளில் அதிகத் தவறுகள் வந்த இலக்கண, சொல்வளப் பகுதிகள், பலவீனமானது முதலில்.',
+  'history.date': 'தேதி',
+  'history.format': 'வடிவம்',
+  'history.points': 'புள்ளிகள்',
+
+  // Weakness report and skills
+  'weakness.missed': '{asked} கேள்விப் புள்ளிகளில் {missed} தவறின',
+  'weakness.errors': 'எழுத்தில் அல்லது பேச்சில் {errors} பிழைகள்',
+  'weakness.none': 'பலவீனமான பகுதிகள் எதுவும் இல்லை. குறிக்கப்பட்ட எல்லாக் கேள்விகளுக்கும் சரியாகப் பதிலளித்தீர்கள்.',
+  'skill.articles': 'ஆர்டிக்கிள்கள் (der/die/das)',
+  'skill.articles.advice': 'ஒவ்வொரு பெயர்ச்சொல்லையும் அதன் ஆர்டிக்கிள் மற்றும் பன்மையுடன் சேர்த்துக் கற்றுக்கொள்ளுங்கள் ("der Tisch, die Tische"); சொல் அட்டைகளைப் பால் வாரியாக வண்ணமிடுங்கள்.',
+  'skill.akkusativ': 'Akkusativ',
+  'skill.akkusativ.advice': 'den/einen/meinen மற்றும் Akkusativ தேவைப்படும் வினைகள், முன்னிடைச்சொற்களை மீண்டும் பாருங்கள்: haben, brauchen, kaufen, sehen, für, ohne, durch. இவற்றுடன் தினமும் ஐந்து வாக்கியங்கள் எழுதுங்கள்.',
+  'skill.modal-verbs': 'மோடல் வினைகள்',
+  'skill.modal-verbs.advice': 'können, müssen, dürfen, wollen, sollen, möchten ஆகியவற்றைப் பயிற்சி செய்யுங்கள்: மோடல் வினை இரண்டாம் இடத்தில், இன்ஃபினிட்டிவ் இறுதியில் ("Ich muss heute arbeiten").',
+  'skill.verb-forms': 'வினை வடிவங்கள்',
+  'skill.verb-forms.advice': 'நிகழ்கால விகுதிகளையும் sein, haben, fahren, essen, lesen ஆகிய ஒழுங்கற்ற வினைகளையும் ஒவ்வொரு இடத்துக்கும் ஒரு வாக்கியம் எழுதிப் பழகுங்கள் (ich, du, er/sie, wir, ihr, sie).',
+  'skill.word-order': 'சொல் வரிசை',
+  'skill.word-order.advice': 'வடிவம் மாறிய வினையை இரண்டாம் இடத்தில் வையுங்கள்; weil, dass-க்குப் பிறகு அதை இறுதிக்கு நகர்த்துங்கள். நேரக் குறிப்புடன் தொடங்கும்படி வாக்கியங்களை மாற்றி எழுதுங்கள் ("Morgen gehe ich ...").',
+  'skill.numbers-time': 'எண்களும் நேரமும்',
+  'skill.numbers-time.advice': 'விலைகள், தொலைபேசி எண்கள், தேதிகள், நேரங்களைக் கேட்டு எழுதுங்கள். கடிகார நேரம் ("halb drei" என்பது 2:30) மற்றும் "einundzwanzig" போன்ற எண்களைப் பயிற்சி செய்யுங்கள்.',
+  'skill.spelling': 'எழுத்துக்கூட்டல்',
+  'skill.spelling.advice': 'எல்லாப் பெயர்ச்சொற்களையும் பெரிய எழுத்தில் தொடங்குங்கள், உம்லாட்களையும் ß-ஐயும் சரிபார்க்குங்கள். சமர்ப்பிக்கும் முன் எழுத்துப்பிழைகளுக்காக மட்டும் ஒருமுறை படியுங்கள்; பெயர்களையும் முகவரிகளையும் எழுத்து எழுத்தாக நகலெடுங்கள்.',
+  'skill.vocabulary': 'சொல்வளம்',
+  'skill.vocabulary.advice': 'சொற்களைத் தலைப்பு வாரியாக, ஒவ்வொன்றுக்கும் ஒரு எடுத்துக்காட்டு வாக்கியத்துடன் கற்று தினமும் மீளாய்வு செய்யுங்கள்.',
+  'skill.vocabularyThemes': '{themes} தொடர்பான சொற்களை மீண்டும் பாருங்கள். {advice}',
+
+  // Review deck
+  'review.title': 'தினசரி மீளாய்வு',
+  'review.remove': 'அகற்று',
+  'review.removeHint': 'இந்த அட்டையைத் தொகுப்பிலிருந்து அகற்று',
+  'review.done': 'இன்றைக்கு முடிந்தது: {count} அட்டைகள் மீளாய்வு செய்யப்பட்டன.',
+  'review.nothing': 'இன்று மீளாய்வு செய்ய எதுவும் இல்லை.',
+  'review.about': 'தேர்வுகளில் தவறிய கேள்விகளும் திருத்தப்பட்ட வாக்கியங்களும் தானாக உங்கள் தொகுப்பில் சேர்க்கப்படும். ஒவ்வொரு அமர்விலும் அதிகபட்சம் {limit} அட்டைகள் காட்டப்படும்.',
+  'review.check': 'சரிபார்',
+  'review.continue': 'தொடர்',
+  'review.findMistakes': 'பிழையைக் கண்டுபிடித்து வாக்கியத்தைச் சரியாகச் சொல்லுங்கள்.',
+  'review.showCorrection': 'திருத்தத்தைக் காட்டு',
+  'review.grade.again': 'மீண்டும்',
+  'review.grade.hard': 'கடினம்',
+  'review.grade.good': 'நன்று',
+  'review.grade.easy': 'எளிது'
+};
+
+// Descriptions from the exam profiles, keyed "<profile>.description" and "<profile>.<module>.<part index>"
+export const taExamTexts: Record<string, string> = {
+  'quick.description': 'சிறிய பயிற்சித் தேர்வு: 2 வாசிப்பு உரைகள், 2 ஒலிப்பதிவுகள், ஒரு மின்னஞ்சல், ஒரு பேச்சுப் பணி.',
+  'quick.reading.0': 'சிறிய முறைசாரா மின்னஞ்சல்',
+  'quick.reading.1': 'அறிவிப்பு அல்லது பலகை',
+  'quick.listening.0': 'இருவருக்கு இடையிலான அன்றாட உரையாடல்',
+  'quick.listening.1': 'பொது அறிவிப்பு',
+  'quick.speaking.0': 'ஒரு பேச்சுக் கேள்விக்குப் பதிலளியுங்கள்',
+  'goethe-a1.description': 'Start Deutsch 1 வடிவம்: Hören 3 பகுதிகள், Lesen 3 பகுதிகள், Schreiben 2 பகுதிகள், Sprechen 3 பகுதிகள்.',
+  'goethe-a1.reading.0': 'இரண்டு சிறிய தனிப்பட்ட மின்னஞ்சல்கள் அல்லது கடிதங்கள்; கூற்றுகளை richtig/falsch எனக் குறியுங்கள்',
+  'goethe-a1.reading.1': 'ஐந்து அன்றாடச் சூழ்நிலைகள், ஒவ்வொன்றுக்கும் இரண்டு சிறு விளம்பரங்கள் அல்லது இணையப் பக்கங்கள் (a/b); பொருத்தமானதைத் தேர்ந்தெடுங்கள்',
+  'goethe-a1.reading.2': 'கடைகள், அலுவலகங்கள், நிலையங்களில் உள்ள ஐந்து பலகைகளும் அறிவிப்புகளும்; கூற்றுகளை richtig/falsch எனக் குறியுங்கள்',
+  'goethe-a1.listening.0': 'ஆறு சிறு அன்றாட உரையாடல்கள்; ஒவ்வொன்றுக்கும் மூன்று விருப்பங்களுடன் ஒரு கேள்வி',
+  'goethe-a1.listening.1': 'நிலையம், விமான நிலையம் அல்லது கடையில் நான்கு அறிவிப்புகள்; கூற்றுகளை richtig/falsch எனக் குறியுங்கள்',
+  'goethe-a1.listening.2': 'பதிலளிப்பு இயந்திரத்தில் ஐந்து தொலைபேசிச் செய்திகள்; ஒவ்வொன்றுக்கும் மூன்று விருப்பங்களுடன் ஒரு கேள்வி',
+  'goethe-a1.speaking.0': 'உங்களை அறிமுகப்படுத்துங்கள், பிறகு கேட்கும்போது ஒரு சொல்லை எழுத்துக்கூட்டி ஒரு எண்ணைச் சொல்லுங்கள்',
+  'goethe-a1.speaking.1': 'ஒரு தலைப்பிலான சொல் அட்டைகளைக் கொண்டு கேள்வி கேட்டுப் பதிலளியுங்கள், எ.கா. "Essen und Trinken"',
+  'goethe-a1.speaking.2': 'படம் அல்லது சொல் அட்டைகளைக் கொண்டு கோரிக்கைகளை வையுங்கள், அவற்றுக்குப் பதிலளியுங்கள்',
+  'telc-a1.description': 'telc Start Deutsch 1 வடிவம்: Hören 3 பகுதிகள், Lesen 3 பகுதிகள், Schreiben 2 பகுதிகள், Sprechen 3 பகுதிகள்.',
+  'telc-a1.reading.0': 'சிறிய தனிப்பட்ட கடிதம் அல்லது மின்னஞ்சல்; கூற்றுகளை richtig/falsch எனக் குறியுங்கள்',
+  'telc-a1.reading.1': 'ஆறு சூழ்நிலைகளும் எட்டு சிறு விளம்பரங்களும்; ஒவ்வொரு சூழ்நிலையையும் ஒரு விளம்பரத்துடன் (அல்லது எதுவுமில்லை என்பதுடன்) பொருத்துங்கள்',
+  'telc-a1.reading.2': 'பொது இடங்களில் ஐந்து அறிவிப்புகளும் பலகைகளும்; கூற்றுகளை richtig/falsch எனக் குறியுங்கள்',
+  'telc-a1.listening.0': 'ஆறு சிறு உரையாடல்கள்; ஒவ்வொன்றுக்கும் மூன்று விருப்பங்களுடன் ஒரு கேள்வி',
+  'telc-a1.listening.1': 'நான்கு பொது அறிவிப்புகள்; கூற்றுகளை richtig/falsch எனக் குறியுங்கள்',
+  'telc-a1.listening.2': 'ஐந்து சிறு வானொலி அல்லது தொலைபேசிச் செய்திகள்; ஒவ்வொன்றுக்கும் மூன்று விருப்பங்களுடன் ஒரு கேள்வி',
+  'telc-a1.speaking.0': 'கொடுக்கப்பட்ட குறிச்சொற்களைக் கொண்டு உங்களை அறிமுகப்படுத்துங்கள், பிறகு எழுத்துக்கூட்டி எண்களைச் சொல்லுங்கள்',
+  'telc-a1.speaking.1': 'சொல் அட்டைகளைக் கொண்டு ஒரு தலைப்பில் துணையிடம் கேள்வி கேட்டு, அவரது கேள்விகளுக்குப் பதிலளியுங்கள்',
+  'telc-a1.speaking.2': 'படம் அட்டைகளைக் கொண்டு பொருட்களைக் கேட்டு, கோரிக்கைகளுக்குப் பதிலளியுங்கள்'
+};
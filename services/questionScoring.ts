@@ -0,0 +1,39 @@
+import { Question, Answer, TestPart } from "../types.ts";
+
+// Scoring rules shared by Reading and Listening. Multiple-choice and true/false questions are worth
+// one point; a matching question is worth one point per item.
+
+export const maxPoints = (q: Question) => (q.kind === 'matching' ? q.items.length : 1);
+
+export const scoreQuestion = (q: Question, answer: Answer | undefined): number => {
+  if (answer === undefined) return 0;
+  switch (q.kind) {
+    case 'multiple-choice':
+      return answer === q.correctAnswerIndex ? 1 : 0;
+    case 'true-false':
+      return answer === q.correctAnswer ? 1 : 0;
+    case 'matching':
+      if (!Array.isArray(answer)) return 0;
+      return q.correctMatches.filter((match, i) => answer[i] === match).length;
+  }
+};
+
+export const isAnswered = (q: Question, answer: Answer | undefined) => {
+  if (answer === undefined) return false;
+  if (q.kind === 'matching') return Array.isArray(answer) && q.items.every((_, i) => answer[i] !== null && answer[i] !== undefined);
+  return true;
+};
+
+// Questions with a disputed answer key don't count either way. When every question is disputed,
+// possible is 0 and the module is unscored (see isUnscored), not failed.
+export const scoreParts = (parts: TestPart[], answers: Record<string, Answer>) => {
+  const scored = parts.flatMap(p => p.questions).filter(q => !q.flagged);
+  const earned = scored.reduce((acc, q) => acc + scoreQuestion(q, answers[q.id]), 0);
+  const possible = scored.reduce((acc, q) => acc + maxPoints(q), 0);
+  return { earned, possible, percent: possible ? (earned / possible) * 100 : 0 };
+};
+
+export const countQuestions = (parts: TestPart[]) => parts.reduce((acc, part) => acc + part.questions.length, 0);
+
+export const countAnswered = (parts: TestPart[], answers: Record<string, Answer>) =>
+  parts.flatMap(p => p.questions).filter(q => isAnswered(q, answers[q.id])).length;
@@ -0,0 +1,195 @@
+import { Question, MultipleChoiceQuestion, TestPart, Answer, TextCorrection, ModuleKey, SkillTag } from "../types.ts";
+import { scoreQuestion, maxPoints } from "./questionScoring.ts";
+import { excerptFor, correctAnswerLabel } from "./answerExplanations.ts";
+import { questionSkill, correctionSkill } from "./skillTags.ts";
+
+// Personal review deck: missed questions and corrected sentences collected from finished modules,
+// scheduled with SM-2 spaced repetition. Cards carry everything they show, so the daily review works
+// offline and without the test they came from.
+
+const DECK_KEY = 'mock-test-review-deck';
+const MAX_CARDS = 500;
+export const DAILY_REVIEW_LIMIT = 20;
+
+const DAY_MS = 24 * 3600 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Matching items become choice questions; as in the test, "no option fits" is always one of the answers
+const NO_MATCH_OPTION = '0 (keine Anzeige)';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+interface CardBase {
+  id: string;
+  key: string; // Identifies the content, so the same mistake is not added twice
+  module: ModuleKey;
+  skill: SkillTag;
+  addedAt: number;
+  // SM-2 schedule
+  due: number; // ms timestamp; new cards are due at once
+  interval: number; // Days
+  ease: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number;
+}
+
+// A missed Reading or Listening question with the passage sentence that answers it
+export interface QuestionCard extends CardBase {
+  kind: 'question';
+  question: Question;
+  partTitle: string;
+  excerpt: string;
+}
+
+// A sentence from the learner's writing or speaking, with its errors corrected
+export interface SentenceCard extends CardBase {
+  kind: 'sentence';
+  original: string;
+  corrected: string;
+  corrections: Pick<TextCorrection, 'original' | 'replacement' | 'explanation'>[];
+}
+
+export type ReviewCard = QuestionCard | SentenceCard;
+
+type Scheduling = 'id' | 'addedAt' | 'due' | 'interval' | 'ease' | 'repetitions' | 'lapses';
+type NewCard = Omit<QuestionCard, Scheduling> | Omit<SentenceCard, Scheduling>;
+
+export const loadDeck = (): ReviewCard[] => {
+  try {
+    const raw = localStorage.getItem(DECK_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Review deck could not be read", e);
+    return [];
+  }
+};
+
+const saveDeck = (deck: ReviewCard[]) => {
+  try {
+    localStorage.setItem(DECK_KEY, JSON.stringify(deck));
+  } catch (e) {
+    console.warn("Review deck could not be saved", e);
+  }
+};
+
+// A mistake made again is due again at once instead of being added a second time. When the deck is
+// full, the best-known cards (longest interval) make room.
+const addCards = (cards: NewCard[]) => {
+  if (cards.length === 0) return;
+  const now = Date.now();
+  const deck = loadDeck();
+  cards.forEach(card => {
+    const existing = deck.find(c => c.key === card.key);
+    if (existing) {
+      existing.due = now;
+      return;
+    }
+    deck.push({
+      ...card,
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      addedAt: now,
+      due: now,
+      interval: 0,
+      ease: INITIAL_EASE,
+      repetitions: 0,
+      lapses: 0
+    } as ReviewCard);
+  });
+  saveDeck(deck.length > MAX_CARDS ? [...deck].sort((a, b) => a.interval - b.interval).slice(0, MAX_CARDS) : deck);
+};
+
+// Each missed matching item becomes its own choice question over the same options
+const matchingItemQuestions = (q: Question, answer: Answer | undefined): MultipleChoiceQuestion[] => {
+  if (q.kind !== 'matching') return [];
+  const given = Array.isArray(answer) ? answer : [];
+  return q.items.flatMap((item, i): MultipleChoiceQuestion[] => {
+    if (given[i] === q.correctMatches[i]) return [];
+    const options = [...q.options, NO_MATCH_OPTION];
+    const correctAnswerIndex = q.correctMatches[i] === -1 ? options.length - 1 : q.correctMatches[i];
+    return [{ kind: 'multiple-choice', id: `${q.id}i${i + 1}`, text: item, options, correctAnswerIndex, skill: q.skill, theme: q.theme }];
+  });
+};
+
+// Matching items have no passage excerpt: their options are the texts. Questions with a disputed
+// answer key are not collected.
+export const collectMissedQuestions = (module: 'reading' | 'listening', parts: TestPart[], answers: Record<string, Answer>) =>
+  addCards(parts.flatMap(part => part.questions.filter(q => !q.flagged).flatMap((q): NewCard[] => {
+    const questions = q.kind === 'matching'
+      ? matchingItemQuestions(q, answers[q.id])
+      : scoreQuestion(q, answers[q.id]) < maxPoints(q) ? [q] : [];
+    return questions.map(question => ({
+      kind: 'question',
+      key: `${module}|${question.text}|${JSON.stringify(question.kind === 'multiple-choice' ? question.options : question.kind)}`,
+      module,
+      skill: questionSkill(question),
+      question,
+      partTitle: part.title,
+      excerpt: q.kind === 'matching' ? '' : excerptFor(part, question, correctAnswerLabel(question))
+    }));
+  })));
+
+// Sentences of `text` that contain corrections, each with all of its corrections applied
+export const correctedSentences = (text: string, corrections: TextCorrection[]) => {
+  const bounds = [...text.matchAll(/[^.!?\n]+[.!?]*/g)].map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+  return bounds.flatMap(({ start, end }) => {
+    const inside = corrections.filter(c => c.start >= start && c.end <= end);
+    if (inside.length === 0) return [];
+    let corrected = '';
+    let position = start;
+    inside.forEach(c => {
+      corrected += text.slice(position, c.start) + c.replacement;
+      position = c.end;
+    });
+    corrected += text.slice(position, end);
+    return [{ original: text.slice(start, end).trim(), corrected: corrected.trim(), corrections: inside }];
+  });
+};
+
+export const collectCorrections = (module: 'writing' | 'speaking', text: string, corrections: TextCorrection[] = []) =>
+  addCards(correctedSentences(text, corrections).map((s): NewCard => ({
+    kind: 'sentence',
+    key: `${module}|${s.original}`,
+    module,
+    skill: correctionSkill(s.corrections[0]),
+    original: s.original,
+    corrected: s.corrected,
+    corrections: s.corrections.map(({ original, replacement, explanation }) => ({ original, replacement, explanation }))
+  })));
+
+// Cards due now, most overdue first, limited to one day's session
+export const dueCards = (deck: ReviewCard[], now = Date.now(), limit = DAILY_REVIEW_LIMIT) =>
+  deck.filter(c => c.due <= now).sort((a, b) => a.due - b.due).slice(0, limit);
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// SM-2: a failed card starts over and comes back tomorrow; a passed one waits 1, then 6 days, then
+// its previous interval times its ease. Cards become due at the start of their day.
+export const scheduleCard = <C extends ReviewCard>(card: C, grade: ReviewGrade, now = Date.now()): C => {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  if (quality < 3) {
+    return { ...card, ease, interval: 1, repetitions: 0, lapses: card.lapses + 1, due: startOfDay(now) + DAY_MS };
+  }
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+  return { ...card, ease, interval, repetitions, due: startOfDay(now) + interval * DAY_MS };
+};
+
+// Stores the review and returns the updated card
+export const reviewCard = (id: string, grade: ReviewGrade): ReviewCard | null => {
+  const deck = loadDeck();
+  const index = deck.findIndex(c => c.id === id);
+  if (index === -1) return null;
+  deck[index] = scheduleCard(deck[index], grade);
+  saveDeck(deck);
+  return deck[index];
+};
+
+export const removeCard = (id: string) => saveDeck(loadDeck().filter(c => c.id !== id));
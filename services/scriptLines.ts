@@ -0,0 +1,22 @@
+import { ScriptLine, TestPart } from "../types.ts";
+
+// Helpers for speaker-tagged listening scripts, shared by the validator and the audio backends.
+
+// Pauses the backends put into a part's track; transcript timing relies on the same values.
+export const INTRO_PAUSE_SECONDS = 1;
+export const LINE_PAUSE_SECONDS = 0.5;
+
+// What the narrator says before each part's script.
+export const partIntro = (part: TestPart, index: number) => `Teil ${index + 1}. ${part.type}.`;
+
+// Speakers in order of first appearance; the order decides which voice each one gets.
+export const speakersOf = (lines: ScriptLine[]): string[] =>
+  lines.reduce<string[]>((speakers, line) => (speakers.includes(line.speaker) ? speakers : [...speakers, line.speaker]), []);
+
+// Plain-text transcript with one "Speaker: text" line per turn.
+export const formatTranscript = (lines: ScriptLine[]): string =>
+  lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+
+// Index of the speaker's voice in a backend's voice list (wraps around if there are more speakers than voices).
+export const voiceIndexFor = (lines: ScriptLine[], speaker: string, voiceCount: number): number =>
+  Math.max(0, speakersOf(lines).indexOf(speaker)) % voiceCount;
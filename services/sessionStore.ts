@@ -0,0 +1,166 @@
+import { AppState, ModuleKey, RawScore, ExamProfileId, CefrLevel, ReadingTestContent, WritingTask, SpeakingTask, Answer, EvaluationResult, ExaminerTurn } from "../types.ts";
+import { PreloadedListening, SpeakingInput } from "./contentProvider.ts";
+import { FormGrade } from "./formGrading.ts";
+import { MODULE_KEYS } from "./examTimer.ts";
+import { SkillStats } from "./skillTags.ts";
+
+// Local copy of an unfinished test so a reload or crash doesn't lose it. Kept in IndexedDB because
+// listening audio and speaking recordings are far larger than localStorage allows.
+//
+// Three kinds of record: the session snapshot (where the test stands), the generated content per
+// module and the learner's progress per module. Content is only rewritten when it changes.
+
+const DB_NAME = 'mock-test-session';
+const STORE = 'session';
+const SNAPSHOT_KEY = 'snapshot';
+const SESSION_VERSION = 1;
+
+export const SESSION_TTL_HOURS = 24;
+// Modules save their timer at least this often, on top of saving every answer
+export const PROGRESS_SAVE_SECONDS = 5;
+
+export interface SessionSnapshot {
+  version: number;
+  savedAt: number; // ms timestamp of the last save; sessions older than the TTL are discarded
+  state: AppState;
+  examProfileId: ExamProfileId;
+  level: CefrLevel;
+  strictMode: boolean;
+  timed: boolean;
+  practiceModule?: ModuleKey | null; // Set when a single module is practised on its own
+  scores: Record<ModuleKey, number>;
+  rawScores?: Partial<Record<ModuleKey, RawScore>>;
+  timeSpent: Record<ModuleKey, number>;
+  skillStats?: Partial<Record<ModuleKey, SkillStats>>;
+}
+
+interface ProgressBase {
+  elapsed: number; // Seconds on the module timer so far
+  secondsSpent: number; // Final time, set once the module has been submitted
+}
+
+export interface QuestionProgress extends ProgressBase {
+  answers: Record<string, Answer>;
+  submitted: boolean;
+}
+
+export interface ListeningProgress extends QuestionProgress {
+  playsUsed?: number[]; // Per part, so a reload can't reset the play limit
+}
+
+export interface WritingProgress extends ProgressBase {
+  userText: string;
+  formAnswers: string[];
+  result: EvaluationResult | null;
+  formGrade: FormGrade | null;
+}
+
+export interface SavedTurn {
+  turn: ExaminerTurn;
+  input: SpeakingInput;
+  result?: EvaluationResult | null;
+}
+
+export interface SpeakingProgress extends ProgressBase {
+  stage: 'briefing' | 'turns' | 'scoring' | 'result';
+  turns: ExaminerTurn[];
+  current: number;
+  answered: SavedTurn[];
+  result: EvaluationResult | null;
+}
+
+export interface ModuleContent {
+  reading: ReadingTestContent;
+  listening: PreloadedListening;
+  writing: WritingTask;
+  speaking: SpeakingTask;
+}
+
+export interface ModuleProgress {
+  reading: QuestionProgress;
+  listening: ListeningProgress;
+  writing: WritingProgress;
+  speaking: SpeakingProgress;
+}
+
+export interface StoredSession {
+  snapshot: SessionSnapshot;
+  content: Partial<ModuleContent>;
+  progress: Partial<ModuleProgress>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const put = (key: string, value: unknown) => run<IDBValidKey>('readwrite', store => store.put(value, key));
+const get = <T,>(key: string) => run<T | undefined>('readonly', store => store.get(key));
+
+// Last content object written per module, so progress saves don't rewrite megabytes of audio
+const savedContent = new Map<ModuleKey, unknown>();
+
+// Storage failures are logged, never thrown: a test must keep running when the browser refuses to store it
+const attempt = (label: string, task: Promise<unknown>) => task.catch(e => console.warn(`Session ${label} failed`, e));
+
+export const saveSnapshot = (snapshot: Omit<SessionSnapshot, 'version' | 'savedAt'>) =>
+  attempt('save', put(SNAPSHOT_KEY, { ...snapshot, version: SESSION_VERSION, savedAt: Date.now() }));
+
+export const saveContent = <K extends ModuleKey>(module: K, content: ModuleContent[K]) => {
+  if (savedContent.get(module) === content) return Promise.resolve();
+  savedContent.set(module, content);
+  return attempt('save', put(`content:${module}`, content));
+};
+
+export const saveProgress = <K extends ModuleKey>(module: K, progress: ModuleProgress[K]) =>
+  attempt('save', put(`progress:${module}`, progress));
+
+export const clearSession = () => {
+  savedContent.clear();
+  return attempt('clear', run('readwrite', store => store.clear()));
+};
+
+// The unfinished session, or null when there is none or it has expired (expired ones are deleted)
+export const loadSession = async (): Promise<StoredSession | null> => {
+  try {
+    const snapshot = await get<SessionSnapshot>(SNAPSHOT_KEY);
+    if (!snapshot) return null;
+    if (snapshot.version !== SESSION_VERSION || Date.now() - snapshot.savedAt > SESSION_TTL_HOURS * 3600 * 1000) {
+      await clearSession();
+      return null;
+    }
+    const content: Partial<ModuleContent> = {};
+    const progress: Partial<ModuleProgress> = {};
+    for (const module of MODULE_KEYS) {
+      const storedContent = await get<any>(`content:${module}`);
+      const storedProgress = await get<any>(`progress:${module}`);
+      if (storedContent) {
+        content[module] = storedContent;
+        savedContent.set(module, storedContent);
+      }
+      if (storedProgress) progress[module] = storedProgress;
+    }
+    return { snapshot, content, progress };
+  } catch (e) {
+    console.warn("Session could not be loaded", e);
+    return null;
+  }
+};
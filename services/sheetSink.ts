@@ -0,0 +1,91 @@
+import { TestSubmissionData } from "./submissionService.ts";
+
+/**
+ * ============================================================================
+ * ⚠️ CRITICAL SETUP INSTRUCTIONS FOR GOOGLE SHEETS ⚠️
+ * ============================================================================
+ * 
+ * IF DATA IS NOT APPEARING IN YOUR SHEET:
+ * 
+ * 1. Open your Google Sheet > Extensions > Apps Script.
+ * 2. Click "Deploy" > "Manage deployments".
+ * 3. Click the "Edit" (pencil) icon on your deployment.
+ * 4. Check "Who has access". 
+ *    👉 IT MUST BE SET TO: "Anyone" 👈
+ *    (Not "Anyone with Google Account" or "Only me").
+ * 
+ * 5. If you change code in the script, you MUST create a NEW Deployment:
+ *    Deploy > New deployment > Deploy.
+ * 
+ * 6. Submissions are retried until they arrive, so the same one can be sent
+ *    more than once. Store the "submissionId" field in its own column and
+ *    skip the row in doPost if that id is already in the sheet.
+ * 
+ * 7. Have doPost answer {"result":"success"} (also for a skipped duplicate):
+ *      return ContentService.createTextOutput(JSON.stringify({ result: 'success' }))
+ *        .setMimeType(ContentService.MimeType.JSON);
+ *    and {"result":"error","error":"..."} when it can't add the row, so the
+ *    submission is retried. Older scripts that answer with plain text still
+ *    work: any 2xx answer that isn't JSON counts as delivered.
+ *    Set VITE_GOOGLE_SHEET_STRICT=true to accept {"result":"success"} only.
+ *    That also catches errors Apps Script reports as an HTML page with
+ *    status 200, but breaks scripts that don't answer this way yet.
+ * 
+ * ============================================================================
+ */
+
+interface SheetResult {
+  result?: unknown;
+  error?: unknown;
+}
+
+const isSheetResult = (value: unknown): value is SheetResult =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Plain-text answers from older scripts are not an error
+const parseJson = (body: string): unknown => {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const isConfigured = () => !!process.env.VITE_GOOGLE_SHEET_URL;
+
+// Sends one submission; throws unless the sheet confirms it, so the outbox knows to retry.
+// The submission id travels with every attempt, letting the script skip rows it already has.
+export const submit = async (data: TestSubmissionData, submissionId: string) => {
+  // Set in .env.local or the hosting environment (e.g. Vercel); there is deliberately no default sheet
+  const GOOGLE_SCRIPT_URL = process.env.VITE_GOOGLE_SHEET_URL;
+
+  if (!GOOGLE_SCRIPT_URL) {
+    throw new Error("VITE_GOOGLE_SHEET_URL is missing");
+  }
+
+  const params = new URLSearchParams();
+  params.append('submissionId', submissionId);
+  Object.entries(data).forEach(([field, value]) => params.append(field, String(value)));
+
+  // A form-encoded POST is a "simple" request, so no preflight is needed and Apps Script's
+  // response (served with Access-Control-Allow-Origin: *) can be read to confirm delivery
+  const response = await fetch(GOOGLE_SCRIPT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params.toString()
+  });
+  if (!response.ok) {
+    throw new Error(`Google Sheet answered ${response.status}`);
+  }
+  const body = await response.text();
+  const parsed = parseJson(body);
+  if (isSheetResult(parsed) && parsed.result !== undefined && parsed.result !== 'success') {
+    throw new Error(`Google Sheet rejected the row: ${parsed.error ?? body.slice(0, 200)}`);
+  }
+  if (process.env.VITE_GOOGLE_SHEET_STRICT === 'true' && !(isSheetResult(parsed) && parsed.result === 'success')) {
+    throw new Error(`Google Sheet did not confirm the row: ${body.slice(0, 200)}`);
+  }
+  console.log("✅ Submission saved to Google Sheet");
+};
@@ -0,0 +1,119 @@
+import { SkillTag, ErrorCategory, Question, TestPart, Answer, TextCorrection, FormFieldKind } from "../types.ts";
+import { scoreQuestion, maxPoints } from "./questionScoring.ts";
+import { FormGrade } from "./formGrading.ts";
+import { t } from "./i18n.ts";
+
+// Skill tags on questions and corrections, and the weakness report built from them. Each module
+// reports per-skill counts when it is completed; attempts keep them, so the same report can be made
+// for one attempt or for the whole history.
+
+export const SKILL_TAGS: SkillTag[] = ['articles', 'akkusativ', 'modal-verbs', 'verb-forms', 'word-order', 'numbers-time', 'spelling', 'vocabulary'];
+
+// Names and study advice come from the message catalogs, in the learner's display language
+export const skillLabel = (skill: SkillTag): string => t(`skill.${skill}`);
+
+export const skillAdvice = (skill: SkillTag): string => t(`skill.${skill}.advice`);
+
+export const isSkillTag = (value: unknown): value is SkillTag => SKILL_TAGS.includes(value as SkillTag);
+
+const CATEGORY_SKILLS: Record<ErrorCategory, SkillTag> = {
+  'article-gender': 'articles',
+  'case': 'akkusativ',
+  'verb-position': 'word-order',
+  'conjugation': 'verb-forms',
+  'spelling': 'spelling',
+  'other': 'vocabulary'
+};
+
+export const correctionSkill = (correction: Pick<TextCorrection, 'category' | 'skill'>): SkillTag =>
+  correction.skill || CATEGORY_SKILLS[correction.category];
+
+const NUMBER_TIME_PATTERN = /\d|\b(uhr|wann|wie viel|wie lange|wie spät|kostet|kosten|preis|euro|minuten?|stunden?|datum|nummer|gleis|montags?|dienstags?|mittwochs?|donnerstags?|freitags?|samstags?|sonntags?|wochenende|morgens|vormittags|nachmittags|abends)\b/i;
+const MODAL_PATTERN = /\b(kann|kannst|können|könnt|muss|musst|müssen|müsst|soll|sollst|sollen|sollt|darf|darfst|dürfen|dürft|will|willst|wollen|wollt|möchte|möchtest|möchten|möchtet)\b/i;
+
+// Fallback for questions generated without a tag: the question and its options decide
+export const inferQuestionSkill = (q: Question): SkillTag => {
+  const texts = [q.text, ...(q.kind === 'true-false' ? [] : q.options), ...(q.kind === 'matching' ? q.items : [])].join(' ');
+  if (NUMBER_TIME_PATTERN.test(texts)) return 'numbers-time';
+  if (MODAL_PATTERN.test(q.text)) return 'modal-verbs';
+  return 'vocabulary';
+};
+
+export const questionSkill = (q: Question): SkillTag => q.skill || inferQuestionSkill(q);
+
+// Counts per skill: points asked and missed in questions and form fields, errors in the learner's own language
+export interface SkillCount {
+  asked: number;
+  missed: number;
+  errors: number;
+  themes: string[]; // Vocabulary themes of missed questions
+}
+
+export type SkillStats = Partial<Record<SkillTag, SkillCount>>;
+
+const addCount = (stats: SkillStats, skill: SkillTag, change: Partial<SkillCount>) => {
+  const current = stats[skill] || { asked: 0, missed: 0, errors: 0, themes: [] };
+  stats[skill] = {
+    asked: current.asked + (change.asked || 0),
+    missed: current.missed + (change.missed || 0),
+    errors: current.errors + (change.errors || 0),
+    themes: [...new Set([...current.themes, ...(change.themes || [])])]
+  };
+};
+
+// Questions with a disputed answer key are left out, as in the score
+export const questionSkillStats = (parts: TestPart[], answers: Record<string, Answer>): SkillStats => {
+  const stats: SkillStats = {};
+  parts.flatMap(p => p.questions).filter(q => !q.flagged).forEach(q => {
+    const missed = maxPoints(q) - scoreQuestion(q, answers[q.id]);
+    addCount(stats, questionSkill(q), { asked: maxPoints(q), missed, themes: missed > 0 && q.theme ? [q.theme] : [] });
+  });
+  return stats;
+};
+
+export const correctionSkillStats = (corrections: TextCorrection[] = []): SkillStats => {
+  const stats: SkillStats = {};
+  corrections.forEach(c => addCount(stats, correctionSkill(c), { errors: 1 }));
+  return stats;
+};
+
+const FIELD_SKILLS: Record<FormFieldKind, SkillTag> = {
+  text: 'spelling',
+  date: 'numbers-time',
+  number: 'numbers-time',
+  choice: 'vocabulary'
+};
+
+export const formSkillStats = (grade: FormGrade | null): SkillStats => {
+  const stats: SkillStats = {};
+  grade?.fields.forEach(f => addCount(stats, FIELD_SKILLS[f.field.kind], { asked: 1, missed: f.correct ? 0 : 1 }));
+  return stats;
+};
+
+export const mergeSkillStats = (...all: (SkillStats | undefined)[]): SkillStats => {
+  const stats: SkillStats = {};
+  all.forEach(s => Object.entries(s || {}).forEach(([skill, count]) => addCount(stats, skill as SkillTag, count!)));
+  return stats;
+};
+
+export interface Weakness extends SkillCount {
+  skill: SkillTag;
+  label: string;
+  recommendation: string;
+}
+
+// Weakest skills first: most missed points and errors, then the highest share of missed questions.
+// Skills without a single mistake are not weaknesses and are left out.
+export const rankWeaknesses = (stats: SkillStats, limit = 3): Weakness[] =>
+  (Object.entries(stats) as [SkillTag, SkillCount][])
+    .filter(([, c]) => c.missed + c.errors > 0)
+    .sort(([, a], [, b]) => (b.missed + b.errors) - (a.missed + a.errors) || b.missed / (b.asked || 1) - a.missed / (a.asked || 1))
+    .slice(0, limit)
+    .map(([skill, c]) => ({
+      ...c,
+      skill,
+      label: skillLabel(skill),
+      recommendation: skill === 'vocabulary' && c.themes.length
+        ? t('skill.vocabularyThemes', { themes: c.themes.join(', '), advice: skillAdvice(skill) })
+        : skillAdvice(skill)
+    }));
@@ -0,0 +1,72 @@
+import { EvaluationResult, ExaminerTurn, ExamProfile, SpeakingTask, CefrLevel, TextCorrection } from "../types.ts";
+import { levelSettings } from "./cefrLevels.ts";
+
+// Turn-based Sprechen: the examiner script, what each turn is graded against, and how
+// the per-turn results add up to one speaking score.
+
+export interface TurnResult {
+  turn: ExaminerTurn;
+  result: EvaluationResult;
+}
+
+// Tasks without a script become one turn that asks the whole task.
+export const turnsFor = (task: SpeakingTask): ExaminerTurn[] =>
+  task.turns && task.turns.length > 0 ? task.turns : [{ partIndex: 0, prompt: task.instructions }];
+
+// A single turn graded as its own small task, so the evaluator only expects an answer to that prompt.
+// One exchange is expected to take about a third of a full monologue answer.
+export const taskForTurn = (task: SpeakingTask, turn: ExaminerTurn, profile: ExamProfile, level: CefrLevel): SpeakingTask => {
+  const part = profile.speaking.parts[turn.partIndex];
+  return {
+    topic: part ? part.title : task.topic,
+    instructions: [part?.description, `Examiner: ${turn.prompt}`, turn.card ? `Card: ${turn.card}` : ''].filter(Boolean).join('. '),
+    answerSeconds: Math.round(levelSettings[level].speakingSeconds / 3)
+  };
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+// Every part weighs the same, however many turns (and follow-ups) it had.
+const partMean = (results: TurnResult[], value: (r: EvaluationResult) => number) => {
+  const parts = [...new Set(results.map(r => r.turn.partIndex))];
+  return Math.round(mean(parts.map(p => mean(results.filter(r => r.turn.partIndex === p).map(r => value(r.result))))));
+};
+
+const TURN_SEPARATOR = '\n\n';
+
+// One transcript for the whole conversation; each turn's corrections are moved to where its answer ends up
+const joinTranscripts = (results: TurnResult[]) => {
+  let transcript = '';
+  const textCorrections: TextCorrection[] = [];
+  results.forEach((r, i) => {
+    if (i > 0) transcript += TURN_SEPARATOR;
+    transcript += `Prüfer: ${r.turn.prompt}\nSie: `;
+    const offset = transcript.length;
+    transcript += r.result.transcript || '…';
+    if (r.result.transcript) textCorrections.push(...(r.result.textCorrections || []).map(c => ({ ...c, start: c.start + offset, end: c.end + offset })));
+  });
+  return { transcript, textCorrections };
+};
+
+export const aggregateTurnResults = (results: TurnResult[], profile: ExamProfile): EvaluationResult => {
+  const hasSplit = results.length > 0 && results.every(r => r.result.contentScore !== undefined && r.result.languageScore !== undefined);
+  const joined = results.some(r => r.result.transcript) ? joinTranscripts(results) : null;
+  const feedback = profile.speaking.parts
+    .map((part, i) => {
+      const texts = [...new Set(results.filter(r => r.turn.partIndex === i).map(r => r.result.feedback).filter(Boolean))];
+      return texts.length ? `${part.title}: ${texts.join(' ')}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+  return {
+    score: partMean(results, r => r.score),
+    feedback,
+    corrections: [...new Set(results.flatMap(r => r.result.corrections || []))],
+    speechNotes: results.flatMap(r => r.result.speechNotes || []),
+    ...(hasSplit ? {
+      contentScore: partMean(results, r => r.contentScore!),
+      languageScore: partMean(results, r => r.languageScore!)
+    } : {}),
+    ...(joined || {})
+  };
+};
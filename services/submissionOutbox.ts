@@ -0,0 +1,199 @@
+import { getSubmissionSinks, isImmediateSink, submitToSink, TestSubmissionData } from "./submissionService.ts";
+
+// Submissions are written to a localStorage outbox before anything is sent, then delivered in the
+// background and retried with growing delays until every configured sink accepts them. Pending entries
+// survive a reload: startOutbox picks them up again on the next visit. Sinks that already accepted an
+// entry are skipped on retries. Immediate sinks (the kiosk file download) only run from a click: when
+// the entry is queued and from "Try again". A failed one marks the entry failed until the user retries.
+//
+// Each entry's id doubles as the idempotency key, so a retry after a lost response (or a second tab
+// sending the same entry) doesn't add a duplicate row.
+
+const OUTBOX_KEY = 'mock-test-outbox';
+// Delivered entries are only kept so the results screen can show "saved"
+const MAX_DELIVERED = 20;
+const FIRST_RETRY_SECONDS = 5;
+const MAX_RETRY_SECONDS = 60 * 60;
+// After this many failed attempts the entry is shown as failed; it is still retried in the background
+export const FAILED_AFTER_ATTEMPTS = 5;
+
+export type SubmissionStatus = 'saved' | 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  data: TestSubmissionData;
+  createdAt: number; // ms timestamp
+  delivered: boolean; // Accepted by every sink
+  deliveredTo?: string[]; // Sinks that have accepted it so far
+  attempts: number; // Failed delivery attempts so far
+  nextAttemptAt: number; // ms timestamp; retries wait until then
+  lastError?: string;
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<Listener>();
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let flushing: Promise<void> | null = null;
+let started = false;
+
+export const loadOutbox = (): OutboxEntry[] => {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Submission outbox could not be read", e);
+    return [];
+  }
+};
+
+const saveOutbox = (entries: OutboxEntry[]) => {
+  const delivered = entries.filter(e => e.delivered).slice(-MAX_DELIVERED);
+  const kept = entries.filter(e => !e.delivered || delivered.includes(e));
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.warn("Submission outbox could not be saved", e);
+  }
+  listeners.forEach(listener => listener(kept));
+};
+
+// Only the entry's own fields change, so concurrent writes from a flush and a new submission don't clash
+const updateEntry = (id: string, change: Partial<OutboxEntry>) =>
+  saveOutbox(loadOutbox().map(e => (e.id === id ? { ...e, ...change } : e)));
+
+export const submissionStatus = (entry: OutboxEntry): SubmissionStatus => {
+  if (entry.delivered) return 'saved';
+  return entry.attempts >= FAILED_AFTER_ATTEMPTS ? 'failed' : 'pending';
+};
+
+// 5 s, 10 s, 20 s, ... up to an hour between attempts
+const retryDelay = (attempts: number) => Math.min(FIRST_RETRY_SECONDS * 2 ** (attempts - 1), MAX_RETRY_SECONDS) * 1000;
+
+const isComplete = (deliveredTo: string[]) => getSubmissionSinks().every(sink => deliveredTo.includes(sink));
+
+// Sinks the background delivery still has to reach for this entry
+const backgroundSinksLeft = (entry: OutboxEntry) =>
+  getSubmissionSinks().filter(sink => !isImmediateSink(sink) && !(entry.deliveredTo ?? []).includes(sink));
+
+// Merges into the stored entry, since immediate and background sinks of one entry can finish in any order.
+// An immediate sink that failed shows the entry as failed straight away; only a click can retry it.
+const recordResults = (id: string, accepted: string[], errors: string[], immediate: boolean) => {
+  const entry = loadOutbox().find(e => e.id === id);
+  if (!entry) return;
+  const deliveredTo = [...new Set([...(entry.deliveredTo ?? []), ...accepted])];
+  if (!errors.length) {
+    const delivered = isComplete(deliveredTo);
+    updateEntry(id, { deliveredTo, delivered, ...(delivered ? { lastError: undefined } : {}) });
+    return;
+  }
+  const lastError = errors.join('; ');
+  if (immediate) {
+    updateEntry(id, { deliveredTo, attempts: Math.max(entry.attempts, FAILED_AFTER_ATTEMPTS), lastError });
+    return;
+  }
+  const attempts = entry.attempts + 1;
+  updateEntry(id, { deliveredTo, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError });
+};
+
+const describeError = (sink: string, e: any) => `${sink}: ${e?.message ?? String(e)}`;
+
+// Runs every immediate sink the entry still lacks. They all start before the first await, so they
+// still count as part of the user's click.
+const runImmediateSinks = async (entry: OutboxEntry) => {
+  const sinks = getSubmissionSinks().filter(sink => isImmediateSink(sink) && !(entry.deliveredTo ?? []).includes(sink));
+  if (!sinks.length) return;
+  const results = await Promise.allSettled(sinks.map(sink => submitToSink(sink, entry.data, entry.id)));
+  const accepted = sinks.filter((_, i) => results[i].status === 'fulfilled');
+  const errors = results.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return [];
+    console.warn(`Submission ${entry.id} failed for ${sinks[i]}`, result.reason);
+    return [describeError(sinks[i], result.reason)];
+  });
+  recordResults(entry.id, accepted, errors, true);
+};
+
+// Wakes up for the next entry that is due, if any
+const scheduleRetry = () => {
+  clearTimeout(retryTimer);
+  const waiting = loadOutbox().filter(e => !e.delivered && backgroundSinksLeft(e).length > 0);
+  if (!waiting.length) return;
+  const next = Math.min(...waiting.map(e => e.nextAttemptAt));
+  retryTimer = setTimeout(() => { flushOutbox(); }, Math.max(next - Date.now(), 0));
+};
+
+const deliver = async (entry: OutboxEntry) => {
+  const accepted: string[] = [];
+  const errors: string[] = [];
+  for (const sink of backgroundSinksLeft(entry)) {
+    try {
+      await submitToSink(sink, entry.data, entry.id);
+      accepted.push(sink);
+    } catch (e: any) {
+      console.warn(`Submission ${entry.id} failed for ${sink} (attempt ${entry.attempts + 1})`, e);
+      errors.push(describeError(sink, e));
+    }
+  }
+  recordResults(entry.id, accepted, errors, false);
+};
+
+// Sends every entry that is due, one after the other. Calls made while a flush runs join that flush.
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const due = loadOutbox().filter(e => !e.delivered && e.nextAttemptAt <= Date.now() && backgroundSinksLeft(e).length > 0);
+    for (const entry of due) await deliver(entry);
+  })().finally(() => {
+    // Runs after the assignment above even when nothing was due
+    flushing = null;
+    scheduleRetry();
+  });
+  return flushing;
+};
+
+// Stores the submission and starts sending it; the returned entry's id identifies it in the outbox.
+// Call it from the submit click, so immediate sinks still count as started by the user. Returns null
+// when no sink is configured, since the entry could never be delivered.
+export const enqueueSubmission = (data: TestSubmissionData): OutboxEntry | null => {
+  if (!getSubmissionSinks().length) return null;
+  const entry: OutboxEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    data,
+    createdAt: Date.now(),
+    delivered: false,
+    deliveredTo: [],
+    attempts: 0,
+    nextAttemptAt: Date.now()
+  };
+  saveOutbox([...loadOutbox(), entry]);
+  runImmediateSinks(entry);
+  flushOutbox();
+  return entry;
+};
+
+// "Try again" from the UI: send a failed entry right away, with a fresh backoff. Being a click, it
+// also reruns immediate sinks that failed.
+export const retrySubmission = (id: string) => {
+  updateEntry(id, { attempts: 0, nextAttemptAt: Date.now() });
+  const entry = loadOutbox().find(e => e.id === id);
+  if (entry) runImmediateSinks(entry);
+  flushOutbox();
+};
+
+export const subscribeOutbox = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Called once on start-up: resumes entries left over from earlier visits and retries as soon as the
+// browser is back online instead of waiting out the backoff
+export const startOutbox = () => {
+  if (started) return;
+  started = true;
+  window.addEventListener('online', () => {
+    saveOutbox(loadOutbox().map(e => (e.delivered ? e : { ...e, nextAttemptAt: Date.now() })));
+    flushOutbox();
+  });
+  flushOutbox();
+};
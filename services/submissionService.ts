@@ -1,78 +1,61 @@
+import * as sheets from "./sheetSink.ts";
+import * as webhook from "./webhookSink.ts";
+import * as download from "./downloadSink.ts";
+
 export interface TestSubmissionData {
   name: string;
   phone: string;
   language: string;
+  level: string; // CEFR level of the attempt (A1, A2, B1)
   readingScore: number;
   listeningScore: number;
   writingScore: number;
   speakingScore: number;
   averageScore: number;
+  readingSeconds: number; // Time spent per module
+  listeningSeconds: number;
+  writingSeconds: number;
+  speakingSeconds: number;
   timestamp: string;
 }
 
-/**
- * ============================================================================
- * ⚠️ CRITICAL SETUP INSTRUCTIONS FOR GOOGLE SHEETS ⚠️
- * ============================================================================
- * 
- * IF DATA IS NOT APPEARING IN YOUR SHEET:
- * 
- * 1. Open your Google Sheet > Extensions > Apps Script.
- * 2. Click "Deploy" > "Manage deployments".
- * 3. Click the "Edit" (pencil) icon on your deployment.
- * 4. Check "Who has access". 
- *    👉 IT MUST BE SET TO: "Anyone" 👈
- *    (Not "Anyone with Google Account" or "Only me").
- * 
- * 5. If you change code in the script, you MUST create a NEW Deployment:
- *    Deploy > New deployment > Deploy.
- * 
- * ============================================================================
- */
+// A destination for finished tests. submit must throw unless the submission was accepted, so the
+// outbox retries it; the id is the same on every retry and lets a sink drop duplicates.
+export interface SubmissionSink {
+  submit: (data: TestSubmissionData, submissionId: string) => Promise<void>;
+  // Runs once, straight from the submit click, and is never retried in the background. Browsers
+  // block file downloads that start without a user action, e.g. after a reload.
+  immediate?: boolean;
+  // False when the settings the sink needs are missing; such a sink is left out instead of queueing
+  // submissions it can never deliver
+  isConfigured?: () => boolean;
+}
 
-const getSheetUrl = () => {
-  // 1. Try Vite Env Var (Recommended for Vercel)
-  // @ts-ignore
-  if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_GOOGLE_SHEET_URL) {
-    // @ts-ignore
-    return import.meta.env.VITE_GOOGLE_SHEET_URL;
-  }
-  
-  // 2. Return hardcoded URL provided by user
-  return 'https://script.google.com/macros/s/AKfycbyTQXbArXeIawBujYNZfGmCInR0MfvO9F093cDhnvor9eSXWo7klYzhirEy0ZKzBH-uPQ/exec'; 
+const sinks: Record<string, SubmissionSink> = {
+  sheets,
+  webhook,
+  download
 };
 
-export const submitTestResults = async (data: TestSubmissionData) => {
-  const GOOGLE_SCRIPT_URL = getSheetUrl();
+const DEFAULT_SINKS = ['sheets'];
 
-  if (!GOOGLE_SCRIPT_URL) {
-    console.warn("⚠️ VITE_GOOGLE_SHEET_URL is missing. Data will not be saved to Google Sheets.");
-    return;
-  }
+let selected: string[] | undefined;
+
+// Selected with SUBMISSION_SINKS in .env.local, a comma-separated list ("sheets" by default), e.g.
+// "sheets,webhook" or "download" for offline kiosks. Every listed sink receives every submission.
+// Resolved once, so the warnings show up a single time; an empty list means results are not sent anywhere.
+export const getSubmissionSinks = (): string[] => {
+  if (selected) return selected;
+  const names = (process.env.SUBMISSION_SINKS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  names.filter(name => !sinks[name]).forEach(name => console.warn(`⚠️ Unknown submission sink "${name}", ignoring it.`));
+  const known = [...new Set(names.filter(name => sinks[name]))];
+  const chosen = known.length ? known : DEFAULT_SINKS;
+  chosen.filter(name => sinks[name].isConfigured?.() === false)
+    .forEach(name => console.warn(`⚠️ Submission sink "${name}" is not configured, results are not sent there.`));
+  selected = chosen.filter(name => sinks[name].isConfigured?.() !== false);
+  return selected;
+};
 
-  try {
-    const params = new URLSearchParams();
-    params.append('name', data.name);
-    params.append('phone', data.phone);
-    params.append('language', data.language);
-    params.append('readingScore', data.readingScore.toString());
-    params.append('listeningScore', data.listeningScore.toString());
-    params.append('writingScore', data.writingScore.toString());
-    params.append('speakingScore', data.speakingScore.toString());
-    params.append('averageScore', data.averageScore.toString());
-    params.append('timestamp', data.timestamp);
+export const isImmediateSink = (name: string) => !!sinks[name].immediate;
 
-    await fetch(GOOGLE_SCRIPT_URL, {
-      method: 'POST',
-      mode: 'no-cors',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString()
-    });
-    
-    console.log("✅ Submission sent to Google Sheet (opaque response)");
-  } catch (error) {
-    console.error("❌ Error submitting to Google Sheets:", error);
-  }
-};
\ No newline at end of file
+export const submitToSink = (name: string, data: TestSubmissionData, submissionId: string) => sinks[name].submit(data, submissionId);
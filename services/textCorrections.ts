@@ -0,0 +1,32 @@
+import { ErrorCategory, TextCorrection } from "../types.ts";
+
+// Error categories for corrections in the learner's text, and anchoring of model-reported spans.
+
+// Labels are in the message catalogs under "errorCategory.<category>"
+export const ERROR_CATEGORIES: Record<ErrorCategory, { color: string }> = {
+  'article-gender': { color: 'decoration-purple-500 bg-purple-50' },
+  'verb-position': { color: 'decoration-amber-500 bg-amber-50' },
+  'conjugation': { color: 'decoration-red-500 bg-red-50' },
+  'spelling': { color: 'decoration-blue-500 bg-blue-50' },
+  'case': { color: 'decoration-emerald-500 bg-emerald-50' },
+  'other': { color: 'decoration-gray-500 bg-gray-100' }
+};
+
+export const isErrorCategory = (value: string): value is ErrorCategory => value in ERROR_CATEGORIES;
+
+// Finds each span in the text, searching onwards from the previous match so repeated words are matched
+// in order. Spans that cannot be found or overlap an earlier one are dropped; the result is sorted by position.
+export const locateCorrections = (text: string, corrections: Omit<TextCorrection, 'start' | 'end'>[]): TextCorrection[] => {
+  const located: TextCorrection[] = [];
+  let cursor = 0;
+  for (const correction of corrections) {
+    let start = text.indexOf(correction.original, cursor);
+    if (start === -1) start = text.indexOf(correction.original);
+    if (start === -1) continue;
+    const end = start + correction.original.length;
+    if (located.some(c => start < c.end && end > c.start)) continue;
+    located.push({ ...correction, start, end });
+    cursor = end;
+  }
+  return located.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,49 @@
+import { TestPart } from "../types.ts";
+import { partIntro, INTRO_PAUSE_SECONDS, LINE_PAUSE_SECONDS } from "./scriptLines.ts";
+
+// Estimated sentence positions in a part's recording, used to highlight the transcript during
+// playback and to seek by clicking a sentence. TTS gives no timestamps, so speaking time is spread
+// over the sentences by length, after subtracting the pauses the backends insert.
+
+export interface TimedSentence {
+  speaker?: string;
+  text: string;
+  start: number; // Seconds from the start of the part's track
+  end: number;
+  startsLine: boolean; // First sentence of a speaker turn (or of a paragraph)
+}
+
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]*["“”']?/g) || []).map(s => s.trim()).filter(Boolean);
+
+export const estimateSentenceTimings = (part: TestPart, index: number, duration: number): TimedSentence[] => {
+  const turns = part.lines?.length
+    ? part.lines
+    : part.content.split('\n').filter(l => l.trim()).map(text => ({ speaker: undefined, text }));
+  const sentences = turns.flatMap(turn => splitSentences(turn.text).map((text, i) => ({ speaker: turn.speaker, text, startsLine: i === 0 })));
+  const intro = partIntro(part, index);
+
+  // Only line-based tracks have fixed pauses: one after the intro and one between lines
+  const pauses = part.lines?.length ? INTRO_PAUSE_SECONDS + (part.lines.length - 1) * LINE_PAUSE_SECONDS : 0;
+  const usePauses = pauses > 0 && duration > pauses;
+  const totalChars = intro.length + sentences.reduce((sum, s) => sum + s.text.length, 0);
+  const secondsPerChar = (duration - (usePauses ? pauses : 0)) / Math.max(1, totalChars);
+
+  let position = intro.length * secondsPerChar + (usePauses ? INTRO_PAUSE_SECONDS : 0);
+  return sentences.map((sentence, i) => {
+    if (i > 0 && sentence.startsLine && usePauses) position += LINE_PAUSE_SECONDS;
+    const start = position;
+    position += sentence.text.length * secondsPerChar;
+    return { ...sentence, start, end: position };
+  });
+};
+
+// Index of the sentence being spoken at `time`; pauses count towards the sentence before them.
+// -1 before the first sentence and after the last one.
+export const sentenceAt = (sentences: TimedSentence[], time: number): number => {
+  if (sentences.length === 0 || time >= sentences[sentences.length - 1].end) return -1;
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    if (time >= sentences[i].start) return i;
+  }
+  return -1;
+};
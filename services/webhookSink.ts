@@ -0,0 +1,57 @@
+import { TestSubmissionData } from "./submissionService.ts";
+
+// Posts each submission as JSON to a webhook of your own, e.g. a CRM. Configured in .env.local:
+//   SUBMISSION_WEBHOOK_URL      where to POST
+//   SUBMISSION_WEBHOOK_HEADERS  extra request headers as a JSON object, e.g. {"Authorization":"Bearer …"}
+//   SUBMISSION_WEBHOOK_SECRET   signs the body with HMAC-SHA256, sent as "X-Signature: sha256=<hex>"
+//
+// The values end up in the browser bundle, so the secret only proves the request came from this
+// build, not from a trusted server. The receiver has to allow cross-origin POSTs with these headers.
+
+const SIGNATURE_HEADER = 'X-Signature';
+
+const parseHeaders = (raw: string | undefined): Record<string, string> => {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, String(value)]));
+    }
+  } catch (e) {
+    // Reported below
+  }
+  throw new Error("SUBMISSION_WEBHOOK_HEADERS must be a JSON object");
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const signBody = async (body: string, secret: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return `sha256=${toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(body)))}`;
+};
+
+export const isConfigured = () => !!process.env.SUBMISSION_WEBHOOK_URL;
+
+export const submit = async (data: TestSubmissionData, submissionId: string) => {
+  const url = process.env.SUBMISSION_WEBHOOK_URL;
+  if (!url) {
+    throw new Error("SUBMISSION_WEBHOOK_URL is missing");
+  }
+
+  const body = JSON.stringify({ submissionId, ...data });
+  const headers: Record<string, string> = {
+    ...parseHeaders(process.env.SUBMISSION_WEBHOOK_HEADERS),
+    'Content-Type': 'application/json',
+    'Idempotency-Key': submissionId
+  };
+  const secret = process.env.SUBMISSION_WEBHOOK_SECRET;
+  if (secret) headers[SIGNATURE_HEADER] = await signBody(body, secret);
+
+  const response = await fetch(url, { method: 'POST', headers, body });
+  // 409 Conflict: the receiver already has this submission from an earlier attempt
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Webhook answered ${response.status}`);
+  }
+  console.log("✅ Submission sent to webhook");
+};
@@ -0,0 +1,27 @@
+import { CriterionScore, WritingCriterionId } from "../types.ts";
+
+// Examiner criteria for Schreiben. The points add up to 10, as for the email task in the A1 exams;
+// the overall 0-100 score is the share of rubric points reached.
+
+export interface WritingCriterion {
+  id: WritingCriterionId;
+  label: string;
+  description: string; // Also used as the grading instruction for the model
+  maxScore: number;
+}
+
+export const WRITING_CRITERIA: WritingCriterion[] = [
+  { id: 'task-completion', label: 'Task completion', description: 'All content points of the task are covered and the text has roughly the requested length.', maxScore: 4 },
+  { id: 'communicative-design', label: 'Communicative design', description: 'Text type conventions (greeting, closing, register) and sentences that connect into a coherent message.', maxScore: 3 },
+  { id: 'formal-correctness', label: 'Formal correctness', description: 'Grammar, spelling and vocabulary appropriate to the level; errors do not block understanding.', maxScore: 3 }
+];
+
+export const getCriterion = (id: WritingCriterionId) => WRITING_CRITERIA.find(c => c.id === id)!;
+
+// Rounds to the half points examiners award.
+export const toHalfPoints = (value: number) => Math.round(value * 2) / 2;
+
+export const rubricPercent = (criteria: CriterionScore[]) => {
+  const max = criteria.reduce((sum, c) => sum + c.maxScore, 0);
+  return max ? Math.round((criteria.reduce((sum, c) => sum + c.score, 0) / max) * 100) : 0;
+};
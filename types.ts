@@ -5,45 +5,236 @@ export enum ModuleType {
   SPEAKING = 'Speaking'
 }
 
-export interface Question {
+// Keys of the four modules in scores, time limits and submission data
+export type ModuleKey = 'reading' | 'listening' | 'writing' | 'speaking';
+
+export type QuestionKind = 'multiple-choice' | 'true-false' | 'matching';
+
+// Language area a question or correction is about; aggregated into the weakness report
+export type SkillTag = 'articles' | 'akkusativ' | 'modal-verbs' | 'verb-forms' | 'word-order' | 'numbers-time' | 'spelling' | 'vocabulary';
+
+export type ExplanationLanguage = 'English' | 'Malayalam' | 'Tamil';
+
+// Why the keyed answer is right, for learners reviewing a submitted test
+export interface AnswerExplanation {
+  text: string; // In the requested language
+  quote: string; // The German sentence of the part's content that gives the answer; empty if none was found
+}
+
+interface QuestionBase {
   id: string;
-  text: string;
+  text: string; // Question, statement (true-false) or task instruction (matching)
+  skill?: SkillTag;
+  theme?: string; // Vocabulary theme the question draws on, e.g. "Einkaufen"
+  explanations?: Partial<Record<ExplanationLanguage, AnswerExplanation>>; // "Explain" results, kept with the content
+  confidence?: number; // 0-1, set by the answer-key verification pass
+  flagged?: boolean; // Verification disagreed with the key; not counted towards the score
+}
+
+export interface MultipleChoiceQuestion extends QuestionBase {
+  kind: 'multiple-choice';
   options: string[];
   correctAnswerIndex: number;
 }
 
+// Richtig/Falsch statement about the text
+export interface TrueFalseQuestion extends QuestionBase {
+  kind: 'true-false';
+  correctAnswer: boolean;
+}
+
+// Pair each item (e.g. a situation) with one option (e.g. an ad). Usually there are more options than items.
+export interface MatchingQuestion extends QuestionBase {
+  kind: 'matching';
+  items: string[];
+  options: string[];
+  correctMatches: number[]; // Option index per item; -1 when no option fits
+}
+
+export type Question = MultipleChoiceQuestion | TrueFalseQuestion | MatchingQuestion;
+
+// Learner answer per question id: option index, richtig/falsch, or one option index per matching item (-1 = none, null = unanswered)
+export type Answer = number | boolean | (number | null)[];
+
+// One turn of a listening script
+export interface ScriptLine {
+  speaker: string; // Name or role, e.g. "Anna", "Verkäufer", "Sprecherin"
+  text: string;
+}
+
 export interface TestPart {
   id: string;
   type: string; // e.g., "Email", "Advertisement", "Dialogue", "Announcement"
   title: string;
-  content: string; // The text or script segment
+  content: string; // The text or script segment; for scripts with lines, the speaker-labelled transcript
+  lines?: ScriptLine[]; // Listening only: the script split into speaker turns, each spoken with its own voice
   questions: Question[];
 }
 
+export interface ValidationReport {
+  fixes: string[]; // Problems that were corrected in place (e.g. renumbered ids)
+  rejected: string[]; // Items that were dropped as unusable
+  regeneratedParts: number[]; // Indices of parts that had to be generated again
+}
+
 export interface ReadingTestContent {
   parts: TestPart[];
+  validation?: ValidationReport;
 }
 
 export interface ListeningTestContent {
   parts: TestPart[];
   fullScript: string;
   audioBase64?: string; // Populated after TTS generation
+  validation?: ValidationReport;
+}
+
+export type FormFieldKind = 'text' | 'date' | 'number' | 'choice';
+
+// One field of the Schreiben Teil 1 form, with the value the source text gives for it
+export interface FormField {
+  label: string; // e.g. "Geburtsdatum"
+  kind: FormFieldKind; // Decides how answers are compared with the expected value
+  expected: string;
+  options?: string[]; // choice only, e.g. payment methods
+}
+
+// Schreiben Teil 1: fill in a form with information from a short text about someone
+export interface FormTask {
+  instructions: string;
+  sourceText: string;
+  fields: FormField[];
 }
 
 export interface WritingTask {
   topic: string;
-  instructions: string;
+  instructions: string; // The email task (Teil 2)
+  form?: FormTask; // Only for profiles with a form part
+}
+
+// One thing the examiner says in the Sprechen simulation
+export interface ExaminerTurn {
+  partIndex: number; // Index into the profile's speaking parts
+  prompt: string; // Spoken to the learner in German
+  card?: string; // Word or picture card for the turn, e.g. "Essen und Trinken – Frühstück?"
+  followUp?: boolean; // Generated from the learner's previous answer
 }
 
 export interface SpeakingTask {
   topic: string;
   instructions: string;
+  turns?: ExaminerTurn[]; // Examiner script, in order; without it the task is a single prompt
+  answerSeconds?: number; // Expected answer length; defaults to the level's speakingSeconds
+}
+
+export type WritingCriterionId = 'task-completion' | 'communicative-design' | 'formal-correctness';
+
+export interface CriterionScore {
+  id: WritingCriterionId;
+  score: number; // 0 to maxScore, in half points
+  maxScore: number;
+  comment: string;
+}
+
+// Whether the text covers one of the content points the task asks for
+export interface ContentPointCheck {
+  point: string;
+  covered: boolean;
+  evidence?: string; // Passage of the learner's text that covers it
+}
+
+export type ErrorCategory = 'article-gender' | 'verb-position' | 'conjugation' | 'spelling' | 'case' | 'other';
+
+// One error in the learner's own text, anchored to the span it replaces
+export interface TextCorrection {
+  original: string; // Exact span from the learner's text
+  replacement: string;
+  category: ErrorCategory;
+  skill?: SkillTag; // Falls back to the category's skill when the evaluator gives none
+  explanation: string;
+  start: number; // Character offsets of `original` in the learner's text
+  end: number;
+}
+
+// Speaking: remark on one word of the transcript
+export interface SpeechNote {
+  word: string;
+  kind: 'pronunciation' | 'fluency';
+  note: string;
 }
 
 export interface EvaluationResult {
-  score: number; // 0-100
+  score: number; // 0-100; for rubric-graded writing, derived from the criteria
   feedback: string;
-  corrections?: string[];
+  corrections?: string[]; // General improvement notes
+  textCorrections?: TextCorrection[]; // Errors in the learner's text, in text order
+  criteria?: CriterionScore[]; // Writing only: examiner rubric
+  contentPoints?: ContentPointCheck[]; // Writing only
+  transcript?: string; // Speaking: what the evaluator heard; textCorrections then refer to it
+  speechNotes?: SpeechNote[]; // Speaking only
+  contentScore?: number; // Speaking: 0-100 for task fulfilment
+  languageScore?: number; // Speaking: 0-100 for grammar, vocabulary, pronunciation and fluency; score is the mean of both
+}
+
+export interface TestPartSpec {
+  textType: string; // e.g. "Email", "Sign", "Dialogue"
+  description: string; // What the part looks like in the real exam, used in generation prompts
+  questionCount: number; // For matching parts: number of items to match
+  questionFormat: QuestionKind;
+  optionCount?: number; // Matching only: how many options the items are matched against
+  wordCount?: number; // Approximate length of the text or script
+  plays?: number; // Listening: how often the recording may be played (default 2)
+  preReadingSeconds?: number; // Listening: time to read the questions before the first play
+}
+
+export interface TestModuleSpec {
+  minutes: number;
+  parts: TestPartSpec[];
+}
+
+export interface WritingPartSpec {
+  kind: 'form' | 'email';
+  description: string;
+  wordCount?: number;
+}
+
+export interface SpeakingPartSpec {
+  title: string;
+  description: string;
+}
+
+// Raw result of a module before it is converted to exam points
+export interface RawScore {
+  earned: number; // Correct answers, or rubric points for Schreiben
+  possible: number;
+}
+
+// A separately passed part of the exam: the written modules together, or Sprechen on its own
+export interface ScoringSection {
+  id: 'written' | 'oral';
+  label: string; // e.g. "Schriftliche Prüfung"
+  modules: { module: ModuleKey; maxPoints: number }[];
+  passPoints: number; // Minimum points for this section
+}
+
+export interface ScoringSpec {
+  maxPoints: number; // Scale of the whole exam, e.g. 60 or 100
+  sections: ScoringSection[];
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1';
+
+export type ExamProfileId = 'quick' | 'goethe-a1' | 'telc-a1';
+
+export interface ExamProfile {
+  id: ExamProfileId;
+  name: string;
+  description: string;
+  reading: TestModuleSpec;
+  listening: TestModuleSpec;
+  writing: { minutes: number; parts: WritingPartSpec[] };
+  speaking: { minutes: number; parts: SpeakingPartSpec[] };
+  scoring: ScoringSpec;
 }
 
 export enum AppState {
@@ -54,5 +245,8 @@ export enum AppState {
   TEST_WRITING,
   TEST_SPEAKING,
   USER_DETAILS_FORM,
-  RESULTS
+  RESULTS,
+  PRACTICE_RESULT, // Result of a single module taken on its own
+  HISTORY,
+  REVIEW // Daily spaced-repetition review of past mistakes
 }
\ No newline at end of file
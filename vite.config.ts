@@ -12,7 +12,17 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.CONTENT_PROVIDER': JSON.stringify(env.CONTENT_PROVIDER),
+        'process.env.FIXTURE_AUDIO': JSON.stringify(env.FIXTURE_AUDIO),
+        'process.env.VERIFY_ANSWER_KEYS': JSON.stringify(env.VERIFY_ANSWER_KEYS),
+        'process.env.SUBMISSION_SINKS': JSON.stringify(env.SUBMISSION_SINKS),
+        'process.env.VITE_GOOGLE_SHEET_URL': JSON.stringify(env.VITE_GOOGLE_SHEET_URL),
+        'process.env.VITE_GOOGLE_SHEET_STRICT': JSON.stringify(env.VITE_GOOGLE_SHEET_STRICT),
+        'process.env.SUBMISSION_WEBHOOK_URL': JSON.stringify(env.SUBMISSION_WEBHOOK_URL),
+        'process.env.SUBMISSION_WEBHOOK_HEADERS': JSON.stringify(env.SUBMISSION_WEBHOOK_HEADERS),
+        'process.env.SUBMISSION_WEBHOOK_SECRET': JSON.stringify(env.SUBMISSION_WEBHOOK_SECRET),
+        'process.env.SUBMISSION_DOWNLOAD_FORMAT': JSON.stringify(env.SUBMISSION_DOWNLOAD_FORMAT)
       },
       resolve: {
         alias: {